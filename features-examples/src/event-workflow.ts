@@ -62,7 +62,7 @@ async function processItem(item: string): Promise<string> {
 async function eventWorkflow(input: EventWorkflowInput): Promise<EventWorkflowResult> {
   const taskId = input.taskId || 'event-task-001';
   const itemCount = input.itemCount ?? 3;
-  const startTime = Date.now();
+  const startTime = await SolidActions.now();
 
   // Get workflow ID for external event retrieval
   const workflowId = SolidActions.workflowID!;
@@ -73,12 +73,16 @@ async function eventWorkflow(input: EventWorkflowInput): Promise<EventWorkflowRe
     step: 1,
     status: 'starting',
     totalItems: itemCount,
-    timestamp: new Date().toISOString(),
+    timestamp: new Date(startTime).toISOString(),
   });
   console.log('[event-workflow] Set progress: starting');
 
-  // Step 2: Fetch data
-  const items = await SolidActions.runStep(() => fetchData(itemCount), { name: 'fetch-data' });
+  // Step 2: Fetch data. Steps return their own finish time, which replay
+  // serves from the recorded result instead of asking for SolidActions.now().
+  const { items, fetchedAt } = await SolidActions.runStep(
+    async () => ({ items: await fetchData(itemCount), fetchedAt: Date.now() }),
+    { name: 'fetch-data' }
+  );
 
   // Step 3: Set progress update - fetching complete
   await SolidActions.setEvent<ProgressEvent>('progress', {
@@ -86,15 +90,15 @@ async function eventWorkflow(input: EventWorkflowInput): Promise<EventWorkflowRe
     status: 'fetching',
     itemsProcessed: 0,
     totalItems: itemCount,
-    timestamp: new Date().toISOString(),
+    timestamp: new Date(fetchedAt).toISOString(),
   });
   console.log('[event-workflow] Set progress: fetching complete');
 
   // Step 4: Process each item
   const processedItems: string[] = [];
   for (let i = 0; i < items.length; i++) {
-    const processed = await SolidActions.runStep(
-      () => processItem(items[i]),
+    const { processed, processedAt } = await SolidActions.runStep(
+      async () => ({ processed: await processItem(items[i]), processedAt: Date.now() }),
       { name: `process-item-${i}` }
     );
     processedItems.push(processed);
@@ -105,19 +109,20 @@ async function eventWorkflow(input: EventWorkflowInput): Promise<EventWorkflowRe
       status: 'processing',
       itemsProcessed: i + 1,
       totalItems: itemCount,
-      timestamp: new Date().toISOString(),
+      timestamp: new Date(processedAt).toISOString(),
     });
     console.log(`[event-workflow] Set progress: processed ${i + 1}/${itemCount}`);
   }
 
   // Step 5: Set completion event
-  const duration = Date.now() - startTime;
+  const completedAt = await SolidActions.now();
+  const duration = completedAt - startTime;
   await SolidActions.setEvent<ProgressEvent>('progress', {
     step: 4,
     status: 'complete',
     itemsProcessed: itemCount,
     totalItems: itemCount,
-    timestamp: new Date().toISOString(),
+    timestamp: new Date(completedAt).toISOString(),
   });
   console.log('[event-workflow] Set progress: complete');
 
@@ -146,29 +146,29 @@ async function invoiceApprovalWorkflowFn(input: InvoiceApprovalInput): Promise<I
   // Step 5: Process based on choice
   if (!response) {
     // Timeout - no response received
-    await SolidActions.runStep(() => markTimeout(invoiceId), { name: 'mark-timeout' });
+    const marked = await SolidActions.runStep(() => markTimeout(invoiceId), { name: 'mark-timeout' });
     return {
       invoiceId,
       status: 'timeout',
-      processedAt: new Date().toISOString(),
+      processedAt: marked.updatedAt,
     };
   }
 
   if (response.choice === 'approve') {
-    await SolidActions.runStep(() => markApproved(invoiceId), { name: 'mark-approved' });
+    const marked = await SolidActions.runStep(() => markApproved(invoiceId), { name: 'mark-approved' });
     return {
       invoiceId,
       status: 'approved',
       approvedBy: approverEmail,
-      processedAt: new Date().toISOString(),
+      processedAt: marked.updatedAt,
     };
   } else {
-    await SolidActions.runStep(() => markRejected(invoiceId, response.reason), { name: 'mark-rejected' });
+    const marked = await SolidActions.runStep(() => markRejected(invoiceId, response.reason), { name: 'mark-rejected' });
     return {
       invoiceId,
       status: 'rejected',
       rejectedReason: response.reason,
-      processedAt: new Date().toISOString(),
+      processedAt: marked.updatedAt,
     };
   }
 }
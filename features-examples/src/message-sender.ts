@@ -73,7 +73,7 @@ async function messageSenderWorkflow(input: SenderInput): Promise<SenderResult>
   // Step 3: Send result back to the receiver
   const resultMessage = {
     processedData,
-    processedAt: new Date().toISOString(),
+    processedAt: new Date(await SolidActions.now()).toISOString(),
     senderWorkflowId,
   };
 
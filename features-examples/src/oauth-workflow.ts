@@ -4,10 +4,12 @@
  * Demonstrates how to call a third-party API (GitHub) from a workflow without
  * touching access tokens directly. The runtime injects a `ConnectionVar`
  * ({ key, proxyUrl, proxyToken }) into `ctx.vars.GITHUB` for each
- * `oauth:`-mapped project variable. The workflow uses `conn.key` as
- * `X-OAuth-Connection-Key`, `conn.proxyToken` as the Bearer token, and
- * `conn.proxyUrl` as the proxy base URL — along with `X-OAuth-Action-Id`
- * (the catalog action ID) on a fetch against `${conn.proxyUrl}/<platform-slug>${path}`.
+ * `oauth:`-mapped project variable. The workflow calls the proxy through
+ * `createOAuthProxyClient` (src/utils/oauth-proxy-client.ts), which uses
+ * `conn.key` as `X-OAuth-Connection-Key`, `conn.proxyToken` as the Bearer
+ * token, and `conn.proxyUrl` as the proxy base URL — along with
+ * `X-OAuth-Action-Id` (the catalog action ID) on a fetch against
+ * `${conn.proxyUrl}/<platform-slug>${path}`.
  * The proxy attaches the real OAuth credentials server-side.
  *
  * `SA_PROXY_URL` and `SA_PROXY_TOKEN` are reserved system vars and are no
@@ -27,6 +29,7 @@
  */
 
 import { SolidActions, defineWorkflow, type ConnectionVar } from '@solidactions/sdk';
+import { createOAuthProxyClient, OAuthProxyError } from './utils/oauth-proxy-client.js';
 
 interface OAuthWorkflowInput {
   // Reserved for future use (e.g., choosing a different action). Currently the
@@ -63,36 +66,29 @@ async function callGetUser(conn: ConnectionVar): Promise<{
   login?: string;
   message: string;
 }> {
-  const url = `${conn.proxyUrl}/github/user`;
+  const github = createOAuthProxyClient(conn, { platform: 'github', label: 'GitHub' });
   try {
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${conn.proxyToken}`,
-        'X-OAuth-Connection-Key': conn.key,
-        'X-OAuth-Action-Id': GITHUB_GET_USER_ACTION_ID,
-        Accept: 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
+    // request() rather than json() so the status the proxy answered with is reported either way
+    const res = await github.request('GET', '/user', { actionId: GITHUB_GET_USER_ACTION_ID });
+    const text = await res.text();
+    if (!res.ok) {
       return {
-        statusCode: response.status,
+        statusCode: res.status,
         success: false,
-        message: `Proxy returned ${response.status}: ${errorText.slice(0, 200)}`,
+        message: `Proxy returned ${res.status}: ${text.slice(0, 200)}`,
       };
     }
-
-    const user = (await response.json()) as GitHubUser;
+    const user = JSON.parse(text) as GitHubUser;
     return {
-      statusCode: response.status,
+      statusCode: res.status,
       success: true,
       login: user.login,
       message: `Authenticated as ${user.login}`,
     };
   } catch (error) {
-    return { statusCode: 0, success: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    // Network failures and timeouts surface as an OAuthProxyError with status 0
+    const statusCode = error instanceof OAuthProxyError ? error.status : 0;
+    return { statusCode, success: false, message: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
 
@@ -99,7 +99,7 @@ async function parallelStepsWorkflow(input: ParallelStepsInput): Promise<Paralle
     failCount: errors.length,
     results: successfulResults,
     errors,
-    completedAt: new Date().toISOString(),
+    completedAt: new Date(await SolidActions.now()).toISOString(),
     workflowId,
   };
 }
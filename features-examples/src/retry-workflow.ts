@@ -112,10 +112,10 @@ async function retryWorkflow(input: RetryInput): Promise<RetryResult> {
 // Register the workflow
 export const retryTest = defineWorkflow<RetryInput, RetryResult>({
   name: 'retry-workflow',
-  run: (ctx) => {
+  run: async (ctx) => {
     // Seed the deterministic PRNG. TEST_SEED is a regular project var
-    // (declared in solidactions.yaml). Falsy → time-based fallback.
-    seedRandom(process.env.TEST_SEED);
+    // (declared in solidactions.yaml). Unset → the replay-safe clock.
+    seedRandom(process.env.TEST_SEED || String(await SolidActions.now()));
     return retryWorkflow(ctx.input);
   },
 });
@@ -90,7 +90,8 @@ async function recordCompletion(scheduleName: string, itemsProcessed: number) {
 // Workflow function - handles default input values
 async function scheduledWorkflow(input: ScheduledInput): Promise<ScheduledResult> {
   const scheduleName = input.scheduleName || 'manual-trigger';
-  const scheduledTime = input.scheduledTime || new Date().toISOString();
+  // SolidActions.now() records the time once, so a replay keeps the same fallback
+  const scheduledTime = input.scheduledTime || new Date(await SolidActions.now()).toISOString();
   const taskType = input.taskType || 'default';
 
   // Step 1: Record trigger
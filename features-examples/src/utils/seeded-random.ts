@@ -8,7 +8,9 @@
  * Uses a simple mulberry32 PRNG algorithm.
  *
  * The PRNG is lazily initialized: a workflow calls `seedRandom(seed)` once at
- * the top of its run() body to pin the sequence.
+ * the top of its run() body to pin the sequence. The seed is required, so a
+ * workflow without TEST_SEED passes a replay-safe one (`SolidActions.now()`)
+ * rather than this module reading the clock at workflow level.
  * If `seededRandom()` is called before any explicit seed, it falls back to a
  * time-based seed — matching the original module-load behavior.
  */
@@ -46,14 +48,13 @@ let rng: (() => number) | null = null;
  * Initialize the global seeded PRNG.
  *
  * Workflows call this once at the top of their run() body, passing
- * `process.env.TEST_SEED`. When a seed is provided, the subsequent
- * `seededRandom()` sequence is deterministic; otherwise a time-based seed is
- * used (same fallback as the original module-load behavior).
+ * `process.env.TEST_SEED`, or `await SolidActions.now()` when it is unset.
+ * The subsequent `seededRandom()` sequence is deterministic for that seed.
  *
- * @param seed - Optional string seed. Falsy values fall back to Date.now().
+ * @param seed - String seed for the PRNG
  */
-export function seedRandom(seed?: string): void {
-  rng = createSeededRandom(seed || String(Date.now()));
+export function seedRandom(seed: string): void {
+  rng = createSeededRandom(seed);
 }
 
 /**
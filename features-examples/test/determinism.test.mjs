@@ -0,0 +1,43 @@
+// checkDeterminism on the examples, and on a workflow whose step names
+// change from one run to the next.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { defineWorkflow, SolidActions } from '../dist-test/test/support/local-runtime.js';
+import { checkDeterminism } from '../dist-test/test/support/determinism.js';
+import { invoiceApprovalWorkflow } from '../dist-test/src/invoice-approval.js';
+import { simpleSteps } from '../dist-test/src/simple-steps.js';
+
+test('the invoice approval replays cleanly from every operation', async () => {
+  const report = await checkDeterminism(invoiceApprovalWorkflow, { invoiceId: 'INV-1' }, {
+    messages: [{ message: { choice: 'approve' }, topic: 'approval' }],
+  });
+  assert.deepEqual(report.divergences, []);
+  assert.equal(report.deterministic, true);
+  assert.equal(report.status, 'success');
+  assert.equal(report.operations.length, 5);
+});
+
+test('simple steps replays cleanly', async () => {
+  const report = await checkDeterminism(simpleSteps, { taskId: 'det-1', value: 2 });
+  assert.equal(report.deterministic, true);
+  assert.equal(report.operations.length, 6);
+});
+
+test('a step name that changes between runs is reported', async () => {
+  let executions = 0;
+  const counting = defineWorkflow({
+    name: 'counting',
+    run: async () => {
+      executions++;
+      await SolidActions.runStep(() => 'a', { name: 'fixed' });
+      await SolidActions.runStep(() => 'b', { name: `run-${executions}` });
+    },
+  });
+
+  const report = await checkDeterminism(counting, {}, { replayPoints: [1] });
+  assert.equal(report.deterministic, false);
+  assert.deepEqual(report.divergences.map((d) => [d.mode, d.functionId]), [['rerun', 1], ['replay', 1]]);
+  assert.deepEqual(report.divergences[0].expected, { kind: 'step', name: 'run-1' });
+  assert.deepEqual(report.divergences[0].actual, { kind: 'step', name: 'run-2' });
+});
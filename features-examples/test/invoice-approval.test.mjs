@@ -0,0 +1,48 @@
+// The invoice approval waits in recv() until a signal arrives; the local
+// runtime parks it as 'waiting' and send() resumes it.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLocalRuntime } from '../dist-test/test/support/local-runtime.js';
+import { invoiceApprovalWorkflow } from '../dist-test/src/invoice-approval.js';
+
+test('approval resumes the waiting invoice', async () => {
+  const runtime = createLocalRuntime();
+  const run = await runtime.start(invoiceApprovalWorkflow, { invoiceId: 'INV-1' });
+  assert.equal(run.status, 'waiting');
+  assert.deepEqual(run.waitingFor, { kind: 'recv', topic: 'approval', deadline: undefined });
+
+  const done = await runtime.send(run.workflowID, { choice: 'approve' }, 'approval');
+  assert.equal(done.result?.status, 'approved');
+  assert.equal(done.executions, 2);
+  assert.deepEqual(done.history.map((op) => op.name), [
+    'create-invoice', 'generate-urls', 'send-email', 'approval', 'mark-approved',
+  ]);
+});
+
+test('rejection carries the reason', async () => {
+  const runtime = createLocalRuntime();
+  const run = await runtime.start(invoiceApprovalWorkflow, { invoiceId: 'INV-2' });
+
+  const done = await runtime.send(run.workflowID, { choice: 'reject', reason: 'duplicate' }, 'approval');
+  assert.equal(done.result?.status, 'rejected');
+  assert.equal(done.result?.rejectedReason, 'duplicate');
+  assert.equal(done.history.at(-1)?.name, 'mark-rejected');
+});
+
+test('a message on another topic does not wake the invoice', async () => {
+  const runtime = createLocalRuntime();
+  const run = await runtime.start(invoiceApprovalWorkflow, { invoiceId: 'INV-3' });
+
+  const still = await runtime.send(run.workflowID, { choice: 'approve' }, 'other');
+  assert.equal(still.status, 'waiting');
+  assert.equal(still.executions, 1);
+});
+
+test('the signal URLs name the workflow', async () => {
+  const runtime = createLocalRuntime();
+  const run = await runtime.start(invoiceApprovalWorkflow, { invoiceId: 'INV-4' }, { workflowID: 'invoice-4' });
+  const urls = run.history.find((op) => op.name === 'generate-urls')?.output;
+  assert.equal(urls?.approve, 'local://signal/invoice-4/approval?action=approve');
+  assert.equal(urls?.reject, 'local://signal/invoice-4/approval?action=reject');
+});
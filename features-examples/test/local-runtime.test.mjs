@@ -0,0 +1,112 @@
+// Runs the example workflows on the local runtime: step replay after an
+// interruption, non-deterministic replays and the virtual clock.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createLocalRuntime,
+  defineWorkflow,
+  NonDeterministicReplayError,
+  SolidActions,
+} from '../dist-test/test/support/local-runtime.js';
+import { simpleSteps } from '../dist-test/src/simple-steps.js';
+import { sleepWorkflow } from '../dist-test/src/sleep-workflow.js';
+import { retryTest } from '../dist-test/src/retry-workflow.js';
+
+const SIMPLE_STEPS = ['initialize', 'check-env-vars', 'validate', 'process', 'transform', 'finalize'];
+
+test('a resumed run replays the recorded steps and runs the rest', async () => {
+  const runtime = createLocalRuntime({ vars: { TEST_ENV_VAR: 'from-vars' } });
+  const stopped = await runtime.start(simpleSteps, { taskId: 'replay-1', value: 4 }, { interruptAfter: 'process' });
+  assert.equal(stopped.status, 'interrupted');
+  assert.deepEqual(stopped.history.map((op) => op.name), SIMPLE_STEPS.slice(0, 4));
+
+  const done = await runtime.resume(stopped.workflowID);
+  assert.equal(done.status, 'success');
+  assert.equal(done.executions, 2);
+  assert.equal(done.replayed, 4);
+  assert.deepEqual(done.history.map((op) => op.name), SIMPLE_STEPS);
+  // Recorded outputs are served as they were, not recomputed
+  assert.deepEqual(done.history.slice(0, 4), stopped.history);
+  assert.equal(done.history[1].output.testEnvVar, 'from-vars');
+  assert.equal(done.result?.processedValue, 18);
+});
+
+test('interrupting after a number of operations stops at that count', async () => {
+  const runtime = createLocalRuntime();
+  const stopped = await runtime.start(simpleSteps, { taskId: 'replay-2', value: 1 }, { interruptAfter: 2 });
+  assert.equal(stopped.status, 'interrupted');
+  assert.equal(stopped.history.length, 2);
+
+  const again = await runtime.resume(stopped.workflowID, { interruptAfter: 5 });
+  assert.equal(again.status, 'interrupted');
+  assert.equal(again.replayed, 2);
+  assert.equal(again.history.length, 5);
+
+  const done = await runtime.resume(stopped.workflowID);
+  assert.equal(done.status, 'success');
+  assert.equal(done.executions, 3);
+});
+
+test('a replay that asks for a different step fails as non-deterministic', async () => {
+  let branch = 'a';
+  const branching = defineWorkflow({
+    name: 'branching',
+    run: async () => {
+      await SolidActions.runStep(() => 1, { name: 'first' });
+      await SolidActions.runStep(() => 2, { name: `second-${branch}` });
+      return branch;
+    },
+  });
+
+  const runtime = createLocalRuntime();
+  const stopped = await runtime.start(branching, {}, { interruptAfter: 'second-a' });
+  assert.equal(stopped.status, 'interrupted');
+
+  branch = 'b';
+  const failed = await runtime.resume(stopped.workflowID);
+  assert.equal(failed.status, 'error');
+  assert.ok(failed.error instanceof NonDeterministicReplayError);
+  assert.equal(failed.error.functionId, 1);
+  assert.equal(failed.error.recorded.name, 'second-a');
+  assert.equal(failed.error.requested.name, 'second-b');
+});
+
+test('sleep jumps the virtual clock forward by default', async () => {
+  const runtime = createLocalRuntime({ startTime: 1_000 });
+  const run = await runtime.start(sleepWorkflow, { testId: 'sleep-1', sleepMs: 60_000 });
+  assert.equal(run.status, 'success');
+  assert.equal(runtime.now(), 61_000);
+  const sleep = run.history.find((op) => op.kind === 'sleep');
+  assert.equal(sleep?.completedAt - sleep?.startedAt, 60_000);
+});
+
+test('a parked sleep wakes when the clock reaches it', async () => {
+  const runtime = createLocalRuntime({ autoAdvanceSleep: false });
+  const run = await runtime.start(sleepWorkflow, { testId: 'sleep-2', sleepMs: 5_000 });
+  assert.equal(run.status, 'waiting');
+  assert.deepEqual(run.waitingFor, { kind: 'sleep', wakeAt: 5_000 });
+
+  await runtime.advanceClock(4_999);
+  assert.equal(runtime.inspect(run.workflowID).status, 'waiting');
+
+  await runtime.advanceClock(1);
+  const done = runtime.inspect(run.workflowID);
+  assert.equal(done.status, 'success');
+  assert.equal(done.executions, 2);
+  assert.deepEqual(done.history.slice(4).map((op) => op.name), ['step-5-after-sleep', 'step-6-process', 'step-7-finalize']);
+});
+
+test('retry backoff passes on the virtual clock', async () => {
+  const runtime = createLocalRuntime();
+  const run = await runtime.start(retryTest, { taskId: 'retry-1', failureRate: 1, maxAttempts: 3 });
+  assert.equal(run.status, 'success');
+  assert.equal(run.result?.success, false);
+
+  const attempt = run.history.find((op) => op.name === 'unreliable-operation');
+  assert.equal(attempt?.attempts, 3);
+  assert.match(attempt?.error ?? '', /Simulated failure on attempt 3/);
+  // Waits of 1s and then 2s between the three attempts
+  assert.equal(attempt?.completedAt - attempt?.startedAt, 3_000);
+  assert.equal(runtime.now(), 3_000);
+});
@@ -0,0 +1,165 @@
+/**
+ * Determinism Check
+ *
+ * Runtime half of the replay-determinism checker (the static half is
+ * `node scripts/check-determinism.mjs` at the repository root). Runs a
+ * workflow on the local runtime and compares the sequence of durable
+ * operations it asks for:
+ *
+ * - rerun: a second fresh run, on a fresh runtime, must ask for the same
+ *   operations in the same order. Step names or branches that depend on the
+ *   clock or on randomness outside a step show up here.
+ * - replay: the workflow is interrupted after each operation and resumed.
+ *   The resumed execution replays the recorded operations, so it must ask for
+ *   them again in the same order (a mismatch is a NonDeterministicReplayError)
+ *   and then finish with the same sequence as the first run.
+ *
+ * Only the operation kinds and names are compared, never step outputs, so
+ * timestamps taken inside steps do not count as divergence. Child workflows
+ * are checked by passing them in directly.
+ */
+
+import { createLocalRuntime, NonDeterministicReplayError } from './local-runtime.js';
+import type { LocalRun, LocalRuntime, LocalRuntimeOptions, LocalWorkflow, OperationKind } from './local-runtime.js';
+
+// --- Types ---
+
+export interface OperationSummary {
+  functionId: number;
+  kind: OperationKind;
+  name: string;
+}
+
+export interface Divergence {
+  mode: 'rerun' | 'replay';
+  /** For replay: how many operations were recorded before the interruption */
+  interruptedAfter?: number;
+  /** First position where the sequences differ */
+  functionId: number;
+  /** What the first run did at that position (absent when the other run did more) */
+  expected?: { kind: OperationKind; name: string };
+  /** What this run did at that position (absent when it stopped earlier) */
+  actual?: { kind: OperationKind; name: string };
+  message: string;
+}
+
+export interface DeterminismOptions extends LocalRuntimeOptions {
+  /** Workflow ID used for every run (default: 'determinism-check') */
+  workflowID?: string;
+  /** Messages delivered in order whenever the workflow waits in recv() */
+  messages?: Array<{ message: unknown; topic?: string }>;
+  /** Operation counts to interrupt after (default: after every operation of the first run) */
+  replayPoints?: number[];
+}
+
+export interface DeterminismReport {
+  deterministic: boolean;
+  /** Operations of the first run */
+  operations: OperationSummary[];
+  /** Status the first run ended with */
+  status: LocalRun['status'];
+  divergences: Divergence[];
+}
+
+// --- Helpers ---
+
+function summarize(run: LocalRun): OperationSummary[] {
+  return run.history.map(({ functionId, kind, name }) => ({ functionId, kind, name }));
+}
+
+function describe(operation: { kind: OperationKind; name: string } | undefined): string {
+  return operation ? `${operation.kind} "${operation.name}"` : 'nothing';
+}
+
+/** Resume interrupted runs and feed recv() until the workflow stops for another reason. */
+async function drive<O>(
+  runtime: LocalRuntime,
+  started: LocalRun<O>,
+  messages: DeterminismOptions['messages'] = [],
+): Promise<LocalRun<O>> {
+  let run = started;
+  let next = 0;
+  for (;;) {
+    if (run.status === 'interrupted') {
+      run = await runtime.resume<O>(run.workflowID);
+    } else if (run.status === 'waiting' && run.waitingFor?.kind === 'recv' && next < messages.length) {
+      const { message, topic } = messages[next++];
+      run = await runtime.send<O>(run.workflowID, message, topic);
+    } else {
+      return run;
+    }
+  }
+}
+
+/** First position where two operation sequences differ, or undefined when they match. */
+function firstDifference(expected: OperationSummary[], actual: OperationSummary[]): number | undefined {
+  const length = Math.max(expected.length, actual.length);
+  for (let i = 0; i < length; i++) {
+    const a = expected[i];
+    const b = actual[i];
+    if (!a || !b || a.kind !== b.kind || a.name !== b.name) return i;
+  }
+  return undefined;
+}
+
+function compare(
+  mode: Divergence['mode'],
+  expected: OperationSummary[],
+  run: LocalRun,
+  interruptedAfter?: number,
+): Divergence | undefined {
+  if (run.error instanceof NonDeterministicReplayError) {
+    const { functionId, recorded, requested } = run.error;
+    return { mode, interruptedAfter, functionId, expected: recorded, actual: requested, message: run.error.message };
+  }
+
+  const actual = summarize(run);
+  const index = firstDifference(expected, actual);
+  if (index === undefined) return undefined;
+  const wanted = expected[index] && { kind: expected[index].kind, name: expected[index].name };
+  const got = actual[index] && { kind: actual[index].kind, name: actual[index].name };
+  const when = mode === 'replay' ? `replay after ${interruptedAfter} operation(s)` : 'second run';
+  return {
+    mode,
+    interruptedAfter,
+    functionId: expected[index]?.functionId ?? actual[index].functionId,
+    expected: wanted,
+    actual: got,
+    message: `${when} diverged at operation ${index}: expected ${describe(wanted)}, got ${describe(got)}`,
+  };
+}
+
+// --- Check ---
+
+/**
+ * Run `workflow` with `input` once to record its operations, then rerun it
+ * fresh and replay it from every interruption point, and report where the
+ * operation sequence changed.
+ */
+export async function checkDeterminism<I, O>(
+  workflow: LocalWorkflow<I, O>,
+  input: I,
+  options: DeterminismOptions = {},
+): Promise<DeterminismReport> {
+  const { workflowID = 'determinism-check', messages, replayPoints, ...runtimeOptions } = options;
+
+  const baselineRuntime = createLocalRuntime(runtimeOptions);
+  const baseline = await drive(baselineRuntime, await baselineRuntime.start(workflow, input, { workflowID }), messages);
+  const operations = summarize(baseline);
+  const divergences: Divergence[] = [];
+
+  const rerunRuntime = createLocalRuntime(runtimeOptions);
+  const rerun = await drive(rerunRuntime, await rerunRuntime.start(workflow, input, { workflowID }), messages);
+  const rerunDivergence = compare('rerun', operations, rerun);
+  if (rerunDivergence) divergences.push(rerunDivergence);
+
+  const points = replayPoints ?? operations.slice(0, -1).map((_operation, index) => index + 1);
+  for (const interruptAfter of points) {
+    const runtime = createLocalRuntime(runtimeOptions);
+    const replayed = await drive(runtime, await runtime.start(workflow, input, { workflowID, interruptAfter }), messages);
+    const divergence = compare('replay', operations, replayed, interruptAfter);
+    if (divergence) divergences.push(divergence);
+  }
+
+  return { deterministic: divergences.length === 0, operations, status: baseline.status, divergences };
+}
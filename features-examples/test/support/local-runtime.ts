@@ -0,0 +1,634 @@
+/**
+ * Local Runtime
+ *
+ * In-process stand-in for the SolidActions runtime, so the example workflows
+ * can be run, interrupted and replayed in plain Node tests without deploying.
+ *
+ * Implements the SDK surface the examples use: defineWorkflow, runStep (with
+ * retries and backoff), sleep, recv/send, setEvent/getEvent, respond,
+ * startWorkflow, getSignalUrls, now, randomUUID, workflowID and logger.
+ *
+ * How it mirrors the platform:
+ * - Every durable operation gets a function ID from its position in the
+ *   workflow. Its result is recorded in an in-memory store the first time it
+ *   completes; later executions of the same workflow replay the recorded
+ *   result instead of running it again, which is what recovery does.
+ * - A replayed operation must have the same kind and name as the recorded
+ *   one, otherwise the replay fails with NonDeterministicReplayError.
+ * - Time is a virtual clock. Retry backoff advances it, sleeps jump it forward
+ *   (or park the workflow, see autoAdvanceSleep), and recv/getEvent timeouts
+ *   are measured against it. Nothing ever really waits.
+ * - A workflow that has to wait (recv with no message, a child that is not
+ *   done, a parked sleep) stops with status 'waiting' — the container exit —
+ *   and is resumed by send(), advanceClock() or its child finishing.
+ *
+ * Workflows keep importing '@solidactions/sdk'. Start Node with
+ * `--import ./dist-test/test/support/register.js` to resolve that import to this module.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+// --- Types ---
+
+export interface WorkflowContext<I> {
+  input: I;
+  vars: Record<string, unknown>;
+}
+
+export interface WorkflowDefinition<I, O> {
+  name: string;
+  run(ctx: WorkflowContext<I>): Promise<O> | O;
+}
+
+/** What defineWorkflow returns: the handle passed to startWorkflow and LocalRuntime.start. */
+export interface LocalWorkflow<I = unknown, O = unknown> {
+  name: string;
+  run(ctx: WorkflowContext<I>): Promise<O> | O;
+}
+
+export interface StepOptions {
+  name?: string;
+  retriesAllowed?: boolean;
+  /** Total attempts when retries are allowed (default 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry (default 1) */
+  intervalSeconds?: number;
+  /** Multiplier applied to the delay after every retry (default 2) */
+  backoffRate?: number;
+}
+
+export interface StartWorkflowOptions {
+  /** Run the child under this ID; starting an ID that already exists returns the existing run */
+  workflowID?: string;
+}
+
+export interface WorkflowHandle<O> {
+  workflowID: string;
+  getResult(): Promise<O>;
+  getStatus(): RunStatus;
+}
+
+export type OperationKind =
+  | 'step'
+  | 'sleep'
+  | 'recv'
+  | 'send'
+  | 'setEvent'
+  | 'getEvent'
+  | 'respond'
+  | 'startWorkflow'
+  | 'getResult'
+  | 'now'
+  | 'randomUUID';
+
+/** One recorded durable operation. Times are virtual-clock milliseconds. */
+export interface OperationRecord {
+  functionId: number;
+  kind: OperationKind;
+  name: string;
+  output?: unknown;
+  /** Error message when the operation failed; replays throw it again */
+  error?: string;
+  /** Attempts made, for steps */
+  attempts?: number;
+  startedAt: number;
+  completedAt: number;
+}
+
+export type RunStatus = 'running' | 'success' | 'error' | 'waiting' | 'interrupted';
+
+export type WaitReason =
+  | { kind: 'recv'; topic?: string; deadline?: number }
+  | { kind: 'sleep'; wakeAt: number }
+  | { kind: 'getEvent'; workflowID: string; key: string; deadline?: number }
+  | { kind: 'workflow'; workflowID: string };
+
+/** Snapshot of one workflow after the runtime settled. */
+export interface LocalRun<O = unknown> {
+  workflowID: string;
+  workflowName: string;
+  status: RunStatus;
+  result?: O;
+  error?: Error;
+  waitingFor?: WaitReason;
+  /** Body passed to respond(), if any */
+  response?: unknown;
+  /** Latest value of every event set with setEvent() */
+  events: Record<string, unknown>;
+  /** Recorded operations, in function ID order */
+  history: OperationRecord[];
+  /** Number of times the workflow function has been run (first run plus replays) */
+  executions: number;
+  /** Operations the latest execution served from recorded results */
+  replayed: number;
+}
+
+export interface RunOptions {
+  /** ID for the workflow (default: generated) */
+  workflowID?: string;
+  /**
+   * Stop this execution as if the container died: after this many operations
+   * are recorded (a number), or right after the operation with this name
+   * is recorded (a string).
+   */
+  interruptAfter?: number | string;
+}
+
+export interface LocalRuntimeOptions {
+  /** ctx.vars for every workflow */
+  vars?: Record<string, unknown>;
+  /** Virtual clock start, in epoch milliseconds (default 0) */
+  startTime?: number;
+  /** Jump the clock forward on sleep() instead of parking the workflow (default true) */
+  autoAdvanceSleep?: boolean;
+}
+
+export interface LocalRuntime {
+  /** Start a workflow and run it until it and everything it started has settled. */
+  start<I, O>(workflow: LocalWorkflow<I, O>, input: I, options?: RunOptions): Promise<LocalRun<O>>;
+  /** Run a stopped (waiting or interrupted) workflow again, replaying its recorded operations. */
+  resume<O = unknown>(workflowID: string, options?: RunOptions): Promise<LocalRun<O>>;
+  /** Deliver a message (or a signal) to a workflow's mailbox, waking it if it waits on that topic. */
+  send<O = unknown>(workflowID: string, message: unknown, topic?: string): Promise<LocalRun<O>>;
+  /** Move the virtual clock forward and wake every workflow whose sleep or timeout is due. */
+  advanceClock(ms: number): Promise<void>;
+  /** Current virtual time in milliseconds. */
+  now(): number;
+  /** Latest value of an event, or null when it was never set. */
+  getEvent<T = unknown>(workflowID: string, key: string): T | null;
+  /** Snapshot of a workflow. */
+  inspect<O = unknown>(workflowID: string): LocalRun<O>;
+}
+
+/** A replayed workflow asked for a different operation than the one recorded at that position. */
+export class NonDeterministicReplayError extends Error {
+  constructor(
+    public workflowID: string,
+    public functionId: number,
+    public recorded: { kind: OperationKind; name: string },
+    public requested: { kind: OperationKind; name: string },
+  ) {
+    super(
+      `Workflow ${workflowID} is not deterministic: operation ${functionId} was recorded as ` +
+        `${recorded.kind} "${recorded.name}" but the replay asked for ${requested.kind} "${requested.name}"`,
+    );
+  }
+}
+
+interface WorkflowState {
+  id: string;
+  workflow: LocalWorkflow;
+  input: unknown;
+  status: RunStatus;
+  result?: unknown;
+  error?: Error;
+  waitingFor?: WaitReason;
+  response?: unknown;
+  records: OperationRecord[];
+  /** Deadlines of operations that started but had to wait, by function ID */
+  deadlines: Map<number, number>;
+  events: Map<string, unknown>;
+  mailbox: Map<string, unknown[]>;
+  executions: number;
+  replayed: number;
+  /** Workflows waiting on this one's result */
+  waiters: Set<string>;
+  /** The execution in progress, if any */
+  running?: Promise<void>;
+}
+
+interface Execution {
+  runtime: Runtime;
+  state: WorkflowState;
+  nextFunctionId: number;
+  interruptAfter?: number | string;
+  halted: boolean;
+  halt: (status: 'waiting' | 'interrupted', waitingFor?: WaitReason) => Promise<never>;
+}
+
+interface Scope {
+  execution: Execution;
+  /** True inside a runStep body, where durable operations are not allowed */
+  inStep: boolean;
+}
+
+// --- Helpers ---
+
+const storage = new AsyncLocalStorage<Scope>();
+const NO_TOPIC = '';
+
+/** Round-trip through JSON, as the platform does when it stores inputs and results. */
+function serialize<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
+
+function never(): Promise<never> {
+  return new Promise<never>(() => {});
+}
+
+function currentScope(method: string): Scope {
+  const scope = storage.getStore();
+  if (!scope) throw new Error(`SolidActions.${method}() called outside a workflow`);
+  if (scope.inStep) {
+    throw new Error(`SolidActions.${method}() must be called from the workflow function, not inside a runStep() body`);
+  }
+  return scope;
+}
+
+// --- Runtime ---
+
+class Runtime implements LocalRuntime {
+  readonly vars: Record<string, unknown>;
+  readonly autoAdvanceSleep: boolean;
+  clock: number;
+  readonly workflows = new Map<string, WorkflowState>();
+  /** Executions started by other executions (children, wake-ups), awaited before a public call returns */
+  private readonly pending = new Set<Promise<void>>();
+  private nextId = 1;
+
+  constructor(options: LocalRuntimeOptions) {
+    this.vars = options.vars ?? {};
+    this.clock = options.startTime ?? 0;
+    this.autoAdvanceSleep = options.autoAdvanceSleep ?? true;
+  }
+
+  now(): number {
+    return this.clock;
+  }
+
+  async start<I, O>(workflow: LocalWorkflow<I, O>, input: I, options: RunOptions = {}): Promise<LocalRun<O>> {
+    const state = this.create(workflow, input, options.workflowID);
+    await this.execute(state, options.interruptAfter);
+    await this.settle();
+    return this.inspect<O>(state.id);
+  }
+
+  async resume<O = unknown>(workflowID: string, options: RunOptions = {}): Promise<LocalRun<O>> {
+    const state = this.get(workflowID);
+    if (state.status === 'success' || state.status === 'error') return this.inspect<O>(workflowID);
+    if (state.running) await state.running;
+    else await this.execute(state, options.interruptAfter);
+    await this.settle();
+    return this.inspect<O>(workflowID);
+  }
+
+  async send<O = unknown>(workflowID: string, message: unknown, topic?: string): Promise<LocalRun<O>> {
+    this.deliver(workflowID, message, topic);
+    await this.settle();
+    return this.inspect<O>(workflowID);
+  }
+
+  async advanceClock(ms: number): Promise<void> {
+    this.clock += ms;
+    for (const state of this.workflows.values()) {
+      const wait = state.waitingFor;
+      if (state.status !== 'waiting' || !wait) continue;
+      const due = wait.kind === 'sleep' ? wait.wakeAt : wait.kind === 'workflow' ? undefined : wait.deadline;
+      if (due !== undefined && due <= this.clock) this.wake(state);
+    }
+    await this.settle();
+  }
+
+  getEvent<T = unknown>(workflowID: string, key: string): T | null {
+    const events = this.get(workflowID).events;
+    return events.has(key) ? (serialize(events.get(key)) as T) : null;
+  }
+
+  inspect<O = unknown>(workflowID: string): LocalRun<O> {
+    const state = this.get(workflowID);
+    return {
+      workflowID: state.id,
+      workflowName: state.workflow.name,
+      status: state.status,
+      result: serialize(state.result) as O | undefined,
+      error: state.error,
+      waitingFor: state.waitingFor,
+      response: serialize(state.response),
+      events: serialize(Object.fromEntries(state.events)),
+      history: serialize(state.records.filter(Boolean)),
+      executions: state.executions,
+      replayed: state.replayed,
+    };
+  }
+
+  // --- Internals used by the SDK surface ---
+
+  get(workflowID: string): WorkflowState {
+    const state = this.workflows.get(workflowID);
+    if (!state) throw new Error(`Unknown workflow ${workflowID}`);
+    return state;
+  }
+
+  create(workflow: LocalWorkflow, input: unknown, workflowID?: string): WorkflowState {
+    const id = workflowID ?? `local-${this.nextId++}`;
+    if (this.workflows.has(id)) throw new Error(`Workflow ${id} already exists`);
+    const state: WorkflowState = {
+      id,
+      workflow,
+      input: serialize(input),
+      status: 'running',
+      records: [],
+      deadlines: new Map(),
+      events: new Map(),
+      mailbox: new Map(),
+      executions: 0,
+      replayed: 0,
+      waiters: new Set(),
+    };
+    this.workflows.set(id, state);
+    return state;
+  }
+
+  /** Run the workflow function once, from the top, replaying recorded operations. */
+  execute(state: WorkflowState, interruptAfter?: number | string): Promise<void> {
+    state.status = 'running';
+    state.waitingFor = undefined;
+    state.executions++;
+    state.replayed = 0;
+
+    let stop!: (outcome: { status: 'waiting' | 'interrupted'; waitingFor?: WaitReason }) => void;
+    const halted = new Promise<{ status: 'waiting' | 'interrupted'; waitingFor?: WaitReason }>((resolve) => {
+      stop = resolve;
+    });
+    const execution: Execution = {
+      runtime: this,
+      state,
+      nextFunctionId: 0,
+      interruptAfter,
+      halted: false,
+      halt: (status, waitingFor) => {
+        execution.halted = true;
+        stop({ status, waitingFor });
+        return never();
+      },
+    };
+
+    const finished = storage.run({ execution, inStep: false }, async () => {
+      try {
+        const result = await state.workflow.run({ input: serialize(state.input), vars: this.vars });
+        return { status: 'success' as const, result };
+      } catch (error: unknown) {
+        return { status: 'error' as const, error: error instanceof Error ? error : new Error(String(error)) };
+      }
+    });
+
+    // A halted execution is abandoned where it stands, like a container that exits
+    const running = Promise.race([finished, halted]).then((outcome) => {
+      state.running = undefined;
+      state.status = outcome.status;
+      if (outcome.status === 'success') state.result = serialize(outcome.result);
+      if (outcome.status === 'error') state.error = outcome.error;
+      if (outcome.status === 'waiting') state.waitingFor = outcome.waitingFor;
+      if (outcome.status === 'success' || outcome.status === 'error') {
+        for (const waiter of state.waiters) this.wake(this.get(waiter));
+        state.waiters.clear();
+      }
+    });
+    state.running = running;
+    return running;
+  }
+
+  /** Resume a waiting workflow in the background; settle() awaits it. */
+  wake(state: WorkflowState): void {
+    if (state.status !== 'waiting' || state.running) return;
+    this.track(this.execute(state));
+  }
+
+  track(promise: Promise<void>): void {
+    this.pending.add(promise);
+    void promise.finally(() => this.pending.delete(promise));
+  }
+
+  /** Wait until no execution is running anywhere in the runtime. */
+  async settle(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all([...this.pending]);
+    }
+  }
+
+  deliver(workflowID: string, message: unknown, topic?: string): void {
+    const state = this.get(workflowID);
+    const key = topic ?? NO_TOPIC;
+    state.mailbox.set(key, [...(state.mailbox.get(key) ?? []), serialize(message)]);
+    if (state.waitingFor?.kind === 'recv' && (state.waitingFor.topic ?? NO_TOPIC) === key) this.wake(state);
+  }
+
+  setEvent(state: WorkflowState, key: string, value: unknown): void {
+    state.events.set(key, serialize(value));
+    // Wake workflows blocked in getEvent() on this key
+    for (const other of this.workflows.values()) {
+      const wait = other.waitingFor;
+      if (wait?.kind === 'getEvent' && wait.workflowID === state.id && wait.key === key) this.wake(other);
+    }
+  }
+}
+
+/**
+ * Run one durable operation: replay its recorded result, or execute it and
+ * record the result. `run` receives the function ID and the record being
+ * built, and may halt the execution.
+ */
+async function operation<T>(
+  method: string,
+  kind: OperationKind,
+  name: string,
+  run: (functionId: number, execution: Execution, record: OperationRecord) => Promise<T>,
+): Promise<T> {
+  const { execution } = currentScope(method);
+  if (execution.halted) return never();
+  const { runtime, state } = execution;
+  const functionId = execution.nextFunctionId++;
+
+  const recorded = state.records[functionId];
+  if (recorded) {
+    if (recorded.kind !== kind || recorded.name !== name) {
+      throw new NonDeterministicReplayError(state.id, functionId, recorded, { kind, name });
+    }
+    state.replayed++;
+    if (recorded.error !== undefined) throw new Error(recorded.error);
+    return serialize(recorded.output) as T;
+  }
+
+  const startedAt = runtime.clock;
+  const record: OperationRecord = { functionId, kind, name, startedAt, completedAt: startedAt };
+  let output: T;
+  try {
+    output = await run(functionId, execution, record);
+  } catch (error: unknown) {
+    if (execution.halted) return never();
+    record.error = error instanceof Error ? error.message : String(error);
+    record.completedAt = runtime.clock;
+    state.records[functionId] = record;
+    throw error;
+  }
+  if (execution.halted) return never();
+
+  record.output = serialize(output);
+  record.completedAt = runtime.clock;
+  state.records[functionId] = record;
+  state.deadlines.delete(functionId);
+
+  const limit = execution.interruptAfter;
+  const recordedCount = state.records.filter(Boolean).length;
+  if ((typeof limit === 'number' && recordedCount >= limit) || limit === name) {
+    return execution.halt('interrupted');
+  }
+  return serialize(output);
+}
+
+/** Deadline of a waiting operation, fixed the first time it is reached so replays keep it. */
+function deadlineFor(execution: Execution, functionId: number, delayMs: number | undefined): number | undefined {
+  const { state, runtime } = execution;
+  if (state.deadlines.has(functionId)) return state.deadlines.get(functionId);
+  if (delayMs === undefined) return undefined;
+  const deadline = runtime.clock + delayMs;
+  state.deadlines.set(functionId, deadline);
+  return deadline;
+}
+
+// --- SDK Surface ---
+
+/** Same shape as the SDK's defineWorkflow: returns the handle used to start the workflow. */
+export function defineWorkflow<I, O>(definition: WorkflowDefinition<I, O>): LocalWorkflow<I, O> {
+  return { name: definition.name, run: definition.run };
+}
+
+const logger = {
+  debug: (...args: unknown[]) => console.debug(...args),
+  info: (...args: unknown[]) => console.log(...args),
+  warn: (...args: unknown[]) => console.warn(...args),
+  error: (...args: unknown[]) => console.error(...args),
+};
+
+export const SolidActions = {
+  logger,
+
+  get workflowID(): string | undefined {
+    return storage.getStore()?.execution.state.id;
+  },
+
+  runStep<T>(fn: () => Promise<T> | T, options: StepOptions = {}): Promise<T> {
+    const name = options.name ?? (fn.name || 'step');
+    return operation('runStep', 'step', name, async (_functionId, execution, record) => {
+      const maxAttempts = options.retriesAllowed ? options.maxAttempts ?? 3 : 1;
+      let delayMs = (options.intervalSeconds ?? 1) * 1000;
+      for (let attempt = 1; ; attempt++) {
+        record.attempts = attempt;
+        try {
+          return await storage.run({ execution, inStep: true }, fn);
+        } catch (error: unknown) {
+          if (execution.halted || attempt >= maxAttempts) throw error;
+          // Backoff passes on the virtual clock
+          execution.runtime.clock += delayMs;
+          delayMs *= options.backoffRate ?? 2;
+        }
+      }
+    });
+  },
+
+  sleep(durationMs: number): Promise<void> {
+    return operation('sleep', 'sleep', 'sleep', async (functionId, execution) => {
+      const wakeAt = deadlineFor(execution, functionId, durationMs) as number;
+      if (execution.runtime.clock >= wakeAt) return;
+      if (execution.runtime.autoAdvanceSleep) {
+        execution.runtime.clock = wakeAt;
+        return;
+      }
+      return execution.halt('waiting', { kind: 'sleep', wakeAt });
+    });
+  },
+
+  recv<T>(topic?: string, timeoutSeconds?: number): Promise<T | null> {
+    return operation('recv', 'recv', topic ?? NO_TOPIC, async (functionId, execution) => {
+      const queue = execution.state.mailbox.get(topic ?? NO_TOPIC) ?? [];
+      if (queue.length > 0) return queue.shift() as T;
+      const deadline = deadlineFor(execution, functionId, timeoutSeconds === undefined ? undefined : timeoutSeconds * 1000);
+      if (deadline !== undefined && execution.runtime.clock >= deadline) return null;
+      return execution.halt('waiting', { kind: 'recv', topic, deadline });
+    });
+  },
+
+  send<T>(destinationID: string, message: T, topic?: string): Promise<void> {
+    return operation('send', 'send', topic ?? NO_TOPIC, async (_functionId, execution) => {
+      execution.runtime.deliver(destinationID, message, topic);
+    });
+  },
+
+  setEvent<T>(key: string, value: T): Promise<void> {
+    return operation('setEvent', 'setEvent', key, async (_functionId, execution) => {
+      execution.runtime.setEvent(execution.state, key, value);
+    });
+  },
+
+  getEvent<T>(workflowID: string, key: string, timeoutSeconds?: number): Promise<T | null> {
+    return operation('getEvent', 'getEvent', key, async (functionId, execution) => {
+      const events = execution.runtime.workflows.get(workflowID)?.events;
+      if (events?.has(key)) return events.get(key) as T;
+      const deadline = deadlineFor(execution, functionId, timeoutSeconds === undefined ? undefined : timeoutSeconds * 1000);
+      if (deadline === undefined || execution.runtime.clock >= deadline) return null;
+      return execution.halt('waiting', { kind: 'getEvent', workflowID, key, deadline });
+    });
+  },
+
+  respond<T>(body: T): Promise<void> {
+    return operation('respond', 'respond', 'respond', async (_functionId, execution) => {
+      execution.state.response = serialize(body);
+    });
+  },
+
+  startWorkflow<I, O>(workflow: LocalWorkflow<I, O>, options: StartWorkflowOptions = {}) {
+    return async (input: I): Promise<WorkflowHandle<O>> => {
+      const childID = await operation('startWorkflow', 'startWorkflow', workflow.name, async (functionId, execution) => {
+        const { runtime, state } = execution;
+        const id = options.workflowID ?? `${state.id}-${functionId}`;
+        if (!runtime.workflows.has(id)) {
+          const child = runtime.create(workflow, input, id);
+          // Children start outside the parent's scope so their operations are their own
+          storage.exit(() => runtime.track(runtime.execute(child)));
+        }
+        return id;
+      });
+      return childHandle<O>(childID, workflow.name);
+    };
+  },
+
+  /** Virtual-clock time, recorded so a replay returns the same value */
+  now(): Promise<number> {
+    return operation('now', 'now', 'now', async (_functionId, execution) => execution.runtime.clock);
+  },
+
+  randomUUID(): Promise<string> {
+    return operation('randomUUID', 'randomUUID', 'randomUUID', async () => randomUUID());
+  },
+
+  getSignalUrls(topic: string) {
+    const base = `local://signal/${currentScope('getSignalUrls').execution.state.id}/${encodeURIComponent(topic)}`;
+    return {
+      base,
+      approve: `${base}?action=approve`,
+      reject: `${base}?action=reject`,
+      custom: (action: string) => `${base}?action=${encodeURIComponent(action)}`,
+    };
+  },
+};
+
+function childHandle<O>(childID: string, name: string): WorkflowHandle<O> {
+  return {
+    workflowID: childID,
+    getStatus: () => currentScope('getStatus').execution.runtime.get(childID).status,
+    getResult: () =>
+      operation('getResult', 'getResult', name, async (_functionId, execution) => {
+        const child = execution.runtime.get(childID);
+        if (child.running) await child.running;
+        if (child.status === 'success') return child.result as O;
+        if (child.status === 'error') throw child.error;
+        child.waiters.add(execution.state.id);
+        return execution.halt('waiting', { kind: 'workflow', workflowID: childID });
+      }),
+  };
+}
+
+export function createLocalRuntime(options: LocalRuntimeOptions = {}): LocalRuntime {
+  return new Runtime(options);
+}
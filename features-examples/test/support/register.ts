@@ -0,0 +1,9 @@
+/**
+ * Load with `node --import ./dist-test/test/support/register.js` to run
+ * workflows on the local runtime: every import of '@solidactions/sdk'
+ * resolves to local-runtime.ts instead of the real SDK.
+ */
+
+import { register } from 'node:module';
+
+register('./sdk-hooks.js', import.meta.url);
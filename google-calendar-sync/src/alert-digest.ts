@@ -0,0 +1,133 @@
+/**
+ * Daily alert digest workflow.
+ * Lists every alert condition seen or resolved in the last 24 hours from the
+ * alert_state table — including repeats that were suppressed, alerts below
+ * ALERT_MIN_SEVERITY and ones held back by quiet hours — in one message to
+ * the configured channels. Does nothing unless ALERT_DIGEST is "true".
+ * Trigger: schedule (daily).
+ */
+
+import { SolidActions, defineWorkflow } from "@solidactions/sdk";
+import type {
+  AlertStateRecord,
+  MappingStore,
+  NotificationChannelKind,
+  NotificationMessage,
+  Notifier,
+} from "./types.js";
+import { resolveAlertPolicy } from "./alerting.js";
+import { resolveNotifier } from "./notifier.js";
+import { createMappingStore } from "./mapping-store.js";
+
+// --- Types ---
+
+interface DigestOutput {
+  /** Whether at least one channel accepted the digest */
+  sent: boolean;
+  /** Conditions listed in the digest */
+  alerts: number;
+  /** Of those, the ones still raised by the latest run */
+  active: number;
+  /** Channels that rejected the digest */
+  failedChannels: NotificationChannelKind[];
+  message: string;
+}
+
+// --- Configuration ---
+
+const DIGEST_PERIOD_MS = 24 * 3_600_000;
+
+/** Conditions listed one by one; the rest are counted */
+const MAX_DIGEST_ITEMS = 25;
+
+// --- Helpers ---
+
+function describe(record: AlertStateRecord): string {
+  const status = record.resolved_at ? `resolved ${record.resolved_at}` : "still active";
+  const delivery = record.last_sent ? `last sent ${record.last_sent}` : "not sent live";
+  return `${record.detail} (${record.severity}; ${record.occurrences} runs since ${record.first_seen}; ${status}; ${delivery})`;
+}
+
+/** Build the digest from the conditions of the last period, most recent first. */
+function buildDigest(records: AlertStateRecord[]): NotificationMessage {
+  const active = records.filter((r) => !r.resolved_at).length;
+  return {
+    title: "Calendar Sync Daily Digest",
+    severity: active > 0 ? "warning" : "info",
+    text: `${records.length} alert conditions in the last 24 hours, ${active} still active.`,
+    fields: [
+      ...records.slice(0, MAX_DIGEST_ITEMS).map((r) => ({ label: r.title, value: describe(r) })),
+      ...(records.length > MAX_DIGEST_ITEMS
+        ? [{ label: "More", value: `${records.length - MAX_DIGEST_ITEMS} more in the alert_state table` }]
+        : []),
+    ],
+  };
+}
+
+// --- Workflow Function ---
+
+async function alertDigestWorkflow(ctx: {
+  enabled: boolean;
+  store: MappingStore;
+  notifier: Notifier;
+}): Promise<DigestOutput> {
+  const { enabled, store, notifier } = ctx;
+
+  if (!enabled || notifier.channels.length === 0) {
+    const message = enabled ? "No notification channel is configured" : "ALERT_DIGEST is not enabled";
+    SolidActions.logger.info(`Skipping the digest: ${message}`);
+    return { sent: false, alerts: 0, active: 0, failedChannels: [], message };
+  }
+
+  // Step 1: Collect the conditions seen or resolved during the last period
+  const recent = await SolidActions.runStep(
+    async () => {
+      const since = Date.now() - DIGEST_PERIOD_MS;
+      const inPeriod = (timestamp: string) => timestamp !== "" && Date.parse(timestamp) >= since;
+      return (await store.loadAlertState())
+        .filter((r) => inPeriod(r.last_seen) || inPeriod(r.resolved_at))
+        .sort((a, b) => b.last_seen.localeCompare(a.last_seen));
+    },
+    { name: "load-recent-alerts" },
+  );
+  const active = recent.filter((r) => !r.resolved_at).length;
+
+  if (recent.length === 0) {
+    SolidActions.logger.info("No alerts in the last 24 hours; no digest sent");
+    return { sent: false, alerts: 0, active: 0, failedChannels: [], message: "No alerts in the last 24 hours" };
+  }
+
+  // Step 2: Send one message for all of them
+  const { delivered, failed } = await SolidActions.runStep(
+    () => notifier.notify(buildDigest(recent)),
+    { name: "send-digest" },
+  );
+  const sent = delivered.length > 0;
+  if (sent) {
+    SolidActions.logger.info(`Digest sent: ${recent.length} conditions, ${active} still active`);
+  } else {
+    SolidActions.logger.error(`Digest not sent: every channel failed (${failed.join(", ")})`);
+  }
+
+  return {
+    sent,
+    alerts: recent.length,
+    active,
+    failedChannels: failed,
+    message: sent
+      ? `Digest sent to ${delivered.join(", ")}` + (failed.length > 0 ? `; failed on ${failed.join(", ")}` : "")
+      : `Digest not sent; failed on ${failed.join(", ")}`,
+  };
+}
+
+// --- Define and Export ---
+
+export const handle = defineWorkflow<void, DigestOutput>({
+  name: "alert-digest",
+  run: (ctx) =>
+    alertDigestWorkflow({
+      enabled: resolveAlertPolicy(ctx.vars).digest,
+      store: createMappingStore(ctx.vars),
+      notifier: resolveNotifier(ctx.vars),
+    }),
+});
@@ -0,0 +1,316 @@
+/**
+ * Alert policy for the sync workflows.
+ * Each run raises its alert conditions; they are fingerprinted and compared
+ * with the alert_state table, so a condition that persists across runs is
+ * sent once per suppression window, a condition that clears gets a
+ * "recovered" message, quiet hours hold back everything but errors (and
+ * recoveries), and alerts below ALERT_MIN_SEVERITY are kept for the daily
+ * digest. An alert only counts as sent once a channel accepted it.
+ */
+
+import { createHash } from "node:crypto";
+import type {
+  AlertStateRecord,
+  MappingStore,
+  NotificationMessage,
+  NotificationSeverity,
+  Notifier,
+} from "./types.js";
+
+// --- Types ---
+
+export type AlertKind = "sync-failed" | "sync-errors" | "cleanup-blocked" | "edit-conflicts";
+
+/** An alert condition raised by one run. */
+export interface RaisedAlert {
+  kind: AlertKind;
+  /** What sets this condition apart from others of its kind; hashed into the fingerprint */
+  key: string;
+  /** One-line description kept in alert_state for the digest */
+  detail: string;
+  message: NotificationMessage;
+}
+
+export interface AlertPolicy {
+  /** A repeat of a sent alert within this many milliseconds is not sent again */
+  suppressMs: number;
+  /** Alerts below this severity are not sent live, only listed in the digest */
+  minSeverity: NotificationSeverity;
+  /** Minutes after local midnight; a start after the end wraps past midnight */
+  quietHours?: { start: number; end: number };
+  timeZone: string;
+  /** Whether the alert-digest workflow sends anything */
+  digest: boolean;
+}
+
+/** A message the policy lets through, with the condition it belongs to. */
+export interface PlannedAlertMessage {
+  fingerprint: string;
+  message: NotificationMessage;
+  /** A "recovered" message for a condition that cleared */
+  recovery: boolean;
+}
+
+/** What one delivery did with the raised alerts. */
+export interface AlertDeliverySummary {
+  /** Accepted by at least one channel */
+  sent: number;
+  /** Repeats inside the suppression window */
+  suppressed: number;
+  /** Held back by quiet hours; sent by the first run after them if still raised */
+  deferred: number;
+  /** Below ALERT_MIN_SEVERITY */
+  held: number;
+  recovered: number;
+  /** Titles of messages no channel accepted; their conditions are tried again next run */
+  undelivered: string[];
+}
+
+// --- Configuration ---
+
+const SEVERITY_RANK: Record<NotificationSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+/** Resolved conditions are kept this long, so the digest can still list them */
+const RESOLVED_RETENTION_MS = 7 * 24 * 3_600_000;
+
+// --- Helpers ---
+
+/** Stable fingerprint of an alert condition. */
+export function alertFingerprint(kind: AlertKind, key: string): string {
+  return createHash("sha256").update(`${kind}\n${key}`).digest("hex").slice(0, 16);
+}
+
+/** Fold the digits (counts, timestamps) that vary between runs of the same condition. */
+export function normalizeAlertText(text: string): string {
+  return text.replace(/\d+/g, "#");
+}
+
+/** Parse "7", "07:30" or "22:00" into minutes after midnight. */
+function parseClock(value: string): number | undefined {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return undefined;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? "0");
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : undefined;
+}
+
+/** Minutes after local midnight of `date` in `timeZone`. */
+function localMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? "0");
+  return part("hour") * 60 + part("minute");
+}
+
+export function isQuietTime(policy: AlertPolicy, date: Date): boolean {
+  if (!policy.quietHours) return false;
+  const { start, end } = policy.quietHours;
+  const minutes = localMinutes(date, policy.timeZone);
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+function withRepeatNote(message: NotificationMessage, record: AlertStateRecord): NotificationMessage {
+  return {
+    ...message,
+    fields: [
+      ...(message.fields ?? []),
+      { label: "Repeated", value: `${record.occurrences} runs since ${record.first_seen}` },
+    ],
+  };
+}
+
+function recoveredMessage(record: AlertStateRecord): NotificationMessage {
+  return {
+    title: `Recovered: ${record.title}`,
+    severity: "info",
+    text: `No longer raised, after ${record.occurrences} runs since ${record.first_seen}.`,
+    fields: [{ label: "Condition", value: record.detail }],
+  };
+}
+
+// --- Policy ---
+
+/** Read the ALERT_* variables. Invalid values throw, like the other settings. */
+export function resolveAlertPolicy(vars: Record<string, unknown>): AlertPolicy {
+  const get = (name: string) => ((vars[name] as string | undefined) ?? "").trim();
+
+  const suppressHours = Number(get("ALERT_SUPPRESS_HOURS") || "6");
+  if (!Number.isFinite(suppressHours) || suppressHours < 0) {
+    throw new Error(`ALERT_SUPPRESS_HOURS must be a number of hours, got "${get("ALERT_SUPPRESS_HOURS")}"`);
+  }
+
+  const minSeverity = (get("ALERT_MIN_SEVERITY") || "info").toLowerCase() as NotificationSeverity;
+  if (!(minSeverity in SEVERITY_RANK)) {
+    throw new Error(`ALERT_MIN_SEVERITY must be info, warning or error, got "${get("ALERT_MIN_SEVERITY")}"`);
+  }
+
+  const timeZone = get("ALERT_TIMEZONE") || "UTC";
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone });
+  } catch {
+    throw new Error(`ALERT_TIMEZONE is not a known time zone: "${timeZone}"`);
+  }
+
+  let quietHours: AlertPolicy["quietHours"];
+  const quiet = get("ALERT_QUIET_HOURS");
+  if (quiet) {
+    const [from, to] = quiet.split("-");
+    const start = parseClock(from ?? "");
+    const end = parseClock(to ?? "");
+    if (start === undefined || end === undefined || start === end) {
+      throw new Error(`ALERT_QUIET_HOURS must look like "22:00-07:00", got "${quiet}"`);
+    }
+    quietHours = { start, end };
+  }
+
+  return {
+    suppressMs: suppressHours * 3_600_000,
+    minSeverity,
+    quietHours,
+    timeZone,
+    digest: get("ALERT_DIGEST") === "true",
+  };
+}
+
+/**
+ * Decide which messages to send for this run's alerts and return the new
+ * alert state. `last_sent` is left to the caller, which stamps it once a
+ * message was delivered. A `partial` run (one that failed before evaluating
+ * every check) resolves nothing, since a condition it did not raise may still
+ * hold. A sent condition that clears during quiet hours stays open until the
+ * first run after them, which sends its recovery.
+ */
+export function planAlerts(
+  state: AlertStateRecord[],
+  raised: RaisedAlert[],
+  policy: AlertPolicy,
+  now: Date,
+  options: { partial: boolean },
+): { messages: PlannedAlertMessage[]; state: AlertStateRecord[]; summary: AlertDeliverySummary } {
+  const nowIso = now.toISOString();
+  const quiet = isQuietTime(policy, now);
+  const records = new Map(state.map((r) => [r.fingerprint, r]));
+  const raisedNow = new Set<string>();
+  const messages: PlannedAlertMessage[] = [];
+  const summary: AlertDeliverySummary = { sent: 0, suppressed: 0, deferred: 0, held: 0, recovered: 0, undelivered: [] };
+
+  for (const alert of raised) {
+    const fingerprint = alertFingerprint(alert.kind, alert.key);
+    if (raisedNow.has(fingerprint)) continue;
+    raisedNow.add(fingerprint);
+
+    const { severity, title } = alert.message;
+    const previous = records.get(fingerprint);
+    const record: AlertStateRecord = previous && !previous.resolved_at
+      ? { ...previous, severity, title, detail: alert.detail, last_seen: nowIso, occurrences: previous.occurrences + 1 }
+      : {
+          fingerprint,
+          kind: alert.kind,
+          severity,
+          title,
+          detail: alert.detail,
+          first_seen: nowIso,
+          last_seen: nowIso,
+          last_sent: "",
+          occurrences: 1,
+          resolved_at: "",
+        };
+    records.set(fingerprint, record);
+
+    if (SEVERITY_RANK[severity] < SEVERITY_RANK[policy.minSeverity]) {
+      summary.held++;
+    } else if (quiet && severity !== "error") {
+      summary.deferred++;
+    } else if (record.last_sent && now.getTime() - Date.parse(record.last_sent) < policy.suppressMs) {
+      summary.suppressed++;
+    } else {
+      const message = record.occurrences > 1 ? withRepeatNote(alert.message, record) : alert.message;
+      messages.push({ fingerprint, message, recovery: false });
+      summary.sent++;
+    }
+  }
+
+  if (!options.partial) {
+    for (const [fingerprint, record] of records) {
+      if (record.resolved_at || raisedNow.has(fingerprint)) continue;
+      // Only conditions someone was told about get a recovery, held like a
+      // deferred alert until quiet hours end
+      if (record.last_sent && quiet) continue;
+      records.set(fingerprint, { ...record, resolved_at: nowIso });
+      if (record.last_sent) {
+        messages.push({ fingerprint, message: recoveredMessage(record), recovery: true });
+        summary.recovered++;
+      }
+    }
+  }
+
+  const cutoff = now.getTime() - RESOLVED_RETENTION_MS;
+  return {
+    messages,
+    state: [...records.values()].filter((r) => !r.resolved_at || Date.parse(r.resolved_at) >= cutoff),
+    summary,
+  };
+}
+
+// --- Delivery ---
+
+/**
+ * Apply the policy to this run's alerts, send what it allows and store the
+ * new state. A condition's `last_sent` is only stamped when a channel
+ * accepted its message, so an alert no channel took is not suppressed as if
+ * it had been sent. Never throws: without the alert_state tab or table (a
+ * store initialized before it existed) every alert is sent as raised.
+ */
+export async function deliverAlerts(
+  store: MappingStore,
+  notifier: Notifier,
+  policy: AlertPolicy,
+  raised: RaisedAlert[],
+  options: { partial: boolean },
+): Promise<AlertDeliverySummary> {
+  let state: AlertStateRecord[];
+  try {
+    state = await store.loadAlertState();
+  } catch (error: unknown) {
+    console.error(`Alert state unavailable, sending without deduplication (run init-database): ${(error as Error).message}`);
+    const summary: AlertDeliverySummary = { sent: 0, suppressed: 0, deferred: 0, held: 0, recovered: 0, undelivered: [] };
+    for (const alert of raised) {
+      const { delivered } = await notifier.notify(alert.message);
+      if (delivered.length > 0) summary.sent++;
+      else summary.undelivered.push(alert.message.title);
+    }
+    return summary;
+  }
+
+  const now = new Date();
+  const plan = planAlerts(state, raised, policy, now, options);
+  const summary = plan.summary;
+  const records = new Map(plan.state.map((r) => [r.fingerprint, r]));
+  for (const { fingerprint, message, recovery } of plan.messages) {
+    const { delivered } = await notifier.notify(message);
+    const record = records.get(fingerprint);
+    if (delivered.length === 0) {
+      summary.undelivered.push(message.title);
+      if (recovery) summary.recovered--;
+      else summary.sent--;
+      // An undelivered recovery reopens the condition, so the next run sends it again
+      if (record && recovery) records.set(fingerprint, { ...record, resolved_at: "" });
+      continue;
+    }
+    if (record && !recovery) records.set(fingerprint, { ...record, last_sent: now.toISOString() });
+  }
+
+  const next = [...records.values()];
+  if (JSON.stringify(next) !== JSON.stringify(state)) {
+    try {
+      await store.saveAlertState(next);
+    } catch (error: unknown) {
+      console.error(`Failed to save alert state: ${(error as Error).message}`);
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,660 @@
+/**
+ * Drift audit workflow for the sync mapping.
+ * Cross-checks every mapping row of a configured direction against both
+ * calendars with getEvent, and scans every calendar for stamped copies that
+ * have no row. Findings are reported by category; the categories named in
+ * `repair` are also fixed.
+ * Trigger: webhook (response: wait).
+ */
+
+import { SolidActions, defineWorkflow } from "@solidactions/sdk";
+import type { ConnectionVar } from "@solidactions/sdk";
+import type {
+  CalendarConfig,
+  EventListing,
+  GoogleCalendarEvent,
+  MappingStore,
+  PendingSheetInsert,
+  PendingSheetUpdate,
+  PendingTombstone,
+  SyncedEventRecord,
+  SyncPair,
+  ThrottleStats,
+} from "./types.js";
+import {
+  createEventWithId,
+  deleteEvent,
+  fetchEvents,
+  getEvent,
+  getSyncWindow,
+  overlapsWindow,
+  GoogleCalendarError,
+} from "./google-calendar.js";
+import {
+  buildSyncedEventBody,
+  computeCopySignature,
+  computeSignature,
+  copyEventId,
+  extractRestorableBody,
+  getDateString,
+  getSyncLinkage,
+  CANCELLED_SIGNATURE,
+} from "./event-utils.js";
+import { createMappingStore } from "./mapping-store.js";
+import { createRateLimitedExecutor, emptyThrottleStats, mergeThrottleStats } from "./rate-limit.js";
+import type { RateLimitedExecutor } from "./rate-limit.js";
+import {
+  calendarLabel,
+  resolveCalendars,
+  resolveSyncMode,
+  buildSyncPairs,
+  resolvePrivacyOverrides,
+  resolveRecurrenceMode,
+} from "./sync-config.js";
+
+// --- Types ---
+
+/**
+ * - `copy-deleted`: the original is live but its copy was deleted by hand.
+ *   Repair re-creates the copy.
+ * - `source-outside-window`: the original is live but no longer overlaps the
+ *   sync window. Repair deletes the copy and the row, as orphan cleanup would.
+ * - `original-missing`: the row's original is gone. Repair deletes the copy,
+ *   if any, and the row.
+ * - `untracked-copy`: a stamped copy with no row. Repair maps it to its
+ *   original when its linkage names a live original of a synced direction
+ *   that has no copy mapped yet, and deletes it otherwise.
+ */
+export type AuditCategory = "copy-deleted" | "source-outside-window" | "original-missing" | "untracked-copy";
+
+const AUDIT_CATEGORIES: AuditCategory[] = ["copy-deleted", "source-outside-window", "original-missing", "untracked-copy"];
+
+export interface AuditInput {
+  /** Categories to repair; without it the audit only reports */
+  repair?: AuditCategory[];
+}
+
+export interface AuditFinding {
+  /** Mapping row ID; absent for untracked copies */
+  rowId?: number;
+  primaryCalendar: string;
+  /** Empty for an untracked copy whose original is unknown */
+  primaryEventId: string;
+  secondaryCalendar: string;
+  secondaryEventId: string;
+  summary: string;
+  start: string;
+  /** Whether the copy still exists */
+  copyPresent: boolean;
+  detail: string;
+}
+
+export interface AuditCategoryReport {
+  found: number;
+  repaired: number;
+  findings: AuditFinding[];
+}
+
+export interface AuditOutput {
+  repair: AuditCategory[];
+  /** Rows of configured directions checked against both calendars */
+  rowsChecked: number;
+  /** Rows of directions no longer configured, and cancelled occurrences, which are not checked */
+  rowsSkipped: number;
+  eventsScanned: Record<string, number>;
+  /** Calendars whose listing hit MAX_EVENTS; copies past the cap are not scanned */
+  truncatedCalendars: string[];
+  categories: Record<AuditCategory, AuditCategoryReport>;
+  /** Rows that could not be checked, and repairs that failed */
+  errors: number;
+  throttling: ThrottleStats;
+}
+
+/** An untracked copy, and whether repair maps it or deletes it. */
+interface UntrackedCopy {
+  finding: AuditFinding;
+  adopt: boolean;
+}
+
+/** Findings from one chunk of checked rows. */
+interface CheckResult {
+  findings: Array<{ category: AuditCategory; finding: AuditFinding }>;
+  errors: number;
+  throttling: ThrottleStats;
+}
+
+/** Mapping changes and counts from one chunk of repairs. */
+interface RepairResult {
+  inserts: PendingSheetInsert[];
+  updates: PendingSheetUpdate[];
+  tombstones: PendingTombstone[];
+  deleteRowIds: number[];
+  repaired: number;
+  errors: number;
+  throttling: ThrottleStats;
+}
+
+// --- Helpers ---
+
+/** Rows per durable step; a replay resumes after the last finished chunk */
+const CHUNK_SIZE = 25;
+const CONCURRENCY = 5;
+
+function chunkItems<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+function pairKey(sourceCalendarId: string, targetCalendarId: string): string {
+  return `${sourceCalendarId}:${targetCalendarId}`;
+}
+
+function emptyCategories(): Record<AuditCategory, AuditCategoryReport> {
+  const categories = {} as Record<AuditCategory, AuditCategoryReport>;
+  for (const category of AUDIT_CATEGORIES) {
+    categories[category] = { found: 0, repaired: 0, findings: [] };
+  }
+  return categories;
+}
+
+/** Read an event, treating a missing or cancelled one as absent. */
+async function getIfPresent(
+  gcal: ConnectionVar,
+  calendarId: string,
+  eventId: string,
+): Promise<GoogleCalendarEvent | undefined> {
+  try {
+    const event = await getEvent(gcal, calendarId, eventId);
+    return event.status === "cancelled" ? undefined : event;
+  } catch (error: unknown) {
+    if (error instanceof GoogleCalendarError && (error.code === 404 || error.code === 410)) return undefined;
+    throw error;
+  }
+}
+
+/** Delete a copy, returning its body for the tombstone ("" when it was already gone). */
+async function removeCopy(gcal: ConnectionVar, calendarId: string, eventId: string): Promise<string> {
+  const copy = await getIfPresent(gcal, calendarId, eventId);
+  if (!copy) return "";
+  await deleteEvent(gcal, calendarId, eventId);
+  return JSON.stringify(extractRestorableBody(copy));
+}
+
+function rowFinding(record: SyncedEventRecord, copyPresent: boolean, detail: string): AuditFinding {
+  return {
+    rowId: record.id,
+    primaryCalendar: record.primary_calendar,
+    primaryEventId: record.primary_event_id,
+    secondaryCalendar: record.secondary_calendar,
+    secondaryEventId: record.secondary_event_id,
+    summary: record.event_summary,
+    start: record.event_start,
+    copyPresent,
+    detail,
+  };
+}
+
+function rowTombstone(record: SyncedEventRecord, copyBody: string): PendingTombstone {
+  return {
+    primary_calendar: record.primary_calendar,
+    primary_event_id: record.primary_event_id,
+    secondary_calendar: record.secondary_calendar,
+    secondary_event_id: record.secondary_event_id,
+    event_summary: record.event_summary,
+    event_start: record.event_start,
+    event_end: record.event_end,
+    event_signature: record.event_signature,
+    created_at: record.created_at,
+    copy_body: copyBody,
+  };
+}
+
+// --- Step Functions ---
+
+/** Check one chunk of rows against both calendars. */
+async function checkRows(
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  records: SyncedEventRecord[],
+  window: { timeMin: string; timeMax: string },
+): Promise<CheckResult> {
+  const findings: Array<{ category: AuditCategory; finding: AuditFinding }> = [];
+  let errors = 0;
+
+  const { results, throttling } = await executor.run(records, async (record) => {
+    const original = await getIfPresent(gcal, record.primary_calendar, record.primary_event_id);
+    const copy = await getIfPresent(gcal, record.secondary_calendar, record.secondary_event_id);
+    return { record, original, copy };
+  });
+
+  for (const outcome of results) {
+    if (outcome.status === "rejected") {
+      SolidActions.logger.error(`Audit check failed: ${outcome.reason}`);
+      errors++;
+      continue;
+    }
+
+    const { record, original, copy } = outcome.value;
+    if (!original) {
+      findings.push({
+        category: "original-missing",
+        finding: rowFinding(record, copy !== undefined, copy ? "original is gone; copy still exists" : "original and copy are both gone"),
+      });
+    } else if (!original.recurrence && !overlapsWindow(original, window.timeMin, window.timeMax)) {
+      // A recurring master starts with its first occurrence, which says nothing about the window
+      findings.push({
+        category: "source-outside-window",
+        finding: rowFinding(record, copy !== undefined, `original starts ${getDateString(original.start)}, outside the sync window`),
+      });
+    } else if (!copy) {
+      findings.push({ category: "copy-deleted", finding: rowFinding(record, false, "copy was deleted") });
+    }
+  }
+
+  return { findings, errors, throttling };
+}
+
+/**
+ * Find copies stamped with linkage properties that have no mapping row.
+ * Unstamped events are never reported, whatever their description says.
+ * Occurrences of a mapped copy series belong to that series. A copy whose
+ * linkage names a synced direction is marked for adoption, at most one per
+ * original and target calendar.
+ */
+function findUntrackedCopies(
+  listings: Record<string, EventListing>,
+  syncedRecords: SyncedEventRecord[],
+  pairs: SyncPair[],
+): UntrackedCopy[] {
+  const trackedCopies = new Set(syncedRecords.map((r) => `${r.secondary_calendar}:${r.secondary_event_id}`));
+  const mappedOriginals = new Set(
+    syncedRecords.map((r) => `${r.primary_calendar}:${r.primary_event_id}:${r.secondary_calendar}`),
+  );
+  const activePairs = new Set(pairs.map((p) => pairKey(p.sourceCalendarId, p.targetCalendarId)));
+
+  const untracked: UntrackedCopy[] = [];
+  for (const [calendarId, listing] of Object.entries(listings)) {
+    for (const event of listing.events) {
+      const linkage = getSyncLinkage(event);
+      if (event.status === "cancelled" || !linkage) continue;
+      if (trackedCopies.has(`${calendarId}:${event.id}`)) continue;
+      if (event.recurringEventId && trackedCopies.has(`${calendarId}:${event.recurringEventId}`)) continue;
+
+      const { sourceCalendarId, sourceEventId } = linkage;
+      const originalKey = `${sourceCalendarId}:${sourceEventId}:${calendarId}`;
+      const adopt = activePairs.has(pairKey(sourceCalendarId, calendarId)) &&
+        !mappedOriginals.has(originalKey);
+      if (adopt) mappedOriginals.add(originalKey);
+
+      untracked.push({
+        adopt,
+        finding: {
+          primaryCalendar: sourceCalendarId,
+          primaryEventId: sourceEventId,
+          secondaryCalendar: calendarId,
+          secondaryEventId: event.id,
+          summary: event.summary ?? "",
+          start: getDateString(event.start),
+          copyPresent: true,
+          detail: adopt
+            ? "no mapping row; linked to an original of a synced direction"
+            : "no mapping row; its original already has a mapped copy or is not in a synced direction",
+        },
+      });
+    }
+  }
+  return untracked;
+}
+
+function emptyRepairResult(): RepairResult {
+  return {
+    inserts: [],
+    updates: [],
+    tombstones: [],
+    deleteRowIds: [],
+    repaired: 0,
+    errors: 0,
+    throttling: emptyThrottleStats(CONCURRENCY),
+  };
+}
+
+/** Re-create deleted copies from their live originals and point their rows at them. */
+async function recreateCopies(
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  records: SyncedEventRecord[],
+  pairsByKey: Map<string, SyncPair>,
+  seriesMode: boolean,
+): Promise<RepairResult> {
+  const result = emptyRepairResult();
+
+  const { results, throttling } = await executor.run(records, async (record) => {
+    const pair = pairsByKey.get(pairKey(record.primary_calendar, record.secondary_calendar));
+    const original = await getIfPresent(gcal, record.primary_calendar, record.primary_event_id);
+    // Series mode writes modified occurrences onto the copy series; the sync does that once the series exists
+    if (!pair || !original || (seriesMode && original.recurringEventId)) return undefined;
+
+    const { event: created } = await createEventWithId(
+      gcal,
+      record.secondary_calendar,
+      copyEventId(record.primary_calendar, original.id),
+      buildSyncedEventBody(original, pair.prefix, record.primary_calendar, pair.privacy),
+    );
+    return {
+      rowId: record.id,
+      primary_calendar: record.primary_calendar,
+      primary_event_id: record.primary_event_id,
+      secondary_calendar: record.secondary_calendar,
+      secondary_event_id: created.id,
+      event_summary: original.summary ?? "",
+      event_start: getDateString(original.start),
+      event_end: getDateString(original.end),
+      event_signature: computeSignature(original, pair.privacy),
+      created_at: record.created_at,
+      copy_signature: computeCopySignature(created),
+    };
+  });
+
+  for (const outcome of results) {
+    if (outcome.status === "rejected") {
+      SolidActions.logger.error(`Failed to re-create copy: ${outcome.reason}`);
+      result.errors++;
+    } else if (outcome.value) {
+      result.updates.push(outcome.value);
+      result.repaired++;
+    }
+  }
+
+  result.throttling = throttling;
+  return result;
+}
+
+/** Delete the copies of rows that should no longer exist, keeping tombstones, and drop the rows. */
+async function removeRows(
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  records: SyncedEventRecord[],
+): Promise<RepairResult> {
+  const result = emptyRepairResult();
+
+  const { results, throttling } = await executor.run(records, async (record) => {
+    const copyBody = await removeCopy(gcal, record.secondary_calendar, record.secondary_event_id);
+    return { record, copyBody };
+  });
+
+  for (const outcome of results) {
+    if (outcome.status === "rejected") {
+      SolidActions.logger.error(`Failed to remove copy: ${outcome.reason}`);
+      result.errors++;
+    } else {
+      result.tombstones.push(rowTombstone(outcome.value.record, outcome.value.copyBody));
+      result.deleteRowIds.push(outcome.value.record.id);
+      result.repaired++;
+    }
+  }
+
+  result.throttling = throttling;
+  return result;
+}
+
+/** Map untracked copies to their originals, or delete them with a tombstone. */
+async function resolveUntrackedCopies(
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  copies: UntrackedCopy[],
+  pairsByKey: Map<string, SyncPair>,
+): Promise<RepairResult> {
+  const result = emptyRepairResult();
+
+  const { results, throttling } = await executor.run(copies, async ({ finding, adopt }) => {
+    const copy = await getIfPresent(gcal, finding.secondaryCalendar, finding.secondaryEventId);
+    if (!copy) return undefined;
+
+    const pair = pairsByKey.get(pairKey(finding.primaryCalendar, finding.secondaryCalendar));
+    const original = adopt && pair
+      ? await getIfPresent(gcal, finding.primaryCalendar, finding.primaryEventId)
+      : undefined;
+    if (pair && original) {
+      const insert: PendingSheetInsert = {
+        primary_calendar: finding.primaryCalendar,
+        primary_event_id: original.id,
+        secondary_calendar: finding.secondaryCalendar,
+        secondary_event_id: copy.id,
+        event_summary: original.summary ?? "",
+        event_start: getDateString(original.start),
+        event_end: getDateString(original.end),
+        // An empty signature makes the next sync rewrite the copy from its original
+        event_signature: "",
+        copy_signature: "",
+      };
+      return { insert };
+    }
+
+    await deleteEvent(gcal, finding.secondaryCalendar, copy.id);
+    const tombstone: PendingTombstone = {
+      primary_calendar: finding.primaryCalendar,
+      primary_event_id: finding.primaryEventId,
+      secondary_calendar: finding.secondaryCalendar,
+      secondary_event_id: copy.id,
+      event_summary: copy.summary ?? "",
+      event_start: getDateString(copy.start),
+      event_end: getDateString(copy.end),
+      event_signature: "",
+      created_at: "",
+      copy_body: JSON.stringify(extractRestorableBody(copy)),
+    };
+    return { tombstone };
+  });
+
+  for (const outcome of results) {
+    if (outcome.status === "rejected") {
+      SolidActions.logger.error(`Failed to resolve untracked copy: ${outcome.reason}`);
+      result.errors++;
+    } else if (outcome.value) {
+      if (outcome.value.insert) result.inserts.push(outcome.value.insert);
+      if (outcome.value.tombstone) result.tombstones.push(outcome.value.tombstone);
+      result.repaired++;
+    }
+  }
+
+  result.throttling = throttling;
+  return result;
+}
+
+// --- Workflow Function ---
+
+async function auditSyncWorkflow(ctx: {
+  calendars: CalendarConfig[];
+  pairs: SyncPair[];
+  maxEvents: number;
+  daysAhead: number;
+  /** List recurring masters and exceptions (series mode) instead of occurrences */
+  singleEvents: boolean;
+  repair: AuditCategory[];
+  gcal: ConnectionVar;
+  store: MappingStore;
+}): Promise<AuditOutput> {
+  const { calendars, pairs, maxEvents, daysAhead, singleEvents, repair, gcal, store } = ctx;
+
+  SolidActions.logger.info(
+    `Auditing the mapping against ${calendars.length} calendars` +
+      (repair.length > 0 ? ` (repairing ${repair.join(", ")})` : ""),
+  );
+
+  // Step 1: Load the mapping and fix the sync window for the whole audit
+  const syncedRecords: SyncedEventRecord[] = await SolidActions.runStep(
+    () => store.loadSyncedEvents(),
+    { name: "load-synced-records" },
+  );
+  const window = await SolidActions.runStep(
+    () => Promise.resolve(getSyncWindow(daysAhead)),
+    { name: "sync-window" },
+  );
+
+  // Step 2: Full listing of every calendar, scanned for copies without a row.
+  // Any failure aborts the audit: a missing listing would hide its copies.
+  const fetched = await Promise.all(
+    calendars.map((calendar, index) =>
+      SolidActions.runStep(
+        () => fetchEvents(gcal, calendar.id, maxEvents, daysAhead, singleEvents),
+        { name: `fetch-calendar-${calendarLabel(index)}-events` },
+      ),
+    ),
+  );
+
+  const listings: Record<string, EventListing> = {};
+  const eventsScanned: Record<string, number> = {};
+  const truncatedCalendars: string[] = [];
+  calendars.forEach((calendar, index) => {
+    listings[calendar.id] = fetched[index];
+    eventsScanned[calendar.id] = fetched[index].events.length;
+    if (fetched[index].truncated) truncatedCalendars.push(calendar.id);
+  });
+
+  // Step 3: Check every row of a configured direction on both calendars
+  const pairsByKey = new Map(pairs.map((p) => [pairKey(p.sourceCalendarId, p.targetCalendarId), p]));
+  const rowsToCheck = syncedRecords.filter(
+    (r) => pairsByKey.has(pairKey(r.primary_calendar, r.secondary_calendar)) && r.event_signature !== CANCELLED_SIGNATURE,
+  );
+
+  const executor = createRateLimitedExecutor({
+    initialConcurrency: CONCURRENCY,
+    maxConcurrency: 10,
+    waveDelayMs: 1000,
+    maxRetries: 5,
+    baseBackoffMs: 1000,
+    maxBackoffMs: 32000,
+  });
+  let throttling = emptyThrottleStats(CONCURRENCY);
+  let errors = 0;
+
+  const categories = emptyCategories();
+  const checkChunks = chunkItems(rowsToCheck);
+  for (const [index, chunk] of checkChunks.entries()) {
+    const checked: CheckResult = await SolidActions.runStep(
+      () => checkRows(gcal, executor, chunk, window),
+      { name: `check-rows-${index + 1}` },
+    );
+    for (const { category, finding } of checked.findings) categories[category].findings.push(finding);
+    errors += checked.errors;
+    throttling = mergeThrottleStats(throttling, checked.throttling);
+  }
+
+  const untracked: UntrackedCopy[] = await SolidActions.runStep(
+    () => Promise.resolve(findUntrackedCopies(listings, syncedRecords, pairs)),
+    { name: "find-untracked-copies" },
+  );
+  categories["untracked-copy"].findings.push(...untracked.map((u) => u.finding));
+
+  for (const category of AUDIT_CATEGORIES) {
+    categories[category].found = categories[category].findings.length;
+  }
+  SolidActions.logger.info(
+    `Audit found ${AUDIT_CATEGORIES.map((c) => `${categories[c].found} ${c}`).join(", ")}`,
+  );
+
+  // Step 4: Repair the requested categories, then write the mapping changes once
+  const recordsById = new Map(syncedRecords.map((r) => [r.id, r]));
+  const rowsOf = (category: AuditCategory) =>
+    categories[category].findings.map((f) => recordsById.get(f.rowId ?? -1)).filter((r): r is SyncedEventRecord => !!r);
+
+  const repairs = emptyRepairResult();
+  const runRepairs = async <T>(category: AuditCategory, items: T[], fn: (chunk: T[]) => Promise<RepairResult>) => {
+    if (!repair.includes(category)) return;
+    const chunks = chunkItems(items);
+    for (const [index, chunk] of chunks.entries()) {
+      const result = await SolidActions.runStep(() => fn(chunk), { name: `repair-${category}-${index + 1}` });
+      repairs.inserts.push(...result.inserts);
+      repairs.updates.push(...result.updates);
+      repairs.tombstones.push(...result.tombstones);
+      repairs.deleteRowIds.push(...result.deleteRowIds);
+      categories[category].repaired += result.repaired;
+      errors += result.errors;
+      throttling = mergeThrottleStats(throttling, result.throttling);
+    }
+  };
+
+  await runRepairs("copy-deleted", rowsOf("copy-deleted"), (chunk) =>
+    recreateCopies(gcal, executor, chunk, pairsByKey, !singleEvents));
+  await runRepairs("source-outside-window", rowsOf("source-outside-window"), (chunk) =>
+    removeRows(gcal, executor, chunk));
+  await runRepairs("original-missing", rowsOf("original-missing"), (chunk) =>
+    removeRows(gcal, executor, chunk));
+  await runRepairs("untracked-copy", untracked, (chunk) =>
+    resolveUntrackedCopies(gcal, executor, chunk, pairsByKey));
+
+  if (repair.length > 0) {
+    // Sheet row IDs shift on delete, so rows are rewritten before any are deleted
+    await SolidActions.runStep(
+      async () => {
+        await store.batchInsertSyncedEvents(repairs.inserts);
+        await store.batchUpdateSyncedEvents(repairs.updates);
+        await store.appendTombstones(repairs.tombstones);
+        await store.batchDeleteSyncedEventRows(repairs.deleteRowIds);
+      },
+      { name: "write-repairs" },
+    );
+    SolidActions.logger.info(
+      `Repaired ${AUDIT_CATEGORIES.filter((c) => repair.includes(c)).map((c) => `${categories[c].repaired} ${c}`).join(", ")}`,
+    );
+  }
+
+  return {
+    repair,
+    rowsChecked: rowsToCheck.length,
+    rowsSkipped: syncedRecords.length - rowsToCheck.length,
+    eventsScanned,
+    truncatedCalendars,
+    categories,
+    errors,
+    throttling,
+  };
+}
+
+// --- Define and Export ---
+
+/** Validate the categories named in `repair`. */
+function resolveRepairCategories(value: unknown): AuditCategory[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`repair must be an array of categories (${AUDIT_CATEGORIES.join(", ")})`);
+  }
+  const unknown = value.filter((c) => !AUDIT_CATEGORIES.includes(c as AuditCategory));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown audit categories: ${unknown.join(", ")} (expected ${AUDIT_CATEGORIES.join(", ")})`);
+  }
+  return value as AuditCategory[];
+}
+
+export const handle = defineWorkflow<AuditInput, AuditOutput>({
+  name: "audit-sync",
+  run: (ctx) => {
+    const gcal = ctx.vars.GCAL as ConnectionVar;
+
+    if (typeof gcal !== "object" || !gcal.proxyUrl) {
+      throw new Error("Missing or invalid GCAL connection variable");
+    }
+
+    const calendars = resolveCalendars(ctx.vars);
+    const syncMode = resolveSyncMode(ctx.vars.SYNC_MODE as string | undefined);
+
+    return auditSyncWorkflow({
+      calendars,
+      pairs: buildSyncPairs(
+        calendars,
+        syncMode,
+        ctx.vars.HUB_CALENDAR_ID as string | undefined,
+        resolvePrivacyOverrides(ctx.vars.PRIVACY_LEVELS as string | undefined),
+      ),
+      maxEvents: parseInt((ctx.vars.MAX_EVENTS as string | undefined) ?? "2500", 10),
+      daysAhead: parseInt((ctx.vars.DAYS_AHEAD as string | undefined) ?? "180", 10),
+      singleEvents: resolveRecurrenceMode(ctx.vars.RECURRENCE_MODE as string | undefined) === "instances",
+      repair: resolveRepairCategories(ctx.input?.repair),
+      gcal,
+      store: createMappingStore(ctx.vars),
+    });
+  },
+});
@@ -4,17 +4,75 @@
  */
 
 import type {
+  AnalyzeOptions,
   GoogleCalendarEvent,
   SyncedEventRecord,
   SyncAnalysis,
   EventDateTime,
+  PrivacyLevel,
+  SyncLinkage,
+  CopyEditAnalysis,
 } from "./types.js";
+import { createHash } from "node:crypto";
+import { filterReason } from "./sync-rules.js";
 
+/** Human-readable hint appended to copy descriptions. Not used for detection on stamped copies. */
 const SYNC_TAG = "🔄 SYNCED FROM:";
 
-/** Compute a signature string from key event fields for change detection. */
-export function computeSignature(event: GoogleCalendarEvent): string {
-  return `${event.summary ?? ""}|${JSON.stringify(event.start)}|${JSON.stringify(event.end)}|${event.location ?? ""}|${event.transparency ?? ""}|${event.hangoutLink ?? ""}|${event.description ?? ""}`;
+/** Keys under `extendedProperties.private` that link a copy to its original. */
+export const SYNC_PROPERTY_KEYS = {
+  sourceCalendarId: "syncSourceCalendar",
+  sourceEventId: "syncSourceEventId",
+  version: "syncVersion",
+} as const;
+
+/** Bumped if the meaning of the linkage properties ever changes. */
+export const SYNC_VERSION = "1";
+
+/**
+ * Compute a signature string from key event fields for change detection.
+ * Non-default privacy levels are part of the signature, so changing a
+ * direction's level rewrites its existing copies. Recurrence rules are
+ * included for recurring masters.
+ */
+export function computeSignature(event: GoogleCalendarEvent, privacy: PrivacyLevel = "full"): string {
+  let signature = `${event.summary ?? ""}|${JSON.stringify(event.start)}|${JSON.stringify(event.end)}|${event.location ?? ""}|${event.transparency ?? ""}|${event.hangoutLink ?? ""}|${event.description ?? ""}`;
+  if (event.recurrence) signature += `|${JSON.stringify(event.recurrence)}`;
+  return privacy === "full" ? signature : `${signature}|privacy:${privacy}`;
+}
+
+/** Start/end as an instant, so the same time written with another offset compares equal. */
+function instantString(dt: EventDateTime | undefined): string {
+  if (!dt) return "";
+  if ("date" in dt) return dt.date;
+  const ms = Date.parse(dt.dateTime);
+  return Number.isNaN(ms) ? dt.dateTime : new Date(ms).toISOString();
+}
+
+/**
+ * Signature of the fields an edit to a copy can carry back to its original:
+ * title, start and end. Stored per mapping row to spot copies edited by hand.
+ */
+export function computeCopySignature(copy: GoogleCalendarEvent): string {
+  return `${copy.summary ?? ""}|${instantString(copy.start)}|${instantString(copy.end)}`;
+}
+
+/** Signature stored for an occurrence that is cancelled on both the original and the copy. */
+export const CANCELLED_SIGNATURE = "cancelled";
+
+/**
+ * Instance ID suffix Google derives from an occurrence's original start:
+ * "20261019T080000Z" for timed events, "20261019" for all-day events.
+ */
+export function instanceIdSuffix(originalStartTime: EventDateTime): string {
+  if ("date" in originalStartTime) return originalStartTime.date.replace(/-/g, "");
+  return new Date(originalStartTime.dateTime).toISOString().replace(/[-:]|\.\d{3}/g, "");
+}
+
+/** Split an instance ID like "abc123_20261019T080000Z" into its series ID and suffix. */
+export function parseInstanceId(eventId: string): { seriesId: string; suffix: string } | undefined {
+  const match = eventId.match(/^(.+)_(\d{8}(?:T\d{6}Z)?)$/);
+  return match ? { seriesId: match[1], suffix: match[2] } : undefined;
 }
 
 /** Normalize a Google Calendar datetime to a consistent format. */
@@ -36,9 +94,85 @@ export function normalizeDateTime(
   return dt;
 }
 
-/** Check if an event is a synced copy (has the sync metadata tag in description). */
-export function isSyncedCopy(event: GoogleCalendarEvent): boolean {
-  return (event.description ?? "").includes(SYNC_TAG);
+/** The dateTime or all-day date of an event start/end, as stored in the mapping. */
+export function getDateString(dt: EventDateTime | undefined): string {
+  if (!dt) return "";
+  if ("dateTime" in dt) return dt.dateTime;
+  if ("date" in dt) return dt.date;
+  return "";
+}
+
+/** Read the source linkage stamped on a synced copy, if any. */
+export function getSyncLinkage(event: GoogleCalendarEvent): SyncLinkage | undefined {
+  const props = event.extendedProperties?.private;
+  const sourceCalendarId = props?.[SYNC_PROPERTY_KEYS.sourceCalendarId];
+  const sourceEventId = props?.[SYNC_PROPERTY_KEYS.sourceEventId];
+  if (!sourceCalendarId || !sourceEventId) return undefined;
+  return {
+    sourceCalendarId,
+    sourceEventId,
+    version: props?.[SYNC_PROPERTY_KEYS.version] ?? "",
+  };
+}
+
+/** Build the private extended properties that mark a copy of `sourceEventId`. */
+export function buildSyncLinkageProperties(
+  sourceCalendarId: string,
+  sourceEventId: string,
+): Record<string, string> {
+  return {
+    [SYNC_PROPERTY_KEYS.sourceCalendarId]: sourceCalendarId,
+    [SYNC_PROPERTY_KEYS.sourceEventId]: sourceEventId,
+    [SYNC_PROPERTY_KEYS.version]: SYNC_VERSION,
+  };
+}
+
+/**
+ * Deterministic event ID for the copy of `sourceEventId`, so a create that is
+ * retried after a crash targets the same event instead of adding a duplicate.
+ * Google event IDs allow base32hex characters (0-9, a-v); a hex digest fits.
+ */
+export function copyEventId(sourceCalendarId: string, sourceEventId: string): string {
+  return createHash("sha256").update(`${sourceCalendarId}\n${sourceEventId}`).digest("hex");
+}
+
+/**
+ * Parse the description tag of a copy: `🔄 SYNCED FROM: <prefix> (<source calendar>)`.
+ * Only used to recover copies created before linkage properties existed.
+ */
+export function parseSyncTag(
+  description: string | undefined,
+): { prefix: string; sourceCalendarId: string } | undefined {
+  const lines = (description ?? "").split("\n").reverse();
+  const tagLine = lines.find((line) => line.startsWith(SYNC_TAG));
+  const match = tagLine?.slice(SYNC_TAG.length).trim().match(/^(.*) \(([^()]+)\)$/);
+  if (!match) return undefined;
+  return { prefix: match[1], sourceCalendarId: match[2] };
+}
+
+/**
+ * Check if an event is a synced copy.
+ * Stamped copies are recognised by their linkage properties and copies with a
+ * mapping row by their ID, whatever their description says. The description
+ * tag alone proves nothing, since any event can quote it.
+ */
+export function isSyncedCopy(
+  event: GoogleCalendarEvent,
+  knownCopyIds?: Set<string>,
+): boolean {
+  if (getSyncLinkage(event)) return true;
+  return knownCopyIds?.has(event.id) ?? false;
+}
+
+/**
+ * Check if an unstamped event carries the sync tag on a line of its own: a
+ * copy created before linkage properties existed, or an event quoting one.
+ * Only rebuild-mapping looks at these, and maps one only when it matches an
+ * original exactly.
+ */
+export function hasLegacySyncTag(event: GoogleCalendarEvent): boolean {
+  if (getSyncLinkage(event)) return false;
+  return (event.description ?? "").split("\n").some((line) => line.startsWith(SYNC_TAG));
 }
 
 /** Check if the target calendar appears in the event's attendees. */
@@ -52,12 +186,27 @@ export function isTargetCalendarInAttendees(
   );
 }
 
-/** Build the description for a synced event copy. */
+/** Build the summary of a synced event copy. */
+export function buildSyncedSummary(
+  event: GoogleCalendarEvent,
+  prefix: string,
+  privacy: PrivacyLevel = "full",
+): string {
+  return privacy === "busy-only" ? `${prefix} Busy` : `${prefix} ${event.summary ?? ""}`;
+}
+
+/**
+ * Build the description for a synced event copy.
+ * Below `full` privacy only the sync tag is written, without the source calendar ID.
+ */
 export function buildSyncedDescription(
   event: GoogleCalendarEvent,
   prefix: string,
   sourceCalendarId: string,
+  privacy: PrivacyLevel = "full",
 ): string {
+  if (privacy !== "full") return `${SYNC_TAG} ${prefix}`;
+
   const parts: string[] = [];
 
   // Room names (resource attendees)
@@ -101,8 +250,9 @@ export function buildSyncedEventBody(
   event: GoogleCalendarEvent,
   prefix: string,
   sourceCalendarId: string,
+  privacy: PrivacyLevel = "full",
 ): Record<string, unknown> {
-  const description = buildSyncedDescription(event, prefix, sourceCalendarId);
+  const description = buildSyncedDescription(event, prefix, sourceCalendarId, privacy);
 
   // Room extraction for location
   const rooms = (event.attendees ?? []).filter((a) => a.resource === true);
@@ -121,46 +271,167 @@ export function buildSyncedEventBody(
   }
 
   const body: Record<string, unknown> = {
-    summary: `${prefix} ${event.summary ?? ""}`,
+    summary: buildSyncedSummary(event, prefix, privacy),
     description,
     start: normalizeDateTime(event.start),
     end: normalizeDateTime(event.end),
     transparency: event.transparency ?? "opaque",
+    extendedProperties: {
+      private: buildSyncLinkageProperties(sourceCalendarId, event.id),
+    },
   };
 
-  if (location) {
+  if (location && privacy === "full") {
     body.location = location;
   }
 
+  // Recurring masters (series mode) are copied as a series
+  if (event.recurrence) {
+    body.recurrence = event.recurrence;
+  }
+
+  // Busy blocks also hide their (generic) title from others who can see the target calendar
+  if (privacy === "busy-only") {
+    body.visibility = "private";
+  }
+
+  return body;
+}
+
+/** Check whether a copy already shows the original's current title and time. */
+export function copyMatchesOriginal(
+  copy: GoogleCalendarEvent,
+  original: GoogleCalendarEvent,
+  prefix: string,
+  privacy: PrivacyLevel = "full",
+): boolean {
+  const expected = { ...original, summary: buildSyncedSummary(original, prefix, privacy) };
+  return computeCopySignature(copy) === computeCopySignature(expected);
+}
+
+/** Event fields worth keeping to re-create a copy; server-assigned fields (id, etag, htmlLink, ...) are dropped. */
+const RESTORABLE_FIELDS = [
+  "summary",
+  "description",
+  "location",
+  "start",
+  "end",
+  "transparency",
+  "visibility",
+  "colorId",
+  "extendedProperties",
+  "recurrence",
+];
+
+/** Extract a body that can be passed to createEvent to re-create an existing event. */
+export function extractRestorableBody(event: GoogleCalendarEvent): Record<string, unknown> {
+  const source = event as unknown as Record<string, unknown>;
+  const body: Record<string, unknown> = {};
+  for (const field of RESTORABLE_FIELDS) {
+    if (source[field] !== undefined) body[field] = source[field];
+  }
+  return body;
+}
+
+/** Fields of an original that a write-back keeps besides the restorable ones, since a PUT clears what it omits */
+const WRITE_BACK_FIELDS = [
+  "attendees",
+  "reminders",
+  "guestsCanInviteOthers",
+  "guestsCanModify",
+  "guestsCanSeeOtherGuests",
+  "anyoneCanAddSelf",
+  "source",
+];
+
+/**
+ * Build the body that writes a copy's edits back onto its original: its time,
+ * and its title without the copy prefix unless the copy is a busy block. The
+ * rest of the original (attendees, description, reminders, ...) is kept;
+ * server-assigned fields (id, etag, organizer, sequence, ...) are left out.
+ */
+export function applyCopyEdit(
+  original: GoogleCalendarEvent,
+  copy: GoogleCalendarEvent,
+  prefix: string,
+  privacy: PrivacyLevel = "full",
+): Record<string, unknown> {
+  const source = original as unknown as Record<string, unknown>;
+  const body = extractRestorableBody(original);
+  for (const field of WRITE_BACK_FIELDS) {
+    if (source[field] !== undefined) body[field] = source[field];
+  }
+  body.start = normalizeDateTime(copy.start);
+  body.end = normalizeDateTime(copy.end);
+  if (privacy !== "busy-only") {
+    const title = copy.summary ?? "";
+    body.summary = title.startsWith(`${prefix} `) ? title.slice(prefix.length + 1) : title;
+  }
   return body;
 }
 
 /**
- * Analyze events from a source calendar against synced records.
- * Returns events to create, update, and counts of unchanged/skipped.
+ * Analyze events from a source calendar against the synced records of one
+ * source -> target pair.
+ * In series mode, cancelled occurrences (exceptions with status "cancelled")
+ * are returned in `toCancel` unless their copy is already cancelled.
+ * Returns events to create, update, and counts of unchanged/skipped/filtered.
  */
 export function analyzeEvents(
   events: GoogleCalendarEvent[],
   syncedRecords: SyncedEventRecord[],
   sourceCalendarId: string,
   targetCalendarId: string,
+  options: AnalyzeOptions = {},
 ): SyncAnalysis {
+  const { privacy = "full", rules = [], seriesMode = false } = options;
   const toCreate: GoogleCalendarEvent[] = [];
   const toUpdate: SyncAnalysis["toUpdate"] = [];
+  const toCancel: SyncAnalysis["toCancel"] = [];
+  const filteredByRule: Record<string, number> = {};
+  const filteredTrackedIds: string[] = [];
   let unchanged = 0;
   let skippedDuplicate = 0;
 
-  // Build a map of synced records keyed by primary_event_id+primary_calendar
+  // Build a map of this pair's synced records keyed by primary_event_id.
+  // With more than two calendars one original has a row per target calendar,
+  // so records for other targets must not count as "already synced".
+  // Copies other directions placed on the source calendar are tracked as
+  // secondary events; they must never be synced onward as originals.
   const recordMap = new Map<string, SyncedEventRecord>();
+  const knownCopyIds = new Set<string>();
   for (const record of syncedRecords) {
-    recordMap.set(`${record.primary_event_id}:${record.primary_calendar}`, record);
+    if (record.secondary_calendar === sourceCalendarId) {
+      knownCopyIds.add(record.secondary_event_id);
+    }
+    if (
+      record.primary_calendar !== sourceCalendarId ||
+      record.secondary_calendar !== targetCalendarId
+    ) {
+      continue;
+    }
+    recordMap.set(record.primary_event_id, record);
   }
 
   for (const event of events) {
     if (!event.id) continue;
+    // Occurrences of a copied series are copies too
+    const ofCopiedSeries = event.recurringEventId !== undefined && knownCopyIds.has(event.recurringEventId);
+
+    if (event.status === "cancelled") {
+      if (seriesMode && event.recurringEventId && !ofCopiedSeries) {
+        const dbRecord = recordMap.get(event.id);
+        if (dbRecord?.event_signature === CANCELLED_SIGNATURE) {
+          unchanged++;
+        } else {
+          toCancel.push({ event, dbRecord });
+        }
+      }
+      continue;
+    }
 
-    // Skip 1: Already a synced copy (has sync metadata tag)
-    if (isSyncedCopy(event)) {
+    // Skip 1: Already a synced copy (linkage properties or mapping row)
+    if (ofCopiedSeries || isSyncedCopy(event, knownCopyIds)) {
       skippedDuplicate++;
       continue;
     }
@@ -172,12 +443,20 @@ export function analyzeEvents(
     }
 
     // Check if already tracked in DB
-    const key = `${event.id}:${sourceCalendarId}`;
-    const dbRecord = recordMap.get(key);
+    const dbRecord = recordMap.get(event.id);
+
+    // Skip 3: Left out by a sync rule. A copy made before the rule existed
+    // is removed with the orphans.
+    const filteredBy = filterReason(rules, event);
+    if (filteredBy) {
+      filteredByRule[filteredBy] = (filteredByRule[filteredBy] ?? 0) + 1;
+      if (dbRecord) filteredTrackedIds.push(event.id);
+      continue;
+    }
 
     if (dbRecord) {
-      // Skip 3: Signature unchanged
-      const currentSignature = computeSignature(event);
+      // Skip 4: Signature unchanged
+      const currentSignature = computeSignature(event, privacy);
       if (dbRecord.event_signature === currentSignature) {
         unchanged++;
       } else {
@@ -188,5 +467,43 @@ export function analyzeEvents(
     }
   }
 
-  return { toCreate, toUpdate, unchanged, skippedDuplicate };
+  return { toCreate, toUpdate, unchanged, skippedDuplicate, filteredByRule, filteredTrackedIds, toCancel };
+}
+
+/**
+ * Find the copies of one source -> target pair that were edited directly on
+ * the target since the sync last wrote or saw them. `copies` is the target
+ * calendar's listing. Rows without a stored copy signature (written before
+ * two-way sync) are returned in `baseline` so their signature can be
+ * recorded; recurring masters and cancelled occurrences are left one-way.
+ */
+export function detectCopyEdits(
+  copies: GoogleCalendarEvent[],
+  syncedRecords: SyncedEventRecord[],
+  sourceCalendarId: string,
+  targetCalendarId: string,
+): CopyEditAnalysis {
+  const rowsByCopyId = new Map<string, SyncedEventRecord>();
+  for (const record of syncedRecords) {
+    if (record.primary_calendar === sourceCalendarId && record.secondary_calendar === targetCalendarId) {
+      rowsByCopyId.set(record.secondary_event_id, record);
+    }
+  }
+
+  const edited: CopyEditAnalysis["edited"] = [];
+  const baseline: CopyEditAnalysis["baseline"] = [];
+  for (const copy of copies) {
+    const dbRecord = rowsByCopyId.get(copy.id);
+    if (!dbRecord || copy.status === "cancelled" || copy.recurrence) continue;
+    if (dbRecord.event_signature === CANCELLED_SIGNATURE) continue;
+
+    const signature = computeCopySignature(copy);
+    if (dbRecord.copy_signature === "") {
+      baseline.push({ dbRecord, copy });
+    } else if (dbRecord.copy_signature !== signature) {
+      edited.push({ dbRecord, copy });
+    }
+  }
+
+  return { edited, baseline };
 }
@@ -4,14 +4,16 @@
  */
 
 import type { ConnectionVar } from "@solidactions/sdk";
-import type { GoogleCalendarEvent } from "./types.js";
+import type { GoogleCalendarEvent, EventListing, SyncTokenState } from "./types.js";
+import { createOAuthProxyClient, OAuthProxyError } from "./oauth-proxy-client.js";
+import type { OAuthProxyClient } from "./oauth-proxy-client.js";
 
 /** Body shape for create/update — accepts any subset of Google Calendar event fields. */
 export type CalendarEventBody = Record<string, unknown>;
 
 /** Catalog action IDs for the Google Calendar endpoints we call.
  * Refresh with `solidactions oauth-action search google-calendar <query>`. */
-const ACTION = {
+export const ACTION = {
   listEvents: "conn_mod_def::GJ6RlnIYK20::YzuWSmaVQgurletRDNJavA",
   getEvent: "conn_mod_def::GJ6RlPEQKQw::rxHzaO_TTtKVIcxgFrWUKA",
   createEvent: "conn_mod_def::GJ6RlnjZAh4::CSya4eHtRbeXRM7PHiXuRA",
@@ -19,99 +21,188 @@ const ACTION = {
   deleteEvent: "conn_mod_def::GJ6RlN24ctU::0y6GOBuWT4ShfvJCjD3vRw",
 } as const;
 
-/** Error thrown by proxy calls; carries the upstream HTTP status as `code` to match prior behavior. */
-export class GoogleCalendarError extends Error {
-  code: number;
-  body: string;
-  constructor(status: number, body: string, message: string) {
-    super(message);
-    this.code = status;
-    this.body = body;
+/** Error thrown by proxy calls; exposes the upstream HTTP status as `code` to match prior behavior. */
+export class GoogleCalendarError extends OAuthProxyError {
+  get code(): number {
+    return this.status;
   }
 }
 
-interface ProxyOpts {
-  actionId: string;
-  query?: Record<string, string | number | boolean | undefined>;
-  body?: unknown;
+function calendarClient(conn: ConnectionVar): OAuthProxyClient {
+  return createOAuthProxyClient(conn, {
+    platform: "google-calendar",
+    label: "Google Calendar",
+    errorClass: GoogleCalendarError,
+  });
 }
 
-async function gcalProxy(conn: ConnectionVar, method: string, path: string, opts: ProxyOpts): Promise<Response> {
-  if (!conn.proxyUrl || !conn.proxyToken || !conn.key) {
-    throw new Error(
-      `Missing connection: proxyUrl=${!!conn.proxyUrl} proxyToken=${!!conn.proxyToken} key=${!!conn.key}`,
-    );
-  }
+interface EventsListResponse {
+  items?: GoogleCalendarEvent[];
+  nextPageToken?: string;
+  nextSyncToken?: string;
+}
 
-  let url = `${conn.proxyUrl}/google-calendar${path}`;
-  if (opts.query) {
-    const params = new URLSearchParams();
-    for (const [k, v] of Object.entries(opts.query)) {
-      if (v !== undefined && v !== null) params.append(k, String(v));
-    }
-    const qs = params.toString();
-    if (qs) url += `?${qs}`;
-  }
+/** Compute the sync window: from yesterday through `daysAhead` days from now. */
+export function getSyncWindow(daysAhead: number): { timeMin: string; timeMax: string } {
+  const now = new Date();
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
 
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${conn.proxyToken}`,
-    "X-OAuth-Connection-Key": conn.key,
-    "X-OAuth-Action-Id": opts.actionId,
-    Accept: "application/json",
-  };
-  if (opts.body !== undefined) headers["Content-Type"] = "application/json";
-
-  return fetch(url, {
-    method,
-    headers,
-    body: opts.body !== undefined ? JSON.stringify(opts.body) : undefined,
-  });
+  const futureDate = new Date(now);
+  futureDate.setDate(futureDate.getDate() + daysAhead);
+
+  return { timeMin: yesterday.toISOString(), timeMax: futureDate.toISOString() };
 }
 
-async function gcalJson<T>(conn: ConnectionVar, method: string, path: string, opts: ProxyOpts): Promise<T> {
-  const res = await gcalProxy(conn, method, path, opts);
-  const text = await res.text();
-  if (!res.ok) {
-    throw new GoogleCalendarError(
-      res.status,
-      text,
-      `Google Calendar ${method} ${path} failed: ${res.status} ${text.slice(0, 500)}`,
-    );
-  }
-  return text ? (JSON.parse(text) as T) : ({} as T);
+/** Last day (UTC) of a window ending at `timeMax`; a token is kept only while this stays the same. */
+export function windowEndDay(timeMax: string): string {
+  return timeMax.slice(0, 10);
 }
 
-/** Fetch events from a calendar within the sync window. */
+/** Parse an event start/end into epoch millis (all-day dates are read as UTC midnight). */
+function toMillis(dt: GoogleCalendarEvent["start"]): number | undefined {
+  if (!dt) return undefined;
+  const value = "dateTime" in dt ? dt.dateTime : dt.date;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+/** Same overlap rule the list API applies for timeMin/timeMax: ends after timeMin, starts before timeMax. */
+export function overlapsWindow(event: GoogleCalendarEvent, timeMin: string, timeMax: string): boolean {
+  const start = toMillis(event.start);
+  const end = toMillis(event.end) ?? start;
+  if (start === undefined || end === undefined) return true;
+  return end > Date.parse(timeMin) && start < Date.parse(timeMax);
+}
+
+/** Largest page the events.list endpoint will return. */
+const MAX_PAGE_SIZE = 2500;
+
+/**
+ * Follow nextPageToken across pages until the listing ends or `maxEvents`
+ * events have been collected. `truncated` is true when events were left out.
+ * With `readToEnd`, pages past the cap are still read (and their events
+ * dropped) so the sync token on the last page is returned.
+ */
+async function listAllPages(
+  conn: ConnectionVar,
+  calendarId: string,
+  query: Record<string, string | number | boolean | undefined>,
+  maxEvents: number,
+  readToEnd = false,
+): Promise<{ items: GoogleCalendarEvent[]; nextSyncToken?: string; truncated: boolean }> {
+  const { items, lastPage, truncated } = await calendarClient(conn).paginate<EventsListResponse, GoogleCalendarEvent>(
+    `/calendars/${encodeURIComponent(calendarId)}/events`,
+    { actionId: ACTION.listEvents, query },
+    {
+      items: (page) => page.items,
+      nextPageToken: (page) => page.nextPageToken,
+      sizeParam: "maxResults",
+      maxPageSize: MAX_PAGE_SIZE,
+      maxItems: maxEvents,
+      readToEnd,
+    },
+  );
+
+  // nextSyncToken is only present on the last page
+  return { items, nextSyncToken: lastPage?.nextSyncToken, truncated };
+}
+
+/**
+ * Fetch events from a calendar within the sync window, following pagination
+ * up to `maxEvents` in total.
+ * With `singleEvents` false, recurring series come back as their master event
+ * plus one entry per modified or cancelled instance, instead of expanded.
+ */
 export async function fetchEvents(
   conn: ConnectionVar,
   calendarId: string,
   maxEvents: number,
   daysAhead: number,
-): Promise<GoogleCalendarEvent[]> {
-  const now = new Date();
-  const yesterday = new Date(now);
-  yesterday.setDate(yesterday.getDate() - 1);
+  singleEvents = true,
+): Promise<EventListing> {
+  const { timeMin, timeMax } = getSyncWindow(daysAhead);
 
-  const futureDate = new Date(now);
-  futureDate.setDate(futureDate.getDate() + daysAhead);
+  // orderBy=startTime is only allowed on expanded listings
+  const { items, truncated } = await listAllPages(
+    conn,
+    calendarId,
+    { timeMin, timeMax, singleEvents, orderBy: singleEvents ? "startTime" : undefined },
+    maxEvents,
+  );
 
-  const data = await gcalJson<{ items?: GoogleCalendarEvent[] }>(
+  return { mode: "full", events: items, removedEventIds: [], windowEnd: windowEndDay(timeMax), truncated };
+}
+
+/**
+ * List a calendar for incremental sync.
+ * With a sync token, returns only the events changed since that token was
+ * issued. Without one — or when Google rejects the token with 410 Gone — runs
+ * a full listing of the window, which also yields a fresh token.
+ * A token only reports changed events, so one issued for an earlier window
+ * would never surface an unchanged event the window has since moved onto
+ * (including new instances of a recurring series). A stored token whose
+ * `windowEnd` differs from the current window's is dropped for a full
+ * listing, so each calendar is listed in full once a day.
+ * A full listing keeps at most `maxEvents` events but reads every page for its
+ * token, so a calendar over the cap still moves on to incremental listings.
+ * Those apply every change, even past the cap: a change left out would be
+ * lost once the token advances.
+ * With `singleEvents` false, cancelled instances of a series are returned as
+ * events (they cancel one occurrence of the copy) rather than as removals.
+ */
+export async function fetchEventChanges(
+  conn: ConnectionVar,
+  calendarId: string,
+  stored: SyncTokenState | undefined,
+  maxEvents: number,
+  daysAhead: number,
+  singleEvents = true,
+): Promise<EventListing> {
+  const { timeMin, timeMax } = getSyncWindow(daysAhead);
+  const windowEnd = windowEndDay(timeMax);
+
+  if (stored && stored.windowEnd === windowEnd) {
+    try {
+      // timeMin/timeMax/orderBy may not be combined with syncToken, so the
+      // window is applied client-side below.
+      const { items, nextSyncToken } = await listAllPages(
+        conn,
+        calendarId,
+        { syncToken: stored.token, singleEvents },
+        Infinity,
+      );
+
+      const events: GoogleCalendarEvent[] = [];
+      const removedEventIds: string[] = [];
+      for (const event of items) {
+        const cancelledInstance = !singleEvents && event.status === "cancelled" && !!event.recurringEventId;
+        if (cancelledInstance) {
+          events.push(event);
+        } else if (event.status === "cancelled" || !overlapsWindow(event, timeMin, timeMax)) {
+          removedEventIds.push(event.id);
+        } else {
+          events.push(event);
+        }
+      }
+
+      return { mode: "incremental", events, removedEventIds, nextSyncToken, windowEnd, truncated: false };
+    } catch (error: unknown) {
+      if (!(error instanceof GoogleCalendarError) || error.code !== 410) throw error;
+      // Token expired or invalidated — fall through to a full resync.
+    }
+  }
+
+  // orderBy is omitted so the listing can be continued with its sync token.
+  const { items, nextSyncToken, truncated } = await listAllPages(
     conn,
-    "GET",
-    `/calendars/${encodeURIComponent(calendarId)}/events`,
-    {
-      actionId: ACTION.listEvents,
-      query: {
-        timeMin: yesterday.toISOString(),
-        timeMax: futureDate.toISOString(),
-        maxResults: maxEvents,
-        singleEvents: true,
-        orderBy: "startTime",
-      },
-    },
+    calendarId,
+    { timeMin, timeMax, singleEvents },
+    maxEvents,
+    true,
   );
 
-  return data.items ?? [];
+  return { mode: "full", events: items, removedEventIds: [], nextSyncToken, windowEnd, truncated };
 }
 
 /** Get a single event by ID. */
@@ -120,8 +211,7 @@ export async function getEvent(
   calendarId: string,
   eventId: string,
 ): Promise<GoogleCalendarEvent> {
-  return gcalJson<GoogleCalendarEvent>(
-    conn,
+  return calendarClient(conn).json<GoogleCalendarEvent>(
     "GET",
     `/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
     { actionId: ACTION.getEvent },
@@ -134,14 +224,36 @@ export async function createEvent(
   calendarId: string,
   eventBody: CalendarEventBody,
 ): Promise<GoogleCalendarEvent> {
-  return gcalJson<GoogleCalendarEvent>(
-    conn,
+  return calendarClient(conn).json<GoogleCalendarEvent>(
     "POST",
     `/v3/calendars/${encodeURIComponent(calendarId)}/events`,
     { actionId: ACTION.createEvent, body: eventBody },
   );
 }
 
+/**
+ * Create an event under a client-supplied ID. Google answers 409 when the ID
+ * is taken — by an earlier attempt whose result was never recorded, or by a
+ * copy deleted since — so the existing event is overwritten (and undeleted)
+ * with the body instead. `existed` tells the two cases apart.
+ */
+export async function createEventWithId(
+  conn: ConnectionVar,
+  calendarId: string,
+  eventId: string,
+  eventBody: CalendarEventBody,
+): Promise<{ event: GoogleCalendarEvent; existed: boolean }> {
+  try {
+    const event = await createEvent(conn, calendarId, { ...eventBody, id: eventId });
+    return { event, existed: false };
+  } catch (error: unknown) {
+    if (!(error instanceof GoogleCalendarError) || error.code !== 409) throw error;
+  }
+
+  const event = await updateEvent(conn, calendarId, eventId, { ...eventBody, status: "confirmed" });
+  return { event, existed: true };
+}
+
 /** Update an existing event on a calendar (full replace, PUT). */
 export async function updateEvent(
   conn: ConnectionVar,
@@ -149,8 +261,7 @@ export async function updateEvent(
   eventId: string,
   eventBody: CalendarEventBody,
 ): Promise<GoogleCalendarEvent> {
-  return gcalJson<GoogleCalendarEvent>(
-    conn,
+  return calendarClient(conn).json<GoogleCalendarEvent>(
     "PUT",
     `/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
     { actionId: ACTION.updateEvent, body: eventBody },
@@ -163,20 +274,13 @@ export async function deleteEvent(
   calendarId: string,
   eventId: string,
 ): Promise<void> {
-  const res = await gcalProxy(
-    conn,
-    "DELETE",
-    `/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
-    { actionId: ACTION.deleteEvent },
-  );
-  if (res.ok) return;
-  if (res.status === 410) {
-    return;
+  try {
+    await calendarClient(conn).json<unknown>(
+      "DELETE",
+      `/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`,
+      { actionId: ACTION.deleteEvent },
+    );
+  } catch (error: unknown) {
+    if (!(error instanceof GoogleCalendarError) || error.code !== 410) throw error;
   }
-  const text = await res.text();
-  throw new GoogleCalendarError(
-    res.status,
-    text,
-    `Google Calendar DELETE failed: ${res.status} ${text.slice(0, 500)}`,
-  );
 }
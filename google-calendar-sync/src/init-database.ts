@@ -1,12 +1,14 @@
 /**
- * Spreadsheet initialization workflow.
- * Creates the synced_events sheet with headers. Idempotent.
+ * Mapping store initialization workflow.
+ * Creates the synced_events, sync_state, deleted_events, alert_state and
+ * sync_runs sheets (or tables, for the SQL backends) in the store selected
+ * by MAPPING_STORE, plus an empty sync_rules tab for the spreadsheet. Idempotent.
  * Trigger: webhook (runnable from SolidActions UI).
  */
 
 import { SolidActions, defineWorkflow } from "@solidactions/sdk";
-import type { ConnectionVar } from "@solidactions/sdk";
-import { initSchema, loadSyncedEvents } from "./sheets.js";
+import type { MappingStore } from "./types.js";
+import { createMappingStore } from "./mapping-store.js";
 
 // --- Types ---
 
@@ -18,38 +20,28 @@ interface InitOutput {
 
 // --- Workflow Function ---
 
-async function initDatabaseWorkflow(spreadsheetId: string, gsheet: ConnectionVar): Promise<InitOutput> {
-  SolidActions.logger.info("Starting spreadsheet initialization");
+async function initDatabaseWorkflow(store: MappingStore): Promise<InitOutput> {
+  SolidActions.logger.info(`Starting ${store.kind} mapping store initialization`);
 
-  // Step 1: Create sheet and headers
-  await SolidActions.runStep(() => initSchema(gsheet, spreadsheetId), {
+  // Step 1: Create sheets/tables and headers
+  await SolidActions.runStep(() => store.initSchema(), {
     name: "init-schema",
   });
   SolidActions.logger.info("Schema created successfully");
 
-  // Step 2: Verify sheet exists
+  // Step 2: Verify synced_events is readable
   const rowCount = await SolidActions.runStep(
-    async () => (await loadSyncedEvents(gsheet, spreadsheetId)).length,
+    async () => (await store.loadSyncedEvents()).length,
     { name: "verify-schema" },
   );
   SolidActions.logger.info(`Verification complete: ${rowCount} existing rows`);
 
-  return { success: true, message: "Schema initialized", rowCount };
+  return { success: true, message: `Schema initialized (${store.kind})`, rowCount };
 }
 
 // --- Define and Export ---
 
 export const handle = defineWorkflow<void, InitOutput>({
   name: "init-database",
-  run: (ctx) => {
-    const gsheet = ctx.vars.GSHEET as ConnectionVar;
-
-    if (typeof gsheet !== "object" || !gsheet.proxyUrl) {
-      throw new Error("Missing or invalid GSHEET connection variable");
-    }
-
-    const spreadsheetId = ctx.vars.SPREADSHEET_ID as string;
-
-    return initDatabaseWorkflow(spreadsheetId, gsheet);
-  },
+  run: (ctx) => initDatabaseWorkflow(createMappingStore(ctx.vars)),
 });
@@ -0,0 +1,65 @@
+/**
+ * Select the MappingStore backend from project variables.
+ * MAPPING_STORE is "sheets" (default), "postgres" or "sqlite".
+ */
+
+import type { ConnectionVar } from "@solidactions/sdk";
+import type { MappingStore, MappingStoreKind } from "./types.js";
+import { createSheetsMappingStore } from "./sheets.js";
+import { createSqlMappingStore } from "./sql-store.js";
+import type { SqlMappingStore } from "./sql-store.js";
+
+/** Default SQLite database file, relative to the working directory. */
+const DEFAULT_SQLITE_PATH = "./synced-events.sqlite";
+
+/** Parse MAPPING_STORE, defaulting to the spreadsheet. */
+export function resolveMappingStoreKind(value: string | undefined): MappingStoreKind {
+  const kind = (value || "sheets").trim().toLowerCase();
+  if (kind !== "sheets" && kind !== "postgres" && kind !== "sqlite") {
+    throw new Error(`Unknown MAPPING_STORE "${value}" (expected "sheets", "postgres" or "sqlite")`);
+  }
+  return kind;
+}
+
+/** Build the SQL store configured by POSTGRES_* or SQLITE_PATH. */
+export function createSqlStoreFromVars(
+  kind: "postgres" | "sqlite",
+  vars: Record<string, unknown>,
+): SqlMappingStore {
+  if (kind === "sqlite") {
+    return createSqlMappingStore({
+      dialect: "sqlite",
+      path: (vars.SQLITE_PATH as string) || DEFAULT_SQLITE_PATH,
+    });
+  }
+
+  const host = vars.POSTGRES_HOST as string;
+  const database = vars.POSTGRES_DB as string;
+  if (!host || !database) {
+    throw new Error("POSTGRES_HOST and POSTGRES_DB are required when MAPPING_STORE is postgres");
+  }
+  return createSqlMappingStore({
+    dialect: "postgres",
+    host,
+    port: parseInt((vars.POSTGRES_PORT as string) || "5432", 10),
+    user: vars.POSTGRES_USER as string,
+    password: vars.POSTGRES_PASSWD as string,
+    database,
+  });
+}
+
+/** Create the mapping store selected by MAPPING_STORE. GSHEET/SPREADSHEET_ID are only required for "sheets". */
+export function createMappingStore(vars: Record<string, unknown>): MappingStore {
+  const kind = resolveMappingStoreKind(vars.MAPPING_STORE as string | undefined);
+  if (kind !== "sheets") return createSqlStoreFromVars(kind, vars);
+
+  const gsheet = vars.GSHEET as ConnectionVar;
+  if (typeof gsheet !== "object" || !gsheet.proxyUrl) {
+    throw new Error("Missing or invalid GSHEET connection variable");
+  }
+  const spreadsheetId = vars.SPREADSHEET_ID as string;
+  if (!spreadsheetId) {
+    throw new Error("SPREADSHEET_ID is required when MAPPING_STORE is sheets");
+  }
+  return createSheetsMappingStore(gsheet, spreadsheetId);
+}
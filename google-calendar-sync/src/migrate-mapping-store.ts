@@ -0,0 +1,100 @@
+/**
+ * One-shot migration of the sync mapping from the spreadsheet into the SQL
+ * store selected by MAPPING_STORE (postgres or sqlite).
+ * Copies synced_events, sync_state and deleted_events, keeping timestamps.
+ * Pause the scheduled sync while this runs, then it picks up the new store
+ * on its next run.
+ * Trigger: webhook (response: wait).
+ */
+
+import { SolidActions, defineWorkflow } from "@solidactions/sdk";
+import type { ConnectionVar } from "@solidactions/sdk";
+import { resolveMappingStoreKind, createSqlStoreFromVars } from "./mapping-store.js";
+import { createSheetsMappingStore } from "./sheets.js";
+import type { MappingSnapshot } from "./sql-store.js";
+
+// --- Types ---
+
+export interface MigrateInput {
+  /** Import even if the target already holds mapping rows (duplicates are skipped) */
+  force?: boolean;
+}
+
+export interface MigrateOutput {
+  target: string;
+  records: number;
+  syncTokens: number;
+  tombstones: number;
+  targetRecords: number;
+}
+
+// --- Define and Export ---
+
+export const handle = defineWorkflow<MigrateInput, MigrateOutput>({
+  name: "migrate-mapping-store",
+  run: async (ctx) => {
+    const gsheet = ctx.vars.GSHEET as ConnectionVar;
+    const spreadsheetId = ctx.vars.SPREADSHEET_ID as string;
+
+    if (typeof gsheet !== "object" || !gsheet.proxyUrl) {
+      throw new Error("Missing or invalid GSHEET connection variable");
+    }
+    if (!spreadsheetId) {
+      throw new Error("SPREADSHEET_ID is required to migrate from the spreadsheet");
+    }
+
+    const kind = resolveMappingStoreKind(ctx.vars.MAPPING_STORE as string | undefined);
+    if (kind === "sheets") {
+      throw new Error("Set MAPPING_STORE to postgres or sqlite before migrating");
+    }
+
+    const source = createSheetsMappingStore(gsheet, spreadsheetId);
+    const target = createSqlStoreFromVars(kind, ctx.vars);
+
+    // Step 1: Create tables and make sure we are not importing on top of live data
+    const existing = await SolidActions.runStep(
+      async () => {
+        await target.initSchema();
+        return target.countSyncedEvents();
+      },
+      { name: "prepare-target" },
+    );
+    if (existing > 0 && ctx.input?.force !== true) {
+      throw new Error(
+        `Target ${kind} store already has ${existing} mapping rows; rerun with force to import anyway`,
+      );
+    }
+
+    // Step 2: Read everything from the spreadsheet
+    const snapshot = await SolidActions.runStep(
+      async (): Promise<MappingSnapshot> => ({
+        records: await source.loadSyncedEvents(),
+        syncTokens: await source.loadSyncTokens(),
+        tombstones: await source.loadTombstones(),
+      }),
+      { name: "read-spreadsheet" },
+    );
+    SolidActions.logger.info(
+      `Read ${snapshot.records.length} mappings, ${Object.keys(snapshot.syncTokens).length} sync tokens, ` +
+        `${snapshot.tombstones.length} tombstones from the spreadsheet`,
+    );
+
+    // Step 3: Import in one transaction and count the result
+    const targetRecords = await SolidActions.runStep(
+      async () => {
+        await target.importSnapshot(snapshot);
+        return target.countSyncedEvents();
+      },
+      { name: "import-into-target" },
+    );
+    SolidActions.logger.info(`Migration complete: ${targetRecords} mapping rows in ${kind}`);
+
+    return {
+      target: kind,
+      records: snapshot.records.length,
+      syncTokens: Object.keys(snapshot.syncTokens).length,
+      tombstones: snapshot.tombstones.length,
+      targetRecords,
+    };
+  },
+});
@@ -0,0 +1,203 @@
+/**
+ * Alert delivery for the sync workflows.
+ * Workflows build one channel-neutral NotificationMessage; the notifier sends
+ * it to every configured channel (Telegram, Slack, a JSON webhook, email),
+ * each rendering and escaping it for its own format.
+ */
+
+import type {
+  NotificationChannel,
+  NotificationChannelKind,
+  NotificationField,
+  NotificationMessage,
+  NotificationSeverity,
+  Notifier,
+} from "./types.js";
+import { createTelegramChannel } from "./telegram.js";
+import { createEmailChannel } from "./smtp.js";
+
+// --- Configuration ---
+
+const NOTIFICATION_CHANNELS: NotificationChannelKind[] = ["telegram", "slack", "webhook", "email"];
+
+const WEBHOOK_TIMEOUT_MS = 15_000;
+
+const SEVERITY_EMOJI: Record<NotificationSeverity, string> = {
+  info: ":information_source:",
+  warning: ":warning:",
+  error: ":rotating_light:",
+};
+
+/** Slack allows at most 10 fields per section block */
+const SLACK_FIELDS_PER_SECTION = 10;
+
+/** Slack rejects longer section text and field text with invalid_blocks */
+const SLACK_SECTION_TEXT_MAX = 3000;
+const SLACK_FIELD_TEXT_MAX = 2000;
+
+/** Field labels are cut to this, leaving the rest of a field to its value */
+const SLACK_FIELD_LABEL_MAX = 150;
+
+// --- Helpers ---
+
+async function postJson(url: string, payload: unknown, channel: string): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${channel} webhook error: ${response.status} ${(await response.text()).slice(0, 200)}`);
+  }
+}
+
+/** Slack mrkdwn only needs &, < and > escaped. */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Escape `text`, cut so the result fits in `room` characters and ending in an
+ * ellipsis when cut. Cutting before escaping never splits an entity.
+ */
+function escapeSlackWithin(text: string, room: number): string {
+  const escaped = escapeSlack(text);
+  if (escaped.length <= room) return escaped;
+  let cut = "";
+  let length = 0;
+  for (const char of text) {
+    length += escapeSlack(char).length;
+    if (length > room - 1) break;
+    cut += char;
+  }
+  return `${escapeSlack(cut)}…`;
+}
+
+/** One section field: the bold label, then the value (as a code span when `code`), within Slack's limit. */
+function renderSlackField(field: NotificationField): string {
+  const label = `*${escapeSlackWithin(field.label, SLACK_FIELD_LABEL_MAX)}*\n`;
+  if (!field.code) return label + escapeSlackWithin(field.value, SLACK_FIELD_TEXT_MAX - label.length);
+  // A code span cannot contain a backtick, so those become quotes
+  const value = escapeSlackWithin(field.value.replace(/`/g, "'"), SLACK_FIELD_TEXT_MAX - label.length - 2);
+  return `${label}\`${value}\``;
+}
+
+// --- Rendering ---
+
+/** Render a message as a Slack incoming-webhook payload with Block Kit blocks. */
+export function renderSlackMessage(message: NotificationMessage): Record<string, unknown> {
+  const heading = `${SEVERITY_EMOJI[message.severity]} ${message.title}`;
+  const blocks: Record<string, unknown>[] = [
+    { type: "header", text: { type: "plain_text", text: heading.slice(0, 150), emoji: true } },
+  ];
+  if (message.text) {
+    blocks.push({ type: "section", text: { type: "mrkdwn", text: escapeSlackWithin(message.text, SLACK_SECTION_TEXT_MAX) } });
+  }
+  const fields = message.fields ?? [];
+  for (let i = 0; i < fields.length; i += SLACK_FIELDS_PER_SECTION) {
+    blocks.push({
+      type: "section",
+      fields: fields.slice(i, i + SLACK_FIELDS_PER_SECTION).map((f) => ({ type: "mrkdwn", text: renderSlackField(f) })),
+    });
+  }
+  if (message.links?.length) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: message.links.map((l) => `<${l.url}|${escapeSlack(l.label)}>`).join(" · ") }],
+    });
+  }
+  // `text` is the fallback shown in push notifications
+  return { text: heading, blocks };
+}
+
+// --- Channels ---
+
+/** Slack channel for one incoming-webhook URL. */
+export function createSlackChannel(webhookUrl: string): NotificationChannel {
+  return {
+    name: "slack",
+    send: (message) => postJson(webhookUrl, renderSlackMessage(message), "Slack"),
+  };
+}
+
+/** Generic channel: POSTs the message model itself as JSON. */
+export function createWebhookChannel(url: string): NotificationChannel {
+  return {
+    name: "webhook",
+    send: (message) => postJson(url, { source: "google-calendar-sync", ...message }, "Notification"),
+  };
+}
+
+/** Send each message to every channel. Failures are logged, never thrown. */
+export function createNotifier(channels: NotificationChannel[]): Notifier {
+  return {
+    channels: channels.map((c) => c.name),
+    async notify(message) {
+      const results = await Promise.allSettled(channels.map((c) => c.send(message)));
+      const delivered: NotificationChannelKind[] = [];
+      const failed: NotificationChannelKind[] = [];
+      results.forEach((result, index) => {
+        const name = channels[index].name;
+        if (result.status === "fulfilled") {
+          delivered.push(name);
+        } else {
+          failed.push(name);
+          console.error(`Failed to send ${name} notification: ${(result.reason as Error).message}`);
+        }
+      });
+      return { delivered, failed };
+    },
+  };
+}
+
+// --- Resolution ---
+
+/**
+ * Build the notifier from project variables. A channel is available when its
+ * variables are set; NOTIFY_CHANNELS ("telegram,slack", or "none") picks
+ * among them, and by default every available channel is used.
+ */
+export function resolveNotifier(vars: Record<string, unknown>): Notifier {
+  const get = (name: string) => ((vars[name] as string | undefined) ?? "").trim();
+
+  const available: Partial<Record<NotificationChannelKind, NotificationChannel>> = {};
+  if (get("TELEGRAM_BOT_TOKEN") && get("TELEGRAM_CHAT_ID")) {
+    available.telegram = createTelegramChannel(get("TELEGRAM_BOT_TOKEN"), get("TELEGRAM_CHAT_ID"));
+  }
+  if (get("SLACK_WEBHOOK_URL")) {
+    available.slack = createSlackChannel(get("SLACK_WEBHOOK_URL"));
+  }
+  if (get("NOTIFY_WEBHOOK_URL")) {
+    available.webhook = createWebhookChannel(get("NOTIFY_WEBHOOK_URL"));
+  }
+  const from = get("SMTP_FROM") || get("SMTP_USER");
+  const to = get("SMTP_TO").split(",").map((a) => a.trim()).filter(Boolean);
+  if (get("SMTP_HOST") && from && to.length > 0) {
+    available.email = createEmailChannel({
+      host: get("SMTP_HOST"),
+      port: parseInt(get("SMTP_PORT") || "587", 10),
+      user: get("SMTP_USER") || undefined,
+      password: get("SMTP_PASSWORD") || undefined,
+      from,
+      to,
+    });
+  }
+
+  const requested = get("NOTIFY_CHANNELS").toLowerCase();
+  if (!requested) {
+    return createNotifier(NOTIFICATION_CHANNELS.flatMap((kind) => available[kind] ?? []));
+  }
+  if (requested === "none") return createNotifier([]);
+
+  const names = requested.split(",").map((n) => n.trim()).filter(Boolean);
+  const unknown = names.filter((n) => !NOTIFICATION_CHANNELS.includes(n as NotificationChannelKind));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown NOTIFY_CHANNELS entries: ${unknown.join(", ")} (expected ${NOTIFICATION_CHANNELS.join(", ")} or none)`);
+  }
+  const missing = names.filter((n) => !available[n as NotificationChannelKind]);
+  if (missing.length > 0) {
+    throw new Error(`NOTIFY_CHANNELS lists ${missing.join(", ")} but its variables are not set`);
+  }
+  return createNotifier([...new Set(names)].flatMap((n) => available[n as NotificationChannelKind] ?? []));
+}
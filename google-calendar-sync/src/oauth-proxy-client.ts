@@ -0,0 +1,255 @@
+/**
+ * Client for the SolidActions OAuth-actions proxy, built around the
+ * `ConnectionVar` the runtime injects for `oauth:`-mapped project variables.
+ * Sends the Bearer run token, `X-OAuth-Connection-Key` and `X-OAuth-Action-Id`
+ * on every call, serializes query parameters, applies a request timeout,
+ * retries idempotent methods on network failures and 5xx responses, and
+ * follows page tokens. Pass `fetch` to point it at a local fake in tests.
+ * Rate limits (429) are not retried here; google-calendar-sync handles them in
+ * rate-limit.ts.
+ *
+ * google-calendar-sync (src/oauth-proxy-client.ts) and features-examples
+ * (src/utils/oauth-proxy-client.ts) ship this same client, differing only in
+ * quote style; each example project deploys on its own, so neither imports
+ * the other. Change both together.
+ */
+
+import type { ConnectionVar } from "@solidactions/sdk";
+
+// --- Types ---
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+export interface ProxyRequest {
+  /** Catalog action ID, sent as X-OAuth-Action-Id */
+  actionId: string;
+  query?: QueryParams;
+  /** Serialized as JSON */
+  body?: unknown;
+}
+
+export interface OAuthProxyClientOptions {
+  /** Platform slug in the proxy URL, e.g. "google-calendar" or "github" */
+  platform: string;
+  /** Provider name used in error messages, e.g. "Google Calendar" or "GitHub" */
+  label: string;
+  /** Per-attempt timeout (default 30 s) */
+  timeoutMs?: number;
+  /** Extra attempts for GET/HEAD/PUT/DELETE after a network error, timeout or 5xx (default 2) */
+  retries?: number;
+  /** First retry delay; doubles with every retry (default 500 ms) */
+  retryDelayMs?: number;
+  /** Replaces the global fetch, e.g. to point the client at a local fake */
+  fetch?: typeof fetch;
+  /** Error class thrown for non-2xx responses, so callers can keep a provider-specific type */
+  errorClass?: new (init: OAuthProxyErrorInit) => OAuthProxyError;
+}
+
+export interface PageOptions<P, T> {
+  items: (page: P) => T[] | undefined;
+  nextPageToken: (page: P) => string | undefined;
+  /** Query parameter carrying the page token (default "pageToken") */
+  tokenParam?: string;
+  /** Query parameter for the page size; set to what is left of maxItems, capped at maxPageSize */
+  sizeParam?: string;
+  maxPageSize?: number;
+  maxItems?: number;
+  /** Keep reading pages past maxItems, dropping their items, so the tokens on the last page are reached */
+  readToEnd?: boolean;
+}
+
+export interface OAuthProxyClient {
+  /** Send a request and return the raw response, whatever its status. */
+  request(method: string, path: string, request: ProxyRequest): Promise<Response>;
+  /** Send a request and parse the JSON body. Throws OAuthProxyError on non-2xx. */
+  json<T>(method: string, path: string, request: ProxyRequest): Promise<T>;
+  /**
+   * GET every page of a listing until it ends or `maxItems` items were read.
+   * `lastPage` is the final page (for tokens it carries), present only when
+   * the listing ended; `truncated` is true when items were left out.
+   */
+  paginate<P, T>(
+    path: string,
+    request: ProxyRequest,
+    page: PageOptions<P, T>,
+  ): Promise<{ items: T[]; lastPage?: P; truncated: boolean }>;
+}
+
+// --- Errors ---
+
+export interface OAuthProxyErrorInit {
+  label: string;
+  method: string;
+  path: string;
+  /** HTTP status, or 0 when no response arrived (network error or timeout) */
+  status: number;
+  body: string;
+  /** Milliseconds to wait before retrying, from a Retry-After header */
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+/** Non-2xx response (or no response at all) from the proxy or the provider behind it. */
+export class OAuthProxyError extends Error {
+  status: number;
+  body: string;
+  method: string;
+  path: string;
+  retryAfterMs?: number;
+  constructor(init: OAuthProxyErrorInit) {
+    super(
+      init.status === 0
+        ? `${init.label} ${init.method} ${init.path} failed: ${init.body}`
+        : `${init.label} ${init.method} ${init.path} failed: ${init.status} ${init.body.slice(0, 500)}`,
+      { cause: init.cause },
+    );
+    this.status = init.status;
+    this.body = init.body;
+    this.method = init.method;
+    this.path = init.path;
+    this.retryAfterMs = init.retryAfterMs;
+  }
+}
+
+// --- Helpers ---
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Parse a Retry-After header, given either in seconds or as an HTTP date. */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Append query parameters, skipping undefined values. */
+export function buildQueryString(query: QueryParams | undefined): string {
+  if (!query) return "";
+  const params = new URLSearchParams();
+  for (const [k, v] of Object.entries(query)) {
+    if (v !== undefined && v !== null) params.append(k, String(v));
+  }
+  const qs = params.toString();
+  return qs ? `?${qs}` : "";
+}
+
+// --- Client ---
+
+export function createOAuthProxyClient(conn: ConnectionVar, options: OAuthProxyClientOptions): OAuthProxyClient {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const fetchFn = options.fetch ?? fetch;
+  const ErrorClass = options.errorClass ?? OAuthProxyError;
+
+  async function request(method: string, path: string, req: ProxyRequest): Promise<Response> {
+    if (!conn.proxyUrl || !conn.proxyToken || !conn.key) {
+      throw new Error(
+        `Missing connection: proxyUrl=${!!conn.proxyUrl} proxyToken=${!!conn.proxyToken} key=${!!conn.key}`,
+      );
+    }
+
+    const url = `${conn.proxyUrl}/${options.platform}${path}${buildQueryString(req.query)}`;
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${conn.proxyToken}`,
+      "X-OAuth-Connection-Key": conn.key,
+      "X-OAuth-Action-Id": req.actionId,
+      Accept: "application/json",
+    };
+    if (req.body !== undefined) headers["Content-Type"] = "application/json";
+    const body = req.body !== undefined ? JSON.stringify(req.body) : undefined;
+
+    const maxAttempts = IDEMPOTENT_METHODS.has(method) ? retries + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+      const backoff = () => delay(retryDelayMs * 2 ** (attempt - 1));
+      let res: Response;
+      try {
+        res = await fetchFn(url, { method, headers, body, signal: AbortSignal.timeout(timeoutMs) });
+      } catch (error: unknown) {
+        if (attempt < maxAttempts) {
+          await backoff();
+          continue;
+        }
+        const timedOut = error instanceof Error && error.name === "TimeoutError";
+        throw new ErrorClass({
+          label: options.label,
+          method,
+          path,
+          status: 0,
+          body: timedOut ? `timed out after ${timeoutMs}ms` : (error as Error).message,
+          cause: error,
+        });
+      }
+
+      if (RETRYABLE_STATUSES.has(res.status) && attempt < maxAttempts) {
+        await res.body?.cancel();
+        await backoff();
+        continue;
+      }
+      return res;
+    }
+  }
+
+  /** Throw the client's error type for a non-2xx response. */
+  async function check(method: string, path: string, res: Response): Promise<string> {
+    const text = await res.text();
+    if (!res.ok) {
+      throw new ErrorClass({
+        label: options.label,
+        method,
+        path,
+        status: res.status,
+        body: text,
+        retryAfterMs: parseRetryAfter(res.headers.get("retry-after")),
+      });
+    }
+    return text;
+  }
+
+  async function json<T>(method: string, path: string, req: ProxyRequest): Promise<T> {
+    const text = await check(method, path, await request(method, path, req));
+    return text ? (JSON.parse(text) as T) : ({} as T);
+  }
+
+  async function paginate<P, T>(
+    path: string,
+    req: ProxyRequest,
+    page: PageOptions<P, T>,
+  ): Promise<{ items: T[]; lastPage?: P; truncated: boolean }> {
+    const tokenParam = page.tokenParam ?? "pageToken";
+    const maxItems = page.maxItems ?? Infinity;
+    const items: T[] = [];
+    let pageToken: string | undefined;
+    let truncated = false;
+
+    do {
+      const remaining = maxItems - items.length;
+      const query: QueryParams = { ...req.query, [tokenParam]: pageToken };
+      if (page.sizeParam) {
+        // Pages read past the cap only matter for their tokens, so they use the largest size
+        query[page.sizeParam] = remaining > 0 ? Math.min(page.maxPageSize ?? Infinity, remaining) : page.maxPageSize;
+      }
+      const data = await json<P>("GET", path, { ...req, query });
+      const pageItems = page.items(data) ?? [];
+      if (pageItems.length > remaining) truncated = true;
+      items.push(...pageItems.slice(0, Math.max(0, remaining)));
+      pageToken = page.nextPageToken(data);
+
+      if (!pageToken) return { items, lastPage: data, truncated };
+    } while (page.readToEnd || items.length < maxItems);
+
+    return { items, truncated: true };
+  }
+
+  return { request, json, paginate };
+}
@@ -0,0 +1,119 @@
+/**
+ * Rate-limit aware executor for batches of Google API calls.
+ * Calls run in waves of `concurrency` parallel requests. A call rejected with
+ * 429 or 403 rateLimitExceeded is retried with exponential backoff and jitter,
+ * waiting at least as long as the response's Retry-After. A wave that was
+ * throttled halves the concurrency for the next one; a clean wave raises it
+ * by one, up to the configured maximum.
+ */
+
+import type { ThrottleStats } from "./types.js";
+import { GoogleCalendarError } from "./google-calendar.js";
+
+export interface RateLimitOptions {
+  initialConcurrency: number;
+  maxConcurrency: number;
+  /** Pause between waves */
+  waveDelayMs: number;
+  /** Retries per call after a throttled response */
+  maxRetries: number;
+  /** First backoff; doubles with every retry */
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+export interface RateLimitedExecutor {
+  /** Run `fn` over every item, settling each like Promise.allSettled. */
+  run<T, R>(
+    items: T[],
+    fn: (item: T) => Promise<R>,
+  ): Promise<{ results: PromiseSettledResult<R>[]; throttling: ThrottleStats }>;
+}
+
+const RATE_LIMIT_REASONS = ["rateLimitExceeded", "userRateLimitExceeded"];
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** True for 429, and for 403 responses whose reason is a rate limit (not a permission error). */
+export function isRateLimitError(error: unknown): error is GoogleCalendarError {
+  if (!(error instanceof GoogleCalendarError)) return false;
+  if (error.code === 429) return true;
+  return error.code === 403 && RATE_LIMIT_REASONS.some((reason) => error.body.includes(reason));
+}
+
+export function emptyThrottleStats(concurrency: number): ThrottleStats {
+  return { throttled: 0, retries: 0, exhausted: 0, backoffMs: 0, minConcurrency: concurrency };
+}
+
+/** Add up throttling counters from several executor runs. */
+export function mergeThrottleStats(a: ThrottleStats, b: ThrottleStats): ThrottleStats {
+  return {
+    throttled: a.throttled + b.throttled,
+    retries: a.retries + b.retries,
+    exhausted: a.exhausted + b.exhausted,
+    backoffMs: a.backoffMs + b.backoffMs,
+    minConcurrency: Math.min(a.minConcurrency, b.minConcurrency),
+  };
+}
+
+/**
+ * Create an executor. Its concurrency carries over between `run` calls, so
+ * one executor shared by a whole sync keeps what it learned about the quota.
+ */
+export function createRateLimitedExecutor(options: RateLimitOptions): RateLimitedExecutor {
+  let concurrency = options.initialConcurrency;
+
+  function backoffMs(attempt: number, error: GoogleCalendarError): number {
+    const exponential = Math.min(options.maxBackoffMs, options.baseBackoffMs * 2 ** attempt);
+    const jittered = exponential / 2 + Math.random() * (exponential / 2);
+    return Math.round(Math.max(jittered, error.retryAfterMs ?? 0));
+  }
+
+  return {
+    async run<T, R>(items: T[], fn: (item: T) => Promise<R>) {
+      const throttling = emptyThrottleStats(concurrency);
+      const results: PromiseSettledResult<R>[] = [];
+
+      // Settle one call, retrying while it is throttled
+      const attempt = async (item: T): Promise<{ result: PromiseSettledResult<R>; throttled: boolean }> => {
+        let throttled = false;
+        for (let retry = 0; ; retry++) {
+          try {
+            return { result: { status: "fulfilled", value: await fn(item) }, throttled };
+          } catch (error: unknown) {
+            if (!isRateLimitError(error)) return { result: { status: "rejected", reason: error }, throttled };
+            throttled = true;
+            throttling.throttled++;
+            if (retry >= options.maxRetries) {
+              throttling.exhausted++;
+              return { result: { status: "rejected", reason: error }, throttled };
+            }
+            const wait = backoffMs(retry, error);
+            throttling.retries++;
+            throttling.backoffMs += wait;
+            await delay(wait);
+          }
+        }
+      };
+
+      let index = 0;
+      while (index < items.length) {
+        if (index > 0) await delay(options.waveDelayMs);
+        const wave = items.slice(index, index + concurrency);
+        index += wave.length;
+
+        const settled = await Promise.all(wave.map(attempt));
+        results.push(...settled.map((s) => s.result));
+
+        concurrency = settled.some((s) => s.throttled)
+          ? Math.max(1, Math.floor(concurrency / 2))
+          : Math.min(options.maxConcurrency, concurrency + 1);
+        throttling.minConcurrency = Math.min(throttling.minConcurrency, concurrency);
+      }
+
+      return { results, throttling };
+    },
+  };
+}
@@ -0,0 +1,336 @@
+/**
+ * Recovery workflow for a lost or corrupted mapping.
+ * Scans every configured calendar for synced copies, matches each copy back
+ * to its original — by the copy's linkage properties first, then by prefixed
+ * summary and start time — and rewrites synced_events from the matches.
+ * Copies that cannot be matched are reported for manual review rather than
+ * being left for the next sync to duplicate.
+ * Trigger: webhook (response: wait).
+ */
+
+import { SolidActions, defineWorkflow } from "@solidactions/sdk";
+import type { ConnectionVar } from "@solidactions/sdk";
+import type {
+  CalendarConfig,
+  EventListing,
+  GoogleCalendarEvent,
+  MappingStore,
+  PendingSheetInsert,
+  SyncPair,
+} from "./types.js";
+import { fetchEvents } from "./google-calendar.js";
+import {
+  buildSyncedSummary,
+  computeSignature,
+  computeCopySignature,
+  getDateString,
+  getSyncLinkage,
+  hasLegacySyncTag,
+  isSyncedCopy,
+  parseSyncTag,
+} from "./event-utils.js";
+import { createMappingStore } from "./mapping-store.js";
+import {
+  calendarLabel,
+  resolveCalendars,
+  resolveSyncMode,
+  buildSyncPairs,
+  resolvePrivacyOverrides,
+  resolveRecurrenceMode,
+} from "./sync-config.js";
+
+// --- Types ---
+
+export interface RebuildInput {
+  /** Report what would be written without touching the mapping store */
+  dryRun?: boolean;
+  /** Rewrite the mapping even though a listing hit MAX_EVENTS, dropping the rows of copies past the cap */
+  confirmTruncated?: boolean;
+}
+
+interface UnmatchedCopy {
+  calendarId: string;
+  eventId: string;
+  summary: string;
+  start: string;
+  reason: string;
+}
+
+interface MatchResult {
+  rows: PendingSheetInsert[];
+  matchedByMetadata: number;
+  matchedByHeuristic: number;
+  unmatched: UnmatchedCopy[];
+}
+
+export interface RebuildOutput {
+  dryRun: boolean;
+  eventsScanned: Record<string, number>;
+  truncatedCalendars: string[];
+  copiesFound: number;
+  matchedByMetadata: number;
+  matchedByHeuristic: number;
+  previousRows: number;
+  writtenRows: number;
+  unmatched: UnmatchedCopy[];
+  /** Set when a truncated listing stopped the rewrite */
+  blockedReason?: string;
+}
+
+// --- Step Functions ---
+
+/** Comparable form of a start time; calendars in different time zones format the same instant differently. */
+function startKey(dt: GoogleCalendarEvent["start"]): string {
+  if (!dt) return "";
+  if ("date" in dt) return dt.date;
+  return String(Date.parse(dt.dateTime));
+}
+
+/**
+ * Match every copy found in the listings to its original.
+ * A copy is only mapped for a configured sync direction, and each original
+ * is mapped to at most one copy per target calendar.
+ */
+function matchCopies(
+  listings: Record<string, EventListing>,
+  pairs: SyncPair[],
+): MatchResult {
+  const result: MatchResult = { rows: [], matchedByMetadata: 0, matchedByHeuristic: 0, unmatched: [] };
+  const pairsByTarget = new Map<string, SyncPair[]>();
+  for (const pair of pairs) {
+    pairsByTarget.set(pair.targetCalendarId, [...(pairsByTarget.get(pair.targetCalendarId) ?? []), pair]);
+  }
+  const mappedKeys = new Set<string>();
+
+  const originalsOf = (calendarId: string) =>
+    (listings[calendarId]?.events ?? []).filter((e) => !isSyncedCopy(e) && !hasLegacySyncTag(e));
+
+  for (const [targetCalendarId, listing] of Object.entries(listings)) {
+    for (const copy of listing.events) {
+      if (!isSyncedCopy(copy) && !hasLegacySyncTag(copy)) continue;
+
+      const unmatched = (reason: string) =>
+        result.unmatched.push({
+          calendarId: targetCalendarId,
+          eventId: copy.id,
+          summary: copy.summary ?? "",
+          start: getDateString(copy.start),
+          reason,
+        });
+
+      const linkage = getSyncLinkage(copy);
+      const claimedSource = linkage?.sourceCalendarId ?? parseSyncTag(copy.description)?.sourceCalendarId;
+      const candidatePairs = (pairsByTarget.get(targetCalendarId) ?? []).filter(
+        (p) => !claimedSource || p.sourceCalendarId === claimedSource,
+      );
+      if (candidatePairs.length === 0) {
+        unmatched("source calendar is not a configured sync direction into this calendar");
+        continue;
+      }
+
+      let original: GoogleCalendarEvent | undefined;
+      let pair: SyncPair | undefined;
+      let byMetadata = false;
+
+      if (linkage) {
+        // 1. Embedded metadata names the original exactly
+        pair = candidatePairs[0];
+        original = originalsOf(pair.sourceCalendarId).find((e) => e.id === linkage.sourceEventId);
+        if (!original) {
+          unmatched(`original ${linkage.sourceEventId} not found in the sync window`);
+          continue;
+        }
+        byMetadata = true;
+      } else {
+        // 2. Heuristic: the copy's expected summary and an identical start
+        const candidates = candidatePairs.flatMap((p) =>
+          originalsOf(p.sourceCalendarId)
+            .filter(
+              (e) =>
+                buildSyncedSummary(e, p.prefix, p.privacy) === (copy.summary ?? "") &&
+                startKey(e.start) === startKey(copy.start),
+            )
+            .map((e) => ({ pair: p, event: e })),
+        );
+        if (candidates.length === 0) {
+          unmatched("no original with a matching summary and start");
+          continue;
+        }
+        if (candidates.length > 1) {
+          unmatched(`${candidates.length} originals share this summary and start`);
+          continue;
+        }
+        ({ pair, event: original } = candidates[0]);
+      }
+
+      const key = `${pair.sourceCalendarId}:${original.id}:${targetCalendarId}`;
+      if (mappedKeys.has(key)) {
+        unmatched(`duplicate copy of ${original.id}; another copy is already mapped`);
+        continue;
+      }
+      mappedKeys.add(key);
+
+      result.rows.push({
+        primary_calendar: pair.sourceCalendarId,
+        primary_event_id: original.id,
+        secondary_calendar: targetCalendarId,
+        secondary_event_id: copy.id,
+        event_summary: original.summary ?? "",
+        event_start: getDateString(original.start),
+        event_end: getDateString(original.end),
+        // Heuristic matches get an empty signature so the next sync rewrites
+        // the copy, refreshing any drift and stamping its linkage properties.
+        event_signature: byMetadata ? computeSignature(original, pair.privacy) : "",
+        copy_signature: byMetadata ? computeCopySignature(copy) : "",
+      });
+      if (byMetadata) result.matchedByMetadata++;
+      else result.matchedByHeuristic++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replace every mapping row with the rebuilt rows and drop the sync tokens:
+ * an incremental run only sees changed events, so an original whose copy was
+ * lost with the mapping would never be mirrored again. Returns the number of
+ * rows removed.
+ */
+async function rewriteMapping(store: MappingStore, rows: PendingSheetInsert[]): Promise<number> {
+  await store.initSchema();
+  const existing = await store.loadSyncedEvents();
+  await store.batchDeleteSyncedEventRows(existing.map((r) => r.id));
+  await store.batchInsertSyncedEvents(rows);
+  await store.clearSyncTokens();
+  return existing.length;
+}
+
+// --- Workflow Function ---
+
+async function rebuildMappingWorkflow(ctx: {
+  calendars: CalendarConfig[];
+  pairs: SyncPair[];
+  maxEvents: number;
+  daysAhead: number;
+  /** List recurring masters and exceptions (series mode) instead of occurrences */
+  singleEvents: boolean;
+  dryRun: boolean;
+  confirmTruncated: boolean;
+  gcal: ConnectionVar;
+  store: MappingStore;
+}): Promise<RebuildOutput> {
+  const { calendars, pairs, maxEvents, daysAhead, singleEvents, dryRun, confirmTruncated, gcal, store } = ctx;
+
+  SolidActions.logger.info(
+    `Rebuilding mapping from ${calendars.length} calendars${dryRun ? " (dry run)" : ""}`,
+  );
+
+  // Step 1: Full listing of every calendar. Any failure aborts the rebuild —
+  // a partial scan would drop the rows of the missing calendar.
+  const fetched = await Promise.all(
+    calendars.map((calendar, index) =>
+      SolidActions.runStep(
+        () => fetchEvents(gcal, calendar.id, maxEvents, daysAhead, singleEvents),
+        { name: `fetch-calendar-${calendarLabel(index)}-events` },
+      ),
+    ),
+  );
+
+  const listings: Record<string, EventListing> = {};
+  const eventsScanned: Record<string, number> = {};
+  const truncatedCalendars: string[] = [];
+  calendars.forEach((calendar, index) => {
+    listings[calendar.id] = fetched[index];
+    eventsScanned[calendar.id] = fetched[index].events.length;
+    if (fetched[index].truncated) {
+      truncatedCalendars.push(calendar.id);
+      SolidActions.logger.error(
+        `Calendar ${calendarLabel(index).toUpperCase()} listing truncated at MAX_EVENTS=${maxEvents}; copies past the cap are not matched`,
+      );
+    }
+  });
+
+  // Step 2: Match copies to originals
+  const match = await SolidActions.runStep(
+    () => Promise.resolve(matchCopies(listings, pairs)),
+    { name: "match-copies" },
+  );
+  const copiesFound = match.rows.length + match.unmatched.length;
+  SolidActions.logger.info(
+    `Found ${copiesFound} copies: ${match.matchedByMetadata} matched by metadata, ` +
+      `${match.matchedByHeuristic} by summary/start, ${match.unmatched.length} unmatched`,
+  );
+  for (const copy of match.unmatched) {
+    SolidActions.logger.info(
+      `Unmatched copy ${copy.eventId} on ${copy.calendarId} ("${copy.summary}", ${copy.start}): ${copy.reason}`,
+    );
+  }
+
+  // Step 3: Rewrite the mapping. The rewrite replaces every row, so a
+  // truncated listing would drop the rows of copies past the cap.
+  const blockedReason = truncatedCalendars.length > 0 && !confirmTruncated
+    ? `listing truncated at MAX_EVENTS=${maxEvents} for ${truncatedCalendars.join(", ")}; ` +
+      "raise MAX_EVENTS or rerun with confirmTruncated"
+    : undefined;
+  let previousRows: number;
+  if (dryRun || blockedReason) {
+    if (blockedReason) SolidActions.logger.error(`Mapping rewrite blocked: ${blockedReason}`);
+    previousRows = await SolidActions.runStep(
+      async () => (await store.loadSyncedEvents()).length,
+      { name: "count-existing-rows" },
+    );
+  } else {
+    previousRows = await SolidActions.runStep(
+      () => rewriteMapping(store, match.rows),
+      { name: "rewrite-mapping" },
+    );
+    SolidActions.logger.info(`Replaced ${previousRows} mapping rows with ${match.rows.length} rebuilt rows`);
+  }
+
+  return {
+    dryRun,
+    eventsScanned,
+    truncatedCalendars,
+    copiesFound,
+    matchedByMetadata: match.matchedByMetadata,
+    matchedByHeuristic: match.matchedByHeuristic,
+    previousRows,
+    writtenRows: dryRun || blockedReason ? 0 : match.rows.length,
+    unmatched: match.unmatched,
+    blockedReason,
+  };
+}
+
+// --- Define and Export ---
+
+export const handle = defineWorkflow<RebuildInput, RebuildOutput>({
+  name: "rebuild-mapping",
+  run: (ctx) => {
+    const gcal = ctx.vars.GCAL as ConnectionVar;
+
+    if (typeof gcal !== "object" || !gcal.proxyUrl) {
+      throw new Error("Missing or invalid GCAL connection variable");
+    }
+
+    const calendars = resolveCalendars(ctx.vars);
+    const syncMode = resolveSyncMode(ctx.vars.SYNC_MODE as string | undefined);
+
+    return rebuildMappingWorkflow({
+      calendars,
+      pairs: buildSyncPairs(
+        calendars,
+        syncMode,
+        ctx.vars.HUB_CALENDAR_ID as string | undefined,
+        resolvePrivacyOverrides(ctx.vars.PRIVACY_LEVELS as string | undefined),
+      ),
+      maxEvents: parseInt((ctx.vars.MAX_EVENTS as string | undefined) ?? "2500", 10),
+      daysAhead: parseInt((ctx.vars.DAYS_AHEAD as string | undefined) ?? "180", 10),
+      singleEvents: resolveRecurrenceMode(ctx.vars.RECURRENCE_MODE as string | undefined) === "instances",
+      dryRun: ctx.input?.dryRun === true,
+      confirmTruncated: ctx.input?.confirmTruncated === true,
+      gcal,
+      store: createMappingStore(ctx.vars),
+    });
+  },
+});
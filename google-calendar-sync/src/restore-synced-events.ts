@@ -0,0 +1,255 @@
+/**
+ * Restore workflow for synced copies removed by orphan cleanup.
+ * Re-creates copies from deleted_events tombstones — selected by source event
+ * ID or by a range on the original's start — and writes their mapping rows
+ * back to synced_events in the configured mapping store.
+ * Trigger: webhook (response: wait).
+ */
+
+import { SolidActions, defineWorkflow } from "@solidactions/sdk";
+import type { ConnectionVar } from "@solidactions/sdk";
+import type { MappingStore, PendingSheetInsert, TombstoneRecord } from "./types.js";
+import { createEventWithId, getEvent, GoogleCalendarError } from "./google-calendar.js";
+import { computeCopySignature, copyEventId } from "./event-utils.js";
+import { createMappingStore } from "./mapping-store.js";
+
+// --- Types ---
+
+export interface RestoreInput {
+  /** Restore the copies of one original event */
+  sourceEventId?: string;
+  /** Restore copies whose original starts at or after this ISO datetime */
+  timeMin?: string;
+  /** Restore copies whose original starts before this ISO datetime */
+  timeMax?: string;
+  /** Restore even when the original no longer exists (the next sync will delete it again) */
+  force?: boolean;
+}
+
+interface RestoredCopy {
+  primaryEventId: string;
+  secondaryCalendar: string;
+  secondaryEventId: string;
+}
+
+interface SkippedCopy {
+  primaryEventId: string;
+  secondaryCalendar: string;
+  reason: string;
+}
+
+export interface RestoreOutput {
+  matched: number;
+  restored: number;
+  errors: number;
+  restoredCopies: RestoredCopy[];
+  skipped: SkippedCopy[];
+}
+
+// --- Step Functions ---
+
+/** Pick the latest unrestored tombstone per copy matching the input, skipping copies that are mapped again. */
+async function loadRestoreCandidates(
+  store: MappingStore,
+  input: RestoreInput,
+): Promise<{ candidates: TombstoneRecord[]; skipped: SkippedCopy[] }> {
+  const tombstones = await store.loadTombstones();
+  const records = await store.loadSyncedEvents();
+
+  const timeMin = input.timeMin ? Date.parse(input.timeMin) : -Infinity;
+  const timeMax = input.timeMax ? Date.parse(input.timeMax) : Infinity;
+
+  const matches = tombstones.filter((t) => {
+    if (t.restored_at) return false;
+    if (input.sourceEventId) return t.primary_event_id === input.sourceEventId;
+    const start = Date.parse(t.event_start);
+    return !Number.isNaN(start) && start >= timeMin && start < timeMax;
+  });
+
+  const mapped = new Set(
+    records.map((r) => `${r.primary_calendar}:${r.primary_event_id}:${r.secondary_calendar}`),
+  );
+
+  // Tombstones are appended in deletion order, so the last one per copy wins.
+  const latest = new Map<string, TombstoneRecord>();
+  for (const tombstone of matches) {
+    latest.set(
+      `${tombstone.primary_calendar}:${tombstone.primary_event_id}:${tombstone.secondary_calendar}`,
+      tombstone,
+    );
+  }
+
+  const candidates: TombstoneRecord[] = [];
+  const skipped: SkippedCopy[] = [];
+  for (const [key, tombstone] of latest) {
+    if (mapped.has(key)) {
+      skipped.push({
+        primaryEventId: tombstone.primary_event_id,
+        secondaryCalendar: tombstone.secondary_calendar,
+        reason: "already synced again",
+      });
+    } else {
+      candidates.push(tombstone);
+    }
+  }
+
+  return { candidates, skipped };
+}
+
+/** Re-create each candidate copy. Returns the mapping rows to insert and the tombstones used. */
+async function restoreCopies(
+  gcal: ConnectionVar,
+  candidates: TombstoneRecord[],
+  force: boolean,
+): Promise<{
+  inserts: PendingSheetInsert[];
+  restoredTombstoneIds: number[];
+  restoredCopies: RestoredCopy[];
+  skipped: SkippedCopy[];
+  errors: number;
+}> {
+  const inserts: PendingSheetInsert[] = [];
+  const restoredTombstoneIds: number[] = [];
+  const restoredCopies: RestoredCopy[] = [];
+  const skipped: SkippedCopy[] = [];
+  let errors = 0;
+
+  for (const tombstone of candidates) {
+    const skip = (reason: string) =>
+      skipped.push({
+        primaryEventId: tombstone.primary_event_id,
+        secondaryCalendar: tombstone.secondary_calendar,
+        reason,
+      });
+
+    if (!tombstone.copy_body) {
+      skip("copy body was not recorded");
+      continue;
+    }
+
+    try {
+      if (!force) {
+        try {
+          const original = await getEvent(gcal, tombstone.primary_calendar, tombstone.primary_event_id);
+          if (original.status === "cancelled") {
+            skip("original event was deleted");
+            continue;
+          }
+        } catch (error: unknown) {
+          if (error instanceof GoogleCalendarError && (error.code === 404 || error.code === 410)) {
+            skip("original event was deleted");
+            continue;
+          }
+          throw error;
+        }
+      }
+
+      // The deterministic ID makes a retried restore reuse the same copy
+      const { event: created } = await createEventWithId(
+        gcal,
+        tombstone.secondary_calendar,
+        copyEventId(tombstone.primary_calendar, tombstone.primary_event_id),
+        JSON.parse(tombstone.copy_body) as Record<string, unknown>,
+      );
+
+      inserts.push({
+        primary_calendar: tombstone.primary_calendar,
+        primary_event_id: tombstone.primary_event_id,
+        secondary_calendar: tombstone.secondary_calendar,
+        secondary_event_id: created.id,
+        event_summary: tombstone.event_summary,
+        event_start: tombstone.event_start,
+        event_end: tombstone.event_end,
+        event_signature: tombstone.event_signature,
+        copy_signature: computeCopySignature(created),
+      });
+      restoredTombstoneIds.push(tombstone.id);
+      restoredCopies.push({
+        primaryEventId: tombstone.primary_event_id,
+        secondaryCalendar: tombstone.secondary_calendar,
+        secondaryEventId: created.id,
+      });
+    } catch (error: unknown) {
+      SolidActions.logger.error(
+        `Failed to restore copy of ${tombstone.primary_event_id}: ${(error as Error).message}`,
+      );
+      errors++;
+    }
+  }
+
+  return { inserts, restoredTombstoneIds, restoredCopies, skipped, errors };
+}
+
+// --- Workflow Function ---
+
+async function restoreSyncedEventsWorkflow(
+  input: RestoreInput,
+  gcal: ConnectionVar,
+  store: MappingStore,
+): Promise<RestoreOutput> {
+  if (!input.sourceEventId && !input.timeMin && !input.timeMax) {
+    throw new Error("Provide sourceEventId, or a timeMin/timeMax range, to select copies to restore");
+  }
+  for (const name of ["timeMin", "timeMax"] as const) {
+    const value = input[name];
+    if (value !== undefined && (typeof value !== "string" || Number.isNaN(Date.parse(value)))) {
+      throw new Error(`${name} must be an ISO datetime such as "2026-10-01T00:00:00Z", got ${JSON.stringify(value)}`);
+    }
+  }
+
+  SolidActions.logger.info(
+    input.sourceEventId
+      ? `Restoring copies of ${input.sourceEventId}`
+      : `Restoring copies starting between ${input.timeMin ?? "-"} and ${input.timeMax ?? "-"}`,
+  );
+
+  // Step 1: Select tombstones to restore
+  const { candidates, skipped: alreadyMapped } = await SolidActions.runStep(
+    () => loadRestoreCandidates(store, input),
+    { name: "load-restore-candidates" },
+  );
+  SolidActions.logger.info(`Found ${candidates.length} copies to restore`);
+
+  // Step 2: Re-create copies (Calendar API ops only)
+  const result = await SolidActions.runStep(
+    () => restoreCopies(gcal, candidates, input.force === true),
+    { name: "restore-copies" },
+  );
+
+  // Step 3: Write mapping rows and mark tombstones restored
+  await SolidActions.runStep(
+    async () => {
+      await store.batchInsertSyncedEvents(result.inserts);
+      await store.markTombstonesRestored(result.restoredTombstoneIds);
+    },
+    { name: "write-restored-mappings" },
+  );
+
+  const skipped = [...alreadyMapped, ...result.skipped];
+  SolidActions.logger.info(
+    `Restore complete: ${result.restoredCopies.length} restored, ${skipped.length} skipped, ${result.errors} errors`,
+  );
+
+  return {
+    matched: candidates.length + alreadyMapped.length,
+    restored: result.restoredCopies.length,
+    errors: result.errors,
+    restoredCopies: result.restoredCopies,
+    skipped,
+  };
+}
+
+// --- Define and Export ---
+
+export const handle = defineWorkflow<RestoreInput, RestoreOutput>({
+  name: "restore-synced-events",
+  run: (ctx) => {
+    const gcal = ctx.vars.GCAL as ConnectionVar;
+
+    if (typeof gcal !== "object" || !gcal.proxyUrl) {
+      throw new Error("Missing or invalid GCAL connection variable");
+    }
+
+    return restoreSyncedEventsWorkflow(ctx.input ?? {}, gcal, createMappingStore(ctx.vars));
+  },
+});
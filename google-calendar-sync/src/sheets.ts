@@ -1,10 +1,23 @@
 /**
  * Google Sheets helpers — calls go through the SolidActions OAuth proxy.
- * Replaces PostgreSQL with a Google Sheet as the data store.
+ * The default MappingStore backend: a Google Sheet as the data store.
  */
 
 import type { ConnectionVar } from "@solidactions/sdk";
-import type { SyncedEventRecord, PendingSheetInsert, PendingSheetUpdate } from "./types.js";
+import type {
+  AlertStateRecord,
+  MappingStore,
+  SyncedEventRecord,
+  PendingSheetInsert,
+  PendingSheetUpdate,
+  PendingTombstone,
+  SyncRunRecord,
+  SyncTokenState,
+  TombstoneRecord,
+} from "./types.js";
+import { SYNC_RULE_HEADERS } from "./sync-rules.js";
+import { createOAuthProxyClient } from "./oauth-proxy-client.js";
+import type { OAuthProxyClient } from "./oauth-proxy-client.js";
 
 const SHEET_NAME = "synced_events";
 const HEADERS = [
@@ -19,11 +32,61 @@ const HEADERS = [
   "created_at",
   "last_updated",
   "last_checked",
+  "copy_signature",
+];
+
+const SYNC_STATE_SHEET_NAME = "sync_state";
+const SYNC_STATE_HEADERS = ["calendar_id", "sync_token", "updated_at", "window_end"];
+
+const TOMBSTONE_SHEET_NAME = "deleted_events";
+const TOMBSTONE_HEADERS = [
+  "deleted_at",
+  "primary_calendar",
+  "primary_event_id",
+  "secondary_calendar",
+  "secondary_event_id",
+  "event_summary",
+  "event_start",
+  "event_end",
+  "event_signature",
+  "created_at",
+  "copy_body",
+  "restored_at",
+];
+
+const SYNC_RULES_SHEET_NAME = "sync_rules";
+
+const ALERT_STATE_SHEET_NAME = "alert_state";
+const ALERT_STATE_HEADERS = [
+  "fingerprint",
+  "kind",
+  "severity",
+  "title",
+  "detail",
+  "first_seen",
+  "last_seen",
+  "last_sent",
+  "occurrences",
+  "resolved_at",
+];
+
+const SYNC_RUNS_SHEET_NAME = "sync_runs";
+const SYNC_RUNS_HEADERS = [
+  "workflow_id",
+  "started_at",
+  "finished_at",
+  "status",
+  "duration_ms",
+  "events_fetched",
+  "direction_stats",
+  "step_durations",
+  "throttling",
+  "error",
 ];
 
 /** Catalog action IDs for the Google Sheets endpoints we call.
  * Refresh with `solidactions oauth-action search google-sheets <query>`. */
-const ACTION = {
+export const ACTION = {
   getSpreadsheet: "conn_mod_def::GJ30jpJCuBA::-7kldtebSUeO7_FYtT48JQ",
   getValues: "conn_mod_def::GJ30lYkSqLk::IOnDiKqfQ_2FtFCahohidA",
   updateValues: "conn_mod_def::GJ30lisycVw::Lt4ggUnqQ7yQ3yrqhNpp3Q",
@@ -32,53 +95,8 @@ const ACTION = {
   batchUpdateSpreadsheet: "conn_mod_def::GJ30jCATCJk::uk1gxM57RXy-ciDvxCQvQQ",
 } as const;
 
-interface ProxyOpts {
-  actionId: string;
-  query?: Record<string, string | number | boolean | undefined>;
-  body?: unknown;
-}
-
-async function sheetsProxy(conn: ConnectionVar, method: string, path: string, opts: ProxyOpts): Promise<Response> {
-  if (!conn.proxyUrl || !conn.proxyToken || !conn.key) {
-    throw new Error(
-      `Missing connection: proxyUrl=${!!conn.proxyUrl} proxyToken=${!!conn.proxyToken} key=${!!conn.key}`,
-    );
-  }
-
-  let url = `${conn.proxyUrl}/google-sheets${path}`;
-  if (opts.query) {
-    const params = new URLSearchParams();
-    for (const [k, v] of Object.entries(opts.query)) {
-      if (v !== undefined && v !== null) params.append(k, String(v));
-    }
-    const qs = params.toString();
-    if (qs) url += `?${qs}`;
-  }
-
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${conn.proxyToken}`,
-    "X-OAuth-Connection-Key": conn.key,
-    "X-OAuth-Action-Id": opts.actionId,
-    Accept: "application/json",
-  };
-  if (opts.body !== undefined) headers["Content-Type"] = "application/json";
-
-  return fetch(url, {
-    method,
-    headers,
-    body: opts.body !== undefined ? JSON.stringify(opts.body) : undefined,
-  });
-}
-
-async function sheetsJson<T>(conn: ConnectionVar, method: string, path: string, opts: ProxyOpts): Promise<T> {
-  const res = await sheetsProxy(conn, method, path, opts);
-  const text = await res.text();
-  if (!res.ok) {
-    throw new Error(
-      `Google Sheets ${method} ${path} failed: ${res.status} ${text.slice(0, 500)}`,
-    );
-  }
-  return text ? (JSON.parse(text) as T) : ({} as T);
+function sheetsClient(conn: ConnectionVar): OAuthProxyClient {
+  return createOAuthProxyClient(conn, { platform: "google-sheets", label: "Google Sheets" });
 }
 
 interface SpreadsheetMeta {
@@ -91,10 +109,9 @@ interface ValueRangeResponse {
 
 /** Load all synced event records from the spreadsheet. */
 export async function loadSyncedEvents(conn: ConnectionVar, spreadsheetId: string): Promise<SyncedEventRecord[]> {
-  const data = await sheetsJson<ValueRangeResponse>(
-    conn,
+  const data = await sheetsClient(conn).json<ValueRangeResponse>(
     "GET",
-    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SHEET_NAME}!A:K`)}`,
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SHEET_NAME}!A:L`)}`,
     { actionId: ACTION.getValues },
   );
 
@@ -116,6 +133,7 @@ export async function loadSyncedEvents(conn: ConnectionVar, spreadsheetId: strin
       created_at: row[8] ?? "",
       last_updated: row[9] ?? "",
       last_checked: row[10] ?? "",
+      copy_signature: row[11] ?? "",
     }))
     .filter((record) => record.primary_calendar !== "");
 }
@@ -127,10 +145,9 @@ export async function insertSyncedEvent(
   record: Omit<SyncedEventRecord, "id" | "created_at" | "last_updated" | "last_checked">,
 ): Promise<void> {
   const now = new Date().toISOString();
-  await sheetsJson(
-    conn,
+  await sheetsClient(conn).json(
     "POST",
-    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SHEET_NAME}!A:K`)}:append`,
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SHEET_NAME}!A:L`)}:append`,
     {
       actionId: ACTION.appendValues,
       query: { valueInputOption: "RAW" },
@@ -148,6 +165,7 @@ export async function insertSyncedEvent(
             now,
             now,
             now,
+            record.copy_signature,
           ],
         ],
       },
@@ -175,10 +193,9 @@ export async function updateSyncedEvent(
   if (!record) return;
 
   const now = new Date().toISOString();
-  await sheetsJson(
-    conn,
+  await sheetsClient(conn).json(
     "PUT",
-    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SHEET_NAME}!A${record.id}:K${record.id}`)}`,
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SHEET_NAME}!A${record.id}:L${record.id}`)}`,
     {
       actionId: ACTION.updateValues,
       query: { valueInputOption: "RAW" },
@@ -196,6 +213,7 @@ export async function updateSyncedEvent(
             record.created_at,
             now,
             now,
+            record.copy_signature,
           ],
         ],
       },
@@ -218,8 +236,7 @@ export async function deleteSyncedEvent(
 
   const sheetId = await getSheetId(conn, spreadsheetId);
 
-  await sheetsJson(
-    conn,
+  await sheetsClient(conn).json(
     "POST",
     `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}:batchUpdate`,
     {
@@ -244,8 +261,7 @@ export async function deleteSyncedEvent(
 
 /** Get the numeric sheet ID for the synced_events sheet. */
 export async function getSheetId(conn: ConnectionVar, spreadsheetId: string): Promise<number> {
-  const data = await sheetsJson<SpreadsheetMeta>(
-    conn,
+  const data = await sheetsClient(conn).json<SpreadsheetMeta>(
     "GET",
     `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}`,
     { actionId: ACTION.getSpreadsheet },
@@ -254,6 +270,298 @@ export async function getSheetId(conn: ConnectionVar, spreadsheetId: string): Pr
   return sheet?.properties?.sheetId ?? 0;
 }
 
+/** Load the stored incremental-sync token for each calendar from the sync_state sheet. */
+export async function loadSyncTokens(
+  conn: ConnectionVar,
+  spreadsheetId: string,
+): Promise<Record<string, SyncTokenState>> {
+  const data = await sheetsClient(conn).json<ValueRangeResponse>(
+    "GET",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SYNC_STATE_SHEET_NAME}!A:D`)}`,
+    { actionId: ACTION.getValues },
+  );
+
+  // Rows written before window_end existed read as "", which forces one full listing
+  const tokens: Record<string, SyncTokenState> = {};
+  for (const row of (data.values ?? []).slice(1)) {
+    if (row[0] && row[1]) tokens[row[0]] = { token: row[1], windowEnd: row[3] ?? "" };
+  }
+  return tokens;
+}
+
+/** Store sync tokens, replacing the rows for the given calendars and keeping the rest. */
+export async function saveSyncTokens(
+  conn: ConnectionVar,
+  spreadsheetId: string,
+  tokens: Record<string, SyncTokenState>,
+): Promise<void> {
+  if (Object.keys(tokens).length === 0) return;
+
+  const data = await sheetsClient(conn).json<ValueRangeResponse>(
+    "GET",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SYNC_STATE_SHEET_NAME}!A:D`)}`,
+    { actionId: ACTION.getValues },
+  );
+
+  const now = new Date().toISOString();
+  const rows = (data.values ?? []).slice(1).filter((row) => row[0]);
+  const remaining = { ...tokens };
+  const values = rows.map((row) => {
+    const state = remaining[row[0]];
+    if (state === undefined) return [row[0], row[1] ?? "", row[2] ?? "", row[3] ?? ""];
+    delete remaining[row[0]];
+    return [row[0], state.token, now, state.windowEnd];
+  });
+  for (const [calendarId, state] of Object.entries(remaining)) {
+    values.push([calendarId, state.token, now, state.windowEnd]);
+  }
+
+  await sheetsClient(conn).json(
+    "PUT",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SYNC_STATE_SHEET_NAME}!A2:D${values.length + 1}`)}`,
+    {
+      actionId: ACTION.updateValues,
+      query: { valueInputOption: "RAW" },
+      body: { values },
+    },
+  );
+}
+
+/** Blank every sync_state row; loadSyncTokens skips blank rows and saveSyncTokens drops them. */
+export async function clearSyncTokens(conn: ConnectionVar, spreadsheetId: string): Promise<void> {
+  const data = await sheetsClient(conn).json<ValueRangeResponse>(
+    "GET",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SYNC_STATE_SHEET_NAME}!A:A`)}`,
+    { actionId: ACTION.getValues },
+  );
+  const existingRows = Math.max((data.values ?? []).length - 1, 0);
+  if (existingRows === 0) return;
+
+  await sheetsClient(conn).json(
+    "PUT",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SYNC_STATE_SHEET_NAME}!A2:D${existingRows + 1}`)}`,
+    {
+      actionId: ACTION.updateValues,
+      query: { valueInputOption: "RAW" },
+      body: { values: Array.from({ length: existingRows }, () => SYNC_STATE_HEADERS.map(() => "")) },
+    },
+  );
+}
+
+/** Append tombstones for deleted copies in a single append call. */
+export async function appendTombstones(
+  conn: ConnectionVar,
+  spreadsheetId: string,
+  tombstones: PendingTombstone[],
+): Promise<void> {
+  if (tombstones.length === 0) return;
+
+  const now = new Date().toISOString();
+  const values = tombstones.map((t) => [
+    now,
+    t.primary_calendar,
+    t.primary_event_id,
+    t.secondary_calendar,
+    t.secondary_event_id,
+    t.event_summary,
+    t.event_start,
+    t.event_end,
+    t.event_signature,
+    t.created_at,
+    t.copy_body,
+    "",
+  ]);
+
+  await sheetsClient(conn).json(
+    "POST",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${TOMBSTONE_SHEET_NAME}!A:L`)}:append`,
+    {
+      actionId: ACTION.appendValues,
+      query: { valueInputOption: "RAW" },
+      body: { values },
+    },
+  );
+}
+
+/** Load all tombstones from the deleted_events sheet. */
+export async function loadTombstones(conn: ConnectionVar, spreadsheetId: string): Promise<TombstoneRecord[]> {
+  const data = await sheetsClient(conn).json<ValueRangeResponse>(
+    "GET",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${TOMBSTONE_SHEET_NAME}!A:L`)}`,
+    { actionId: ACTION.getValues },
+  );
+
+  const rows = data.values ?? [];
+  if (rows.length <= 1) return []; // Only header or empty
+
+  return rows
+    .slice(1)
+    .map((row, index) => ({
+      id: index + 2, // 1-indexed row number, skip header
+      deleted_at: row[0] ?? "",
+      primary_calendar: row[1] ?? "",
+      primary_event_id: row[2] ?? "",
+      secondary_calendar: row[3] ?? "",
+      secondary_event_id: row[4] ?? "",
+      event_summary: row[5] ?? "",
+      event_start: row[6] ?? "",
+      event_end: row[7] ?? "",
+      event_signature: row[8] ?? "",
+      created_at: row[9] ?? "",
+      copy_body: row[10] ?? "",
+      restored_at: row[11] ?? "",
+    }))
+    .filter((record) => record.primary_calendar !== "");
+}
+
+/** Load every alert condition from the alert_state sheet. */
+export async function loadAlertState(conn: ConnectionVar, spreadsheetId: string): Promise<AlertStateRecord[]> {
+  const data = await sheetsClient(conn).json<ValueRangeResponse>(
+    "GET",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${ALERT_STATE_SHEET_NAME}!A:J`)}`,
+    { actionId: ACTION.getValues },
+  );
+
+  return (data.values ?? [])
+    .slice(1)
+    .filter((row) => row[0])
+    .map((row) => ({
+      fingerprint: row[0],
+      kind: row[1] ?? "",
+      severity: (row[2] || "error") as AlertStateRecord["severity"],
+      title: row[3] ?? "",
+      detail: row[4] ?? "",
+      first_seen: row[5] ?? "",
+      last_seen: row[6] ?? "",
+      last_sent: row[7] ?? "",
+      occurrences: parseInt(row[8] ?? "0", 10) || 0,
+      resolved_at: row[9] ?? "",
+    }));
+}
+
+/** Rewrite the alert_state sheet with `records`, blanking rows left over from a longer table. */
+export async function saveAlertState(
+  conn: ConnectionVar,
+  spreadsheetId: string,
+  records: AlertStateRecord[],
+): Promise<void> {
+  const data = await sheetsClient(conn).json<ValueRangeResponse>(
+    "GET",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${ALERT_STATE_SHEET_NAME}!A:A`)}`,
+    { actionId: ACTION.getValues },
+  );
+  const existingRows = Math.max((data.values ?? []).length - 1, 0);
+
+  const values = records.map((r) => [
+    r.fingerprint,
+    r.kind,
+    r.severity,
+    r.title,
+    r.detail,
+    r.first_seen,
+    r.last_seen,
+    r.last_sent,
+    String(r.occurrences),
+    r.resolved_at,
+  ]);
+  while (values.length < existingRows) values.push(ALERT_STATE_HEADERS.map(() => ""));
+  if (values.length === 0) return;
+
+  await sheetsClient(conn).json(
+    "PUT",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${ALERT_STATE_SHEET_NAME}!A2:J${values.length + 1}`)}`,
+    {
+      actionId: ACTION.updateValues,
+      query: { valueInputOption: "RAW" },
+      body: { values },
+    },
+  );
+}
+
+/** Append one run to the sync_runs sheet; the object columns hold JSON. */
+export async function appendSyncRun(conn: ConnectionVar, spreadsheetId: string, run: SyncRunRecord): Promise<void> {
+  const values = [[
+    run.workflow_id,
+    run.started_at,
+    run.finished_at,
+    run.status,
+    String(run.duration_ms),
+    String(run.events_fetched),
+    JSON.stringify(run.direction_stats),
+    JSON.stringify(run.step_durations),
+    JSON.stringify(run.throttling),
+    run.error,
+  ]];
+
+  await sheetsClient(conn).json(
+    "POST",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SYNC_RUNS_SHEET_NAME}!A:J`)}:append`,
+    {
+      actionId: ACTION.appendValues,
+      query: { valueInputOption: "RAW" },
+      body: { values },
+    },
+  );
+}
+
+/** Parse a JSON cell, falling back for blank or hand-edited cells. */
+function parseJsonCell<T>(value: string | undefined, fallback: T): T {
+  try {
+    return value ? (JSON.parse(value) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Load every run from the sync_runs sheet, oldest first. */
+export async function loadSyncRuns(conn: ConnectionVar, spreadsheetId: string): Promise<SyncRunRecord[]> {
+  const data = await sheetsClient(conn).json<ValueRangeResponse>(
+    "GET",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SYNC_RUNS_SHEET_NAME}!A:J`)}`,
+    { actionId: ACTION.getValues },
+  );
+
+  return (data.values ?? [])
+    .slice(1)
+    .filter((row) => row[0])
+    .map((row) => ({
+      workflow_id: row[0],
+      started_at: row[1] ?? "",
+      finished_at: row[2] ?? "",
+      status: (row[3] || "failed") as SyncRunRecord["status"],
+      duration_ms: parseInt(row[4] ?? "0", 10) || 0,
+      events_fetched: parseInt(row[5] ?? "0", 10) || 0,
+      direction_stats: parseJsonCell(row[6], {}),
+      step_durations: parseJsonCell(row[7], {}),
+      throttling: parseJsonCell(row[8], {} as SyncRunRecord["throttling"]),
+      error: row[9] ?? "",
+    }));
+}
+
+/** Stamp restored_at on tombstone rows in a single batchUpdate call. */
+export async function markTombstonesRestored(
+  conn: ConnectionVar,
+  spreadsheetId: string,
+  rowIds: number[],
+): Promise<void> {
+  if (rowIds.length === 0) return;
+
+  const now = new Date().toISOString();
+  const data = rowIds.map((rowId) => ({
+    range: `${TOMBSTONE_SHEET_NAME}!L${rowId}`,
+    values: [[now]],
+  }));
+
+  await sheetsClient(conn).json(
+    "POST",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values:batchUpdate`,
+    {
+      actionId: ACTION.batchUpdateValues,
+      body: { valueInputOption: "RAW", data },
+    },
+  );
+}
+
 /** Batch insert multiple synced event records in a single append call. */
 export async function batchInsertSyncedEvents(
   conn: ConnectionVar,
@@ -275,12 +583,12 @@ export async function batchInsertSyncedEvents(
     now,
     now,
     now,
+    r.copy_signature,
   ]);
 
-  await sheetsJson(
-    conn,
+  await sheetsClient(conn).json(
     "POST",
-    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SHEET_NAME}!A:K`)}:append`,
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SHEET_NAME}!A:L`)}:append`,
     {
       actionId: ACTION.appendValues,
       query: { valueInputOption: "RAW" },
@@ -299,7 +607,7 @@ export async function batchUpdateSyncedEvents(
 
   const now = new Date().toISOString();
   const data = updates.map((u) => ({
-    range: `${SHEET_NAME}!A${u.rowId}:K${u.rowId}`,
+    range: `${SHEET_NAME}!A${u.rowId}:L${u.rowId}`,
     values: [
       [
         u.primary_calendar,
@@ -313,12 +621,12 @@ export async function batchUpdateSyncedEvents(
         u.created_at,
         now,
         now,
+        u.copy_signature,
       ],
     ],
   }));
 
-  await sheetsJson(
-    conn,
+  await sheetsClient(conn).json(
     "POST",
     `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values:batchUpdate`,
     {
@@ -351,32 +659,85 @@ export async function batchDeleteSyncedEventRows(
     },
   }));
 
-  await sheetsJson(
-    conn,
+  await sheetsClient(conn).json(
     "POST",
     `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}:batchUpdate`,
     { actionId: ACTION.batchUpdateSpreadsheet, body: { requests } },
   );
 }
 
-/** Ensure the sheet exists with the correct header row. Idempotent. */
+/** MappingStore backed by the synced_events, sync_state, deleted_events, alert_state and sync_runs tabs of one spreadsheet. */
+export function createSheetsMappingStore(conn: ConnectionVar, spreadsheetId: string): MappingStore {
+  return {
+    kind: "sheets",
+    initSchema: () => initSchema(conn, spreadsheetId),
+    loadSyncedEvents: () => loadSyncedEvents(conn, spreadsheetId),
+    batchInsertSyncedEvents: (records) => batchInsertSyncedEvents(conn, spreadsheetId, records),
+    batchUpdateSyncedEvents: (updates) => batchUpdateSyncedEvents(conn, spreadsheetId, updates),
+    batchDeleteSyncedEventRows: async (rowIds) => {
+      if (rowIds.length === 0) return;
+      const sheetId = await getSheetId(conn, spreadsheetId);
+      await batchDeleteSyncedEventRows(conn, spreadsheetId, sheetId, rowIds);
+    },
+    loadSyncTokens: () => loadSyncTokens(conn, spreadsheetId),
+    saveSyncTokens: (tokens) => saveSyncTokens(conn, spreadsheetId, tokens),
+    clearSyncTokens: () => clearSyncTokens(conn, spreadsheetId),
+    appendTombstones: (tombstones) => appendTombstones(conn, spreadsheetId, tombstones),
+    loadTombstones: () => loadTombstones(conn, spreadsheetId),
+    markTombstonesRestored: (rowIds) => markTombstonesRestored(conn, spreadsheetId, rowIds),
+    loadAlertState: () => loadAlertState(conn, spreadsheetId),
+    saveAlertState: (records) => saveAlertState(conn, spreadsheetId, records),
+    appendSyncRun: (run) => appendSyncRun(conn, spreadsheetId, run),
+    loadSyncRuns: () => loadSyncRuns(conn, spreadsheetId),
+  };
+}
+
+/** Load the rows of the sync_rules sheet, without the header. */
+export async function loadSyncRuleRows(conn: ConnectionVar, spreadsheetId: string): Promise<string[][]> {
+  const data = await sheetsClient(conn).json<ValueRangeResponse>(
+    "GET",
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SYNC_RULES_SHEET_NAME}!A:${columnLetter(SYNC_RULE_HEADERS.length)}`)}`,
+    { actionId: ACTION.getValues },
+  );
+  return (data.values ?? []).slice(1);
+}
+
+/**
+ * Ensure the synced_events, sync_state, deleted_events, sync_rules,
+ * alert_state and sync_runs sheets exist with the correct header rows. Idempotent.
+ */
 export async function initSchema(conn: ConnectionVar, spreadsheetId: string): Promise<void> {
-  const meta = await sheetsJson<SpreadsheetMeta>(
-    conn,
+  await ensureSheet(conn, spreadsheetId, SHEET_NAME, HEADERS, { renameBlankSheet1: true });
+  await ensureSheet(conn, spreadsheetId, SYNC_STATE_SHEET_NAME, SYNC_STATE_HEADERS);
+  await ensureSheet(conn, spreadsheetId, TOMBSTONE_SHEET_NAME, TOMBSTONE_HEADERS);
+  await ensureSheet(conn, spreadsheetId, SYNC_RULES_SHEET_NAME, SYNC_RULE_HEADERS);
+  await ensureSheet(conn, spreadsheetId, ALERT_STATE_SHEET_NAME, ALERT_STATE_HEADERS);
+  await ensureSheet(conn, spreadsheetId, SYNC_RUNS_SHEET_NAME, SYNC_RUNS_HEADERS);
+}
+
+/** Create a sheet tab (or rename a lone blank Sheet1) and write its header row if missing. */
+async function ensureSheet(
+  conn: ConnectionVar,
+  spreadsheetId: string,
+  title: string,
+  headers: string[],
+  opts: { renameBlankSheet1?: boolean } = {},
+): Promise<void> {
+  const meta = await sheetsClient(conn).json<SpreadsheetMeta>(
     "GET",
     `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}`,
     { actionId: ACTION.getSpreadsheet },
   );
-  const existingSheet = meta.sheets?.find((s) => s.properties?.title === SHEET_NAME);
+  const existingSheet = meta.sheets?.find((s) => s.properties?.title === title);
 
   if (!existingSheet) {
     const firstSheet = meta.sheets?.[0];
     if (
+      opts.renameBlankSheet1 &&
       firstSheet?.properties?.title === "Sheet1" &&
       meta.sheets?.length === 1
     ) {
-      await sheetsJson(
-        conn,
+      await sheetsClient(conn).json(
         "POST",
         `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}:batchUpdate`,
         {
@@ -387,7 +748,7 @@ export async function initSchema(conn: ConnectionVar, spreadsheetId: string): Pr
                 updateSheetProperties: {
                   properties: {
                     sheetId: firstSheet.properties?.sheetId,
-                    title: SHEET_NAME,
+                    title,
                   },
                   fields: "title",
                 },
@@ -397,8 +758,7 @@ export async function initSchema(conn: ConnectionVar, spreadsheetId: string): Pr
         },
       );
     } else {
-      await sheetsJson(
-        conn,
+      await sheetsClient(conn).json(
         "POST",
         `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}:batchUpdate`,
         {
@@ -407,7 +767,7 @@ export async function initSchema(conn: ConnectionVar, spreadsheetId: string): Pr
             requests: [
               {
                 addSheet: {
-                  properties: { title: SHEET_NAME },
+                  properties: { title },
                 },
               },
             ],
@@ -418,25 +778,31 @@ export async function initSchema(conn: ConnectionVar, spreadsheetId: string): Pr
   }
 
   // Check if headers exist
-  const headerData = await sheetsJson<ValueRangeResponse>(
-    conn,
+  const headerRange = `${title}!A1:${columnLetter(headers.length)}1`;
+  const headerData = await sheetsClient(conn).json<ValueRangeResponse>(
     "GET",
-    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SHEET_NAME}!A1:K1`)}`,
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(headerRange)}`,
     { actionId: ACTION.getValues },
   );
 
+  // A tab from an older version is missing the columns added since; its
+  // header row is rewritten with them
   const existingHeaders = headerData.values?.[0];
-  if (existingHeaders && existingHeaders[0] === HEADERS[0]) return;
+  if (existingHeaders && existingHeaders[0] === headers[0] && existingHeaders.length >= headers.length) return;
 
   // Write headers
-  await sheetsJson(
-    conn,
+  await sheetsClient(conn).json(
     "PUT",
-    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(`${SHEET_NAME}!A1:K1`)}`,
+    `/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(headerRange)}`,
     {
       actionId: ACTION.updateValues,
       query: { valueInputOption: "RAW" },
-      body: { values: [HEADERS] },
+      body: { values: [headers] },
     },
   );
 }
+
+/** Spreadsheet column letter for a 1-based column count (1 -> A, 11 -> K). Supports up to 26 columns. */
+function columnLetter(count: number): string {
+  return String.fromCharCode(64 + count);
+}
@@ -0,0 +1,229 @@
+/**
+ * Email notification channel.
+ * A minimal SMTP client on node:net / node:tls: implicit TLS on port 465,
+ * STARTTLS whenever the server offers it elsewhere, AUTH PLAIN only over
+ * TLS, and a base64 plain-text body so no line needs dot-stuffing.
+ */
+
+import net from "node:net";
+import tls from "node:tls";
+import { hostname } from "node:os";
+import type { NotificationChannel, NotificationMessage } from "./types.js";
+
+// --- Types ---
+
+export interface SmtpConfig {
+  host: string;
+  /** 465 connects with TLS; any other port upgrades with STARTTLS when offered */
+  port: number;
+  user?: string;
+  password?: string;
+  /** A bare address or a display form such as "Calendar Sync <sync@example.com>" */
+  from: string;
+  to: string[];
+}
+
+interface SmtpReply {
+  code: number;
+  text: string[];
+}
+
+// --- Configuration ---
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+// --- Connection ---
+
+function connect(config: SmtpConfig, secure: boolean): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+      socket.destroy(new Error(`SMTP connection to ${config.host}:${config.port} timed out`)));
+    socket.once("error", reject);
+    socket.once(secure ? "secureConnect" : "connect", () => {
+      socket.off("error", reject);
+      resolve(socket);
+    });
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host });
+    secure.setTimeout(SMTP_TIMEOUT_MS, () => secure.destroy(new Error(`SMTP STARTTLS with ${host} timed out`)));
+    secure.once("error", reject);
+    secure.once("secureConnect", () => {
+      secure.off("error", reject);
+      resolve(secure);
+    });
+  });
+}
+
+/**
+ * Collects complete replies (the line whose code is followed by a space ends
+ * a multi-line reply) from whichever socket is attached.
+ */
+function createReplyReader() {
+  let buffer = "";
+  let text: string[] = [];
+  const replies: SmtpReply[] = [];
+  let failure: Error | undefined;
+  let waiter: ((reply: SmtpReply | Error) => void) | undefined;
+
+  const deliver = () => {
+    if (!waiter) return;
+    const next = replies.shift() ?? failure;
+    if (!next) return;
+    const resolve = waiter;
+    waiter = undefined;
+    resolve(next);
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      text.push(line.slice(4));
+      if (line[3] !== "-") {
+        replies.push({ code: Number(line.slice(0, 3)), text });
+        text = [];
+      }
+    }
+    deliver();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    deliver();
+  };
+  const onClose = () => {
+    failure ??= new Error("SMTP server closed the connection");
+    deliver();
+  };
+
+  return {
+    attach(socket: net.Socket) {
+      socket.on("data", onData).on("error", onError).on("close", onClose);
+    },
+    detach(socket: net.Socket) {
+      socket.off("data", onData).off("error", onError).off("close", onClose);
+    },
+    next(): Promise<SmtpReply> {
+      return new Promise((resolve, reject) => {
+        waiter = (reply) => (reply instanceof Error ? reject(reply) : resolve(reply));
+        deliver();
+      });
+    },
+  };
+}
+
+// --- Message ---
+
+/** Header value on one line: line breaks become spaces, so a title can never start a header of its own. */
+function encodeHeader(value: string): string {
+  const line = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line, "utf8").toString("base64")}?=`;
+}
+
+/** Split "Name <address>" into its parts; a bare address has no name. */
+function parseMailbox(value: string): { name?: string; address: string } {
+  const match = value.trim().match(/^(.*?)\s*<([^<>\s]+)>$/);
+  if (!match) return { address: value.trim() };
+  const name = match[1].replace(/^"(.*)"$/, "$1").trim();
+  return { name: name || undefined, address: match[2] };
+}
+
+/** Build the full message: headers, a blank line, then the base64 body. */
+export function formatMail(config: SmtpConfig, subject: string, body: string): string {
+  const encoded = Buffer.from(body, "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+  const from = parseMailbox(config.from);
+  return [
+    `From: ${from.name ? `${encodeHeader(from.name)} <${from.address}>` : from.address}`,
+    `To: ${config.to.join(", ")}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encoded,
+  ].join("\r\n");
+}
+
+/** Render a message as an email subject and plain-text body. */
+export function renderEmailMessage(message: NotificationMessage): { subject: string; body: string } {
+  const lines: string[] = [];
+  if (message.text) lines.push(message.text, "");
+  for (const field of message.fields ?? []) lines.push(`${field.label}: ${field.value}`);
+  if (message.links?.length) {
+    lines.push("");
+    for (const link of message.links) lines.push(`${link.label}: ${link.url}`);
+  }
+  return { subject: `[${message.severity}] ${message.title}`, body: lines.join("\n").trim() + "\n" };
+}
+
+// --- Client ---
+
+/** Deliver one plain-text mail. Throws with the failing command and reply. */
+export async function sendMail(config: SmtpConfig, subject: string, body: string): Promise<void> {
+  const implicitTls = config.port === 465;
+  let socket = await connect(config, implicitTls);
+  const reader = createReplyReader();
+  reader.attach(socket);
+
+  const command = async (line: string | null, expected: number[]): Promise<SmtpReply> => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await reader.next();
+    if (!expected.includes(reply.code)) {
+      // Name only the verb, so AUTH credentials never reach an error message
+      const verb = line === null ? "greeting" : line.includes("\r\n") ? "message body" : line.split(" ")[0];
+      throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.text.join(" ")}`);
+    }
+    return reply;
+  };
+
+  try {
+    const heloName = hostname() || "localhost";
+    await command(null, [220]);
+    const ehlo = await command(`EHLO ${heloName}`, [250]);
+    if (!implicitTls && ehlo.text.some((t) => t.toUpperCase() === "STARTTLS")) {
+      await command("STARTTLS", [220]);
+      reader.detach(socket);
+      socket = await upgradeToTls(socket, config.host);
+      reader.attach(socket);
+      await command(`EHLO ${heloName}`, [250]);
+    }
+    if (config.user) {
+      if (!(socket instanceof tls.TLSSocket)) {
+        throw new Error(`SMTP server ${config.host} offers no TLS; refusing to send credentials in plain text`);
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ""}`, "utf8").toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+    // The envelope takes the bare address; the display name only goes in the From header
+    await command(`MAIL FROM:<${parseMailbox(config.from).address}>`, [250]);
+    for (const recipient of config.to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await command("DATA", [354]);
+    await command(`${formatMail(config, subject, body)}\r\n.`, [250]);
+    await command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
+
+// --- Channel ---
+
+/** Email channel for one SMTP server and recipient list. */
+export function createEmailChannel(config: SmtpConfig): NotificationChannel {
+  return {
+    name: "email",
+    async send(message) {
+      const { subject, body } = renderEmailMessage(message);
+      await sendMail(config, subject, body);
+    },
+  };
+}
@@ -0,0 +1,613 @@
+/**
+ * SQL MappingStore backends: PostgreSQL for production, SQLite for local runs
+ * and testing. Holds the same tables as the spreadsheet backend (synced_events,
+ * sync_state, deleted_events, alert_state, sync_runs) with stable primary keys as row IDs.
+ * Each store call opens its own connection and closes it before returning,
+ * so nothing outlives the step it runs in.
+ */
+
+import type {
+  AlertStateRecord,
+  MappingStore,
+  SyncedEventRecord,
+  PendingSheetInsert,
+  PendingSheetUpdate,
+  PendingTombstone,
+  SyncRunRecord,
+  SyncTokenState,
+  TombstoneRecord,
+} from "./types.js";
+
+// --- Types ---
+
+export type SqlStoreConfig =
+  | {
+      dialect: "postgres";
+      host: string;
+      port: number;
+      user: string;
+      password: string;
+      database: string;
+    }
+  | { dialect: "sqlite"; path: string };
+
+/** Everything held by a mapping store, as read from another backend. */
+export interface MappingSnapshot {
+  records: SyncedEventRecord[];
+  syncTokens: Record<string, SyncTokenState>;
+  tombstones: TombstoneRecord[];
+}
+
+/** SQL stores also support bulk import, used to migrate off the spreadsheet. */
+export interface SqlMappingStore extends MappingStore {
+  /** Number of rows currently in synced_events. */
+  countSyncedEvents(): Promise<number>;
+  /** Copy a snapshot in one transaction, keeping its timestamps and skipping rows already present. Row IDs are reassigned. */
+  importSnapshot(snapshot: MappingSnapshot): Promise<void>;
+}
+
+type SqlValue = string | number | null;
+
+/** Minimal driver surface shared by pg and node:sqlite. Statements use `?` placeholders. */
+interface SqlClient {
+  query<T>(sql: string, params?: SqlValue[]): Promise<T[]>;
+  run(sql: string, params?: SqlValue[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+// --- Constants ---
+
+/** Rows per multi-row INSERT / IN (...) list — well under both drivers' parameter limits. */
+const CHUNK_SIZE = 500;
+
+const SYNCED_EVENT_COLUMNS = [
+  "primary_calendar",
+  "primary_event_id",
+  "secondary_calendar",
+  "secondary_event_id",
+  "event_summary",
+  "event_start",
+  "event_end",
+  "event_signature",
+  "created_at",
+  "last_updated",
+  "last_checked",
+  "copy_signature",
+];
+
+/** Columns added after their table was first released, by table; initSchema adds them to older tables. */
+const ADDED_COLUMNS: Record<string, Record<string, string>> = {
+  synced_events: { copy_signature: "TEXT NOT NULL DEFAULT ''" },
+  sync_state: { window_end: "TEXT NOT NULL DEFAULT ''" },
+};
+
+const SYNC_STATE_COLUMNS = ["calendar_id", "sync_token", "updated_at", "window_end"];
+
+const ALERT_STATE_COLUMNS = [
+  "fingerprint",
+  "kind",
+  "severity",
+  "title",
+  "detail",
+  "first_seen",
+  "last_seen",
+  "last_sent",
+  "occurrences",
+  "resolved_at",
+];
+
+/** direction_stats, step_durations and throttling are stored as JSON text */
+const SYNC_RUN_COLUMNS = [
+  "workflow_id",
+  "started_at",
+  "finished_at",
+  "status",
+  "duration_ms",
+  "events_fetched",
+  "direction_stats",
+  "step_durations",
+  "throttling",
+  "error",
+];
+
+const TOMBSTONE_COLUMNS = [
+  "deleted_at",
+  "primary_calendar",
+  "primary_event_id",
+  "secondary_calendar",
+  "secondary_event_id",
+  "event_summary",
+  "event_start",
+  "event_end",
+  "event_signature",
+  "created_at",
+  "copy_body",
+  "restored_at",
+];
+
+// --- Connections ---
+
+async function connect(config: SqlStoreConfig): Promise<SqlClient> {
+  if (config.dialect === "sqlite") {
+    const { DatabaseSync } = await import("node:sqlite");
+    const db = new DatabaseSync(config.path);
+    return {
+      query: async <T>(sql: string, params: SqlValue[] = []) =>
+        db.prepare(sql).all(...params) as T[],
+      run: async (sql, params = []) => {
+        db.prepare(sql).run(...params);
+      },
+      close: async () => db.close(),
+    };
+  }
+
+  const { Client } = await import("pg");
+  const client = new Client({
+    host: config.host,
+    port: config.port,
+    user: config.user,
+    password: config.password,
+    database: config.database,
+  });
+  await client.connect();
+
+  // pg numbers its placeholders: rewrite each `?` as $1, $2, ...
+  const numbered = (sql: string) => {
+    let n = 0;
+    return sql.replace(/\?/g, () => `$${++n}`);
+  };
+
+  return {
+    query: async <T>(sql: string, params: SqlValue[] = []) =>
+      (await client.query(numbered(sql), params)).rows as T[],
+    run: async (sql, params = []) => {
+      await client.query(numbered(sql), params);
+    },
+    close: () => client.end(),
+  };
+}
+
+/** Run `fn` on a fresh connection, closing it afterwards. */
+async function withClient<T>(config: SqlStoreConfig, fn: (db: SqlClient) => Promise<T>): Promise<T> {
+  const db = await connect(config);
+  try {
+    return await fn(db);
+  } finally {
+    await db.close();
+  }
+}
+
+/** Run `fn` inside a transaction on a fresh connection. */
+function withTransaction<T>(config: SqlStoreConfig, fn: (db: SqlClient) => Promise<T>): Promise<T> {
+  return withClient(config, async (db) => {
+    await db.run("BEGIN");
+    try {
+      const result = await fn(db);
+      await db.run("COMMIT");
+      return result;
+    } catch (error: unknown) {
+      await db.run("ROLLBACK");
+      throw error;
+    }
+  });
+}
+
+// --- Helpers ---
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function placeholders(count: number): string {
+  return Array(count).fill("?").join(", ");
+}
+
+/** Multi-row INSERT of `rows` (each in `columns` order), chunked. */
+async function insertRows(
+  db: SqlClient,
+  table: string,
+  columns: string[],
+  rows: SqlValue[][],
+  onConflict = "",
+): Promise<void> {
+  for (const batch of chunk(rows, CHUNK_SIZE)) {
+    const values = batch.map(() => `(${placeholders(columns.length)})`).join(", ");
+    await db.run(
+      `INSERT INTO ${table} (${columns.join(", ")}) VALUES ${values} ${onConflict}`,
+      batch.flat(),
+    );
+  }
+}
+
+function schemaStatements(dialect: SqlStoreConfig["dialect"]): string[] {
+  const pk = dialect === "postgres" ? "SERIAL PRIMARY KEY" : "INTEGER PRIMARY KEY AUTOINCREMENT";
+  return [
+    `CREATE TABLE IF NOT EXISTS synced_events (
+      id ${pk},
+      primary_calendar TEXT NOT NULL,
+      primary_event_id TEXT NOT NULL,
+      secondary_calendar TEXT NOT NULL,
+      secondary_event_id TEXT NOT NULL,
+      event_summary TEXT NOT NULL DEFAULT '',
+      event_start TEXT NOT NULL DEFAULT '',
+      event_end TEXT NOT NULL DEFAULT '',
+      event_signature TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL,
+      last_updated TEXT NOT NULL,
+      last_checked TEXT NOT NULL,
+      copy_signature TEXT NOT NULL DEFAULT '',
+      UNIQUE (primary_calendar, primary_event_id, secondary_calendar)
+    )`,
+    `CREATE TABLE IF NOT EXISTS sync_state (
+      calendar_id TEXT PRIMARY KEY,
+      sync_token TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      window_end TEXT NOT NULL DEFAULT ''
+    )`,
+    `CREATE TABLE IF NOT EXISTS deleted_events (
+      id ${pk},
+      deleted_at TEXT NOT NULL,
+      primary_calendar TEXT NOT NULL,
+      primary_event_id TEXT NOT NULL,
+      secondary_calendar TEXT NOT NULL,
+      secondary_event_id TEXT NOT NULL,
+      event_summary TEXT NOT NULL DEFAULT '',
+      event_start TEXT NOT NULL DEFAULT '',
+      event_end TEXT NOT NULL DEFAULT '',
+      event_signature TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL DEFAULT '',
+      copy_body TEXT NOT NULL DEFAULT '',
+      restored_at TEXT NOT NULL DEFAULT ''
+    )`,
+    `CREATE TABLE IF NOT EXISTS alert_state (
+      fingerprint TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      severity TEXT NOT NULL,
+      title TEXT NOT NULL DEFAULT '',
+      detail TEXT NOT NULL DEFAULT '',
+      first_seen TEXT NOT NULL,
+      last_seen TEXT NOT NULL,
+      last_sent TEXT NOT NULL DEFAULT '',
+      occurrences INTEGER NOT NULL DEFAULT 0,
+      resolved_at TEXT NOT NULL DEFAULT ''
+    )`,
+    `CREATE TABLE IF NOT EXISTS sync_runs (
+      id ${pk},
+      workflow_id TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      status TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL DEFAULT 0,
+      events_fetched INTEGER NOT NULL DEFAULT 0,
+      direction_stats TEXT NOT NULL DEFAULT '{}',
+      step_durations TEXT NOT NULL DEFAULT '{}',
+      throttling TEXT NOT NULL DEFAULT '{}',
+      error TEXT NOT NULL DEFAULT ''
+    )`,
+  ];
+}
+
+/** Column names of `table` as it exists in the database. */
+async function tableColumns(db: SqlClient, dialect: SqlStoreConfig["dialect"], table: string): Promise<Set<string>> {
+  const rows = dialect === "postgres"
+    ? await db.query<{ name: string }>(
+      "SELECT column_name AS name FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = ?",
+      [table],
+    )
+    : await db.query<{ name: string }>("SELECT name FROM pragma_table_info(?)", [table]);
+  return new Set(rows.map((row) => row.name));
+}
+
+/** Identity of a tombstone: one copy deleted at one time. */
+function tombstoneKey(t: Pick<TombstoneRecord, "deleted_at" | "primary_calendar" | "primary_event_id" | "secondary_calendar">): string {
+  return [t.deleted_at, t.primary_calendar, t.primary_event_id, t.secondary_calendar].join("\n");
+}
+
+const UPSERT_SYNC_TOKEN =
+  "ON CONFLICT (calendar_id) DO UPDATE SET sync_token = excluded.sync_token, updated_at = excluded.updated_at, " +
+  "window_end = excluded.window_end";
+
+// --- Store ---
+
+/** MappingStore backed by PostgreSQL or SQLite. */
+export function createSqlMappingStore(config: SqlStoreConfig): SqlMappingStore {
+  return {
+    kind: config.dialect,
+
+    initSchema: () =>
+      withClient(config, async (db) => {
+        for (const statement of schemaStatements(config.dialect)) {
+          await db.run(statement);
+        }
+        for (const [table, added] of Object.entries(ADDED_COLUMNS)) {
+          const columns = await tableColumns(db, config.dialect, table);
+          for (const [column, definition] of Object.entries(added)) {
+            if (!columns.has(column)) {
+              await db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+            }
+          }
+        }
+      }),
+
+    loadSyncedEvents: () =>
+      withClient(config, async (db) => {
+        const rows = await db.query<SyncedEventRecord>(
+          `SELECT id, ${SYNCED_EVENT_COLUMNS.join(", ")} FROM synced_events ORDER BY id`,
+        );
+        return rows.map((row) => ({ ...row, id: Number(row.id) }));
+      }),
+
+    batchInsertSyncedEvents: async (records: PendingSheetInsert[]) => {
+      if (records.length === 0) return;
+      const now = new Date().toISOString();
+      const rows = records.map((r) => [
+        r.primary_calendar,
+        r.primary_event_id,
+        r.secondary_calendar,
+        r.secondary_event_id,
+        r.event_summary,
+        r.event_start,
+        r.event_end,
+        r.event_signature,
+        now,
+        now,
+        now,
+        r.copy_signature,
+      ]);
+      // A mapping row that already exists was written by an earlier attempt of this step.
+      await withTransaction(config, (db) =>
+        insertRows(db, "synced_events", SYNCED_EVENT_COLUMNS, rows, "ON CONFLICT DO NOTHING"),
+      );
+    },
+
+    batchUpdateSyncedEvents: async (updates: PendingSheetUpdate[]) => {
+      if (updates.length === 0) return;
+      const now = new Date().toISOString();
+      await withTransaction(config, async (db) => {
+        for (const u of updates) {
+          await db.run(
+            `UPDATE synced_events SET
+              primary_calendar = ?, primary_event_id = ?, secondary_calendar = ?, secondary_event_id = ?,
+              event_summary = ?, event_start = ?, event_end = ?, event_signature = ?,
+              created_at = ?, last_updated = ?, last_checked = ?, copy_signature = ?
+            WHERE id = ?`,
+            [
+              u.primary_calendar,
+              u.primary_event_id,
+              u.secondary_calendar,
+              u.secondary_event_id,
+              u.event_summary,
+              u.event_start,
+              u.event_end,
+              u.event_signature,
+              u.created_at,
+              now,
+              now,
+              u.copy_signature,
+              u.rowId,
+            ],
+          );
+        }
+      });
+    },
+
+    batchDeleteSyncedEventRows: async (rowIds: number[]) => {
+      if (rowIds.length === 0) return;
+      await withTransaction(config, async (db) => {
+        for (const ids of chunk(rowIds, CHUNK_SIZE)) {
+          await db.run(`DELETE FROM synced_events WHERE id IN (${placeholders(ids.length)})`, ids);
+        }
+      });
+    },
+
+    loadSyncTokens: () =>
+      withClient(config, async (db) => {
+        const rows = await db.query<{ calendar_id: string; sync_token: string; window_end: string }>(
+          "SELECT calendar_id, sync_token, window_end FROM sync_state",
+        );
+        const tokens: Record<string, SyncTokenState> = {};
+        for (const row of rows) {
+          if (row.sync_token) tokens[row.calendar_id] = { token: row.sync_token, windowEnd: row.window_end };
+        }
+        return tokens;
+      }),
+
+    saveSyncTokens: async (tokens: Record<string, SyncTokenState>) => {
+      const entries = Object.entries(tokens);
+      if (entries.length === 0) return;
+      const now = new Date().toISOString();
+      await withTransaction(config, (db) =>
+        insertRows(
+          db,
+          "sync_state",
+          SYNC_STATE_COLUMNS,
+          entries.map(([calendarId, state]) => [calendarId, state.token, now, state.windowEnd]),
+          UPSERT_SYNC_TOKEN,
+        ),
+      );
+    },
+
+    clearSyncTokens: () =>
+      withClient(config, async (db) => {
+        await db.run("DELETE FROM sync_state");
+      }),
+
+    appendTombstones: async (tombstones: PendingTombstone[]) => {
+      if (tombstones.length === 0) return;
+      const now = new Date().toISOString();
+      const rows = tombstones.map((t) => [
+        now,
+        t.primary_calendar,
+        t.primary_event_id,
+        t.secondary_calendar,
+        t.secondary_event_id,
+        t.event_summary,
+        t.event_start,
+        t.event_end,
+        t.event_signature,
+        t.created_at,
+        t.copy_body,
+        "",
+      ]);
+      await withTransaction(config, (db) => insertRows(db, "deleted_events", TOMBSTONE_COLUMNS, rows));
+    },
+
+    loadTombstones: () =>
+      withClient(config, async (db) => {
+        const rows = await db.query<TombstoneRecord>(
+          `SELECT id, ${TOMBSTONE_COLUMNS.join(", ")} FROM deleted_events ORDER BY id`,
+        );
+        return rows.map((row) => ({ ...row, id: Number(row.id) }));
+      }),
+
+    markTombstonesRestored: async (rowIds: number[]) => {
+      if (rowIds.length === 0) return;
+      const now = new Date().toISOString();
+      await withTransaction(config, async (db) => {
+        for (const ids of chunk(rowIds, CHUNK_SIZE)) {
+          await db.run(
+            `UPDATE deleted_events SET restored_at = ? WHERE id IN (${placeholders(ids.length)})`,
+            [now, ...ids],
+          );
+        }
+      });
+    },
+
+    loadAlertState: () =>
+      withClient(config, async (db) => {
+        const rows = await db.query<AlertStateRecord>(
+          `SELECT ${ALERT_STATE_COLUMNS.join(", ")} FROM alert_state ORDER BY first_seen`,
+        );
+        return rows.map((row) => ({ ...row, occurrences: Number(row.occurrences) }));
+      }),
+
+    saveAlertState: (records: AlertStateRecord[]) =>
+      withTransaction(config, async (db) => {
+        await db.run("DELETE FROM alert_state");
+        await insertRows(
+          db,
+          "alert_state",
+          ALERT_STATE_COLUMNS,
+          records.map((r) => [
+            r.fingerprint,
+            r.kind,
+            r.severity,
+            r.title,
+            r.detail,
+            r.first_seen,
+            r.last_seen,
+            r.last_sent,
+            r.occurrences,
+            r.resolved_at,
+          ]),
+        );
+      }),
+
+    appendSyncRun: (run: SyncRunRecord) =>
+      withTransaction(config, (db) =>
+        insertRows(db, "sync_runs", SYNC_RUN_COLUMNS, [[
+          run.workflow_id,
+          run.started_at,
+          run.finished_at,
+          run.status,
+          run.duration_ms,
+          run.events_fetched,
+          JSON.stringify(run.direction_stats),
+          JSON.stringify(run.step_durations),
+          JSON.stringify(run.throttling),
+          run.error,
+        ]]),
+      ),
+
+    loadSyncRuns: () =>
+      withClient(config, async (db) => {
+        const rows = await db.query<Record<string, string | number>>(
+          `SELECT ${SYNC_RUN_COLUMNS.join(", ")} FROM sync_runs ORDER BY id`,
+        );
+        return rows.map((row) => ({
+          workflow_id: String(row.workflow_id),
+          started_at: String(row.started_at),
+          finished_at: String(row.finished_at),
+          status: row.status as SyncRunRecord["status"],
+          duration_ms: Number(row.duration_ms),
+          events_fetched: Number(row.events_fetched),
+          direction_stats: JSON.parse(String(row.direction_stats)),
+          step_durations: JSON.parse(String(row.step_durations)),
+          throttling: JSON.parse(String(row.throttling)),
+          error: String(row.error),
+        }));
+      }),
+
+    countSyncedEvents: () =>
+      withClient(config, async (db) => {
+        const [row] = await db.query<{ count: number | string }>(
+          "SELECT COUNT(*) AS count FROM synced_events",
+        );
+        return Number(row?.count ?? 0);
+      }),
+
+    importSnapshot: (snapshot: MappingSnapshot) =>
+      withTransaction(config, async (db) => {
+        await insertRows(
+          db,
+          "synced_events",
+          SYNCED_EVENT_COLUMNS,
+          snapshot.records.map((r) => [
+            r.primary_calendar,
+            r.primary_event_id,
+            r.secondary_calendar,
+            r.secondary_event_id,
+            r.event_summary,
+            r.event_start,
+            r.event_end,
+            r.event_signature,
+            r.created_at,
+            r.last_updated,
+            r.last_checked,
+            r.copy_signature,
+          ]),
+          "ON CONFLICT DO NOTHING",
+        );
+
+        const now = new Date().toISOString();
+        await insertRows(
+          db,
+          "sync_state",
+          SYNC_STATE_COLUMNS,
+          Object.entries(snapshot.syncTokens).map(([calendarId, state]) => [calendarId, state.token, now, state.windowEnd]),
+          UPSERT_SYNC_TOKEN,
+        );
+
+        // Tombstones have no natural key in the table, so ones an earlier import
+        // (or a rerun with force) already wrote are skipped here
+        const imported = new Set(
+          (await db.query<TombstoneRecord>(
+            "SELECT deleted_at, primary_calendar, primary_event_id, secondary_calendar FROM deleted_events",
+          )).map(tombstoneKey),
+        );
+        await insertRows(
+          db,
+          "deleted_events",
+          TOMBSTONE_COLUMNS,
+          snapshot.tombstones.filter((t) => !imported.has(tombstoneKey(t))).map((t) => [
+            t.deleted_at,
+            t.primary_calendar,
+            t.primary_event_id,
+            t.secondary_calendar,
+            t.secondary_event_id,
+            t.event_summary,
+            t.event_start,
+            t.event_end,
+            t.event_signature,
+            t.created_at,
+            t.copy_body,
+            t.restored_at,
+          ]),
+        );
+      }),
+  };
+}
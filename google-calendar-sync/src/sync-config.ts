@@ -0,0 +1,193 @@
+/**
+ * Sync configuration helpers: resolve the list of calendars from project
+ * variables and expand it into the directed pairs a run should process.
+ */
+
+import type { CalendarConfig, ConflictPolicy, PrivacyLevel, RecurrenceMode, SyncMode, SyncPair } from "./types.js";
+
+const PRIVACY_LEVELS: PrivacyLevel[] = ["full", "title-only", "busy-only"];
+const CONFLICT_POLICIES: ConflictPolicy[] = ["source", "latest", "review"];
+
+/** Short label for the calendar at `index` ("a", "b", ...), used in step names. */
+export function calendarLabel(index: number): string {
+  return String.fromCharCode(97 + index);
+}
+
+/** Validate a privacy level, defaulting to "full". `source` names the setting in errors. */
+export function resolvePrivacyLevel(value: string | undefined, source: string): PrivacyLevel {
+  const level = (value || "full").trim().toLowerCase() as PrivacyLevel;
+  if (!PRIVACY_LEVELS.includes(level)) {
+    throw new Error(`Unknown privacy level "${value}" in ${source} (expected ${PRIVACY_LEVELS.join(", ")})`);
+  }
+  return level;
+}
+
+/**
+ * Resolve the calendars to sync.
+ * CALENDARS (a JSON array of `{ "id": "...", "prefix": "[Work]", "privacy": "busy-only" }`)
+ * takes precedence; otherwise the legacy CALENDAR_A_* / CALENDAR_B_* values are used.
+ * A missing prefix defaults to the calendar's upper-cased label, e.g. "[A]",
+ * and a missing privacy level to "full".
+ */
+export function resolveCalendars(vars: Record<string, unknown>): CalendarConfig[] {
+  const raw = vars.CALENDARS as string | undefined;
+
+  let entries: Array<{ id?: string; prefix?: string; privacy?: string }>;
+  if (raw && raw.trim() !== "") {
+    try {
+      entries = JSON.parse(raw) as Array<{ id?: string; prefix?: string; privacy?: string }>;
+    } catch (error: unknown) {
+      throw new Error(`CALENDARS is not valid JSON: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(entries)) {
+      throw new Error("CALENDARS must be a JSON array of { id, prefix } objects");
+    }
+  } else {
+    entries = [
+      {
+        id: vars.CALENDAR_A_ID as string,
+        prefix: vars.CALENDAR_A_PREFIX as string | undefined,
+        privacy: vars.CALENDAR_A_PRIVACY as string | undefined,
+      },
+      {
+        id: vars.CALENDAR_B_ID as string,
+        prefix: vars.CALENDAR_B_PREFIX as string | undefined,
+        privacy: vars.CALENDAR_B_PRIVACY as string | undefined,
+      },
+    ];
+  }
+
+  if (entries.length < 2) {
+    throw new Error(`At least two calendars are required, got ${entries.length}`);
+  }
+  if (entries.length > 26) {
+    throw new Error(`At most 26 calendars are supported, got ${entries.length}`);
+  }
+
+  const calendars = entries.map((entry, index) => {
+    if (!entry?.id) {
+      throw new Error(`Calendar ${calendarLabel(index).toUpperCase()} is missing an id`);
+    }
+    return {
+      id: entry.id,
+      prefix: entry.prefix ?? `[${calendarLabel(index).toUpperCase()}]`,
+      privacy: resolvePrivacyLevel(entry.privacy, `calendar ${calendarLabel(index).toUpperCase()}`),
+    };
+  });
+
+  const ids = new Set(calendars.map((c) => c.id));
+  if (ids.size !== calendars.length) {
+    throw new Error("CALENDARS contains the same calendar ID more than once");
+  }
+
+  return calendars;
+}
+
+/** Parse SYNC_MODE, defaulting to a full mesh. */
+export function resolveSyncMode(value: string | undefined): SyncMode {
+  const mode = (value ?? "mesh").trim().toLowerCase();
+  if (mode !== "mesh" && mode !== "hub") {
+    throw new Error(`Unknown SYNC_MODE "${value}" (expected "mesh" or "hub")`);
+  }
+  return mode;
+}
+
+/** Parse RECURRENCE_MODE, defaulting to copying each occurrence. */
+export function resolveRecurrenceMode(value: string | undefined): RecurrenceMode {
+  const mode = (value || "instances").trim().toLowerCase();
+  if (mode !== "instances" && mode !== "series") {
+    throw new Error(`Unknown RECURRENCE_MODE "${value}" (expected "instances" or "series")`);
+  }
+  return mode;
+}
+
+/** Parse CONFLICT_POLICY, defaulting to the original winning. */
+export function resolveConflictPolicy(value: string | undefined): ConflictPolicy {
+  const policy = (value || "source").trim().toLowerCase() as ConflictPolicy;
+  if (!CONFLICT_POLICIES.includes(policy)) {
+    throw new Error(`Unknown CONFLICT_POLICY "${value}" (expected ${CONFLICT_POLICIES.join(", ")})`);
+  }
+  return policy;
+}
+
+/**
+ * Parse PRIVACY_LEVELS, a JSON object of per-direction overrides keyed by
+ * direction label, e.g. `{ "b-to-a": "busy-only" }`.
+ */
+export function resolvePrivacyOverrides(value: string | undefined): Record<string, PrivacyLevel> {
+  if (!value || value.trim() === "") return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error: unknown) {
+    throw new Error(`PRIVACY_LEVELS is not valid JSON: ${(error as Error).message}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error('PRIVACY_LEVELS must be a JSON object like { "b-to-a": "busy-only" }');
+  }
+
+  const overrides: Record<string, PrivacyLevel> = {};
+  for (const [label, level] of Object.entries(parsed as Record<string, string>)) {
+    overrides[label] = resolvePrivacyLevel(level, `PRIVACY_LEVELS.${label}`);
+  }
+  return overrides;
+}
+
+/**
+ * Expand calendars into directed sync pairs.
+ * In mesh mode every ordered pair is synced. In hub mode only hub <-> spoke
+ * pairs are synced; the hub defaults to the first calendar.
+ * A direction's privacy comes from `privacyOverrides[label]`, else its source calendar.
+ */
+export function buildSyncPairs(
+  calendars: CalendarConfig[],
+  mode: SyncMode,
+  hubCalendarId?: string,
+  privacyOverrides: Record<string, PrivacyLevel> = {},
+): SyncPair[] {
+  const hubId = hubCalendarId || calendars[0].id;
+  if (mode === "hub" && !calendars.some((c) => c.id === hubId)) {
+    throw new Error(`HUB_CALENDAR_ID ${hubId} is not one of the synced calendars`);
+  }
+
+  const pairs: SyncPair[] = [];
+  calendars.forEach((source, i) => {
+    calendars.forEach((target, j) => {
+      if (i === j) return;
+      if (mode === "hub" && source.id !== hubId && target.id !== hubId) return;
+      const label = `${calendarLabel(i)}-to-${calendarLabel(j)}`;
+      pairs.push({
+        label,
+        sourceCalendarId: source.id,
+        targetCalendarId: target.id,
+        prefix: source.prefix,
+        privacy: privacyOverrides[label] ?? source.privacy,
+      });
+    });
+  });
+
+  const unknown = Object.keys(privacyOverrides).filter((label) => !pairs.some((p) => p.label === label));
+  if (unknown.length > 0) {
+    throw new Error(`PRIVACY_LEVELS names directions that are not synced: ${unknown.join(", ")}`);
+  }
+
+  return pairs;
+}
+
+/**
+ * Mark the directions named by TWO_WAY_SYNC as two-way: "true" for every
+ * direction, or a comma-separated list of direction labels like "a-to-b,b-to-a".
+ */
+export function applyTwoWaySync(pairs: SyncPair[], value: string | undefined): SyncPair[] {
+  const setting = (value ?? "").trim().toLowerCase();
+  if (setting === "" || setting === "false") return pairs;
+  if (setting === "true") return pairs.map((pair) => ({ ...pair, twoWay: true }));
+
+  const labels = new Set(setting.split(",").map((label) => label.trim()).filter(Boolean));
+  const unknown = [...labels].filter((label) => !pairs.some((p) => p.label === label));
+  if (unknown.length > 0) {
+    throw new Error(`TWO_WAY_SYNC names directions that are not synced: ${unknown.join(", ")}`);
+  }
+  return pairs.map((pair) => (labels.has(pair.label) ? { ...pair, twoWay: true } : pair));
+}
@@ -9,145 +9,783 @@ import { SolidActions, defineWorkflow } from "@solidactions/sdk";
 import type { ConnectionVar } from "@solidactions/sdk";
 import type {
   GoogleCalendarEvent,
+  SyncAnalysis,
   SyncedEventRecord,
   SyncStats,
+  ThrottleStats,
   SyncDirectionResult,
   OrphanDetectionResult,
   PendingSheetInsert,
   PendingSheetUpdate,
   PendingSheetDelete,
+  CalendarConfig,
+  SyncMode,
+  SyncPair,
+  PairStats,
+  EventListing,
+  OrphanDeletionLimits,
+  MappingStore,
+  PrivacyLevel,
+  RecurrenceMode,
+  SyncRule,
+  ConflictPolicy,
+  CopyEditAnalysis,
+  EditConflict,
+  Notifier,
+  SyncOperation,
+  SyncFailure,
+  SyncedItem,
+  SyncChanges,
+  SyncRunRecord,
+  PlannedChange,
+  SyncTokenState,
 } from "./types.js";
 import {
   fetchEvents,
-  createEvent,
+  fetchEventChanges,
+  createEventWithId,
   updateEvent,
   deleteEvent,
+  getEvent,
+  GoogleCalendarError,
 } from "./google-calendar.js";
-import {
-  loadSyncedEvents,
-  batchInsertSyncedEvents,
-  batchUpdateSyncedEvents,
-  batchDeleteSyncedEventRows,
-  getSheetId,
-} from "./sheets.js";
+import type { CalendarEventBody } from "./google-calendar.js";
+import { createMappingStore } from "./mapping-store.js";
+import { createRateLimitedExecutor, emptyThrottleStats, mergeThrottleStats } from "./rate-limit.js";
+import type { RateLimitedExecutor } from "./rate-limit.js";
+import { loadSyncRuleRows } from "./sheets.js";
+import { checkRuleDirections, resolveSyncRules, rulesForDirection, rulesFromSheetRows } from "./sync-rules.js";
 import {
   computeSignature,
+  computeCopySignature,
   analyzeEvents,
+  detectCopyEdits,
+  copyMatchesOriginal,
+  applyCopyEdit,
   buildSyncedEventBody,
+  copyEventId,
+  extractRestorableBody,
+  getDateString,
+  instanceIdSuffix,
+  parseInstanceId,
+  CANCELLED_SIGNATURE,
 } from "./event-utils.js";
-import { sendTelegramError } from "./telegram.js";
+import { resolveNotifier } from "./notifier.js";
+import { deliverAlerts, normalizeAlertText, resolveAlertPolicy } from "./alerting.js";
+import type { AlertPolicy, RaisedAlert } from "./alerting.js";
+import {
+  calendarLabel,
+  resolveCalendars,
+  resolveSyncMode,
+  buildSyncPairs,
+  resolvePrivacyOverrides,
+  resolveRecurrenceMode,
+  resolveConflictPolicy,
+  applyTwoWaySync,
+} from "./sync-config.js";
 
 // --- Types ---
 
+export interface SyncInput {
+  /** Allow an orphan cleanup that exceeds MAX_ORPHAN_DELETIONS / MAX_ORPHAN_DELETION_PERCENT */
+  confirmLargeCleanup?: boolean;
+  /** Conflict policy for this run only, e.g. "source" to settle conflicts flagged for review */
+  conflictPolicy?: ConflictPolicy;
+  /** "verbose" adds `changes`, every copy created, updated or deleted; default "summary" */
+  response?: "summary" | "verbose";
+  /** Read the calendars and the mapping, write nothing, and return the `plan` */
+  dryRun?: boolean;
+}
+
 export interface SyncOutput {
-  aToBStats: SyncStats;
-  bToAStats: SyncStats;
-  deletionStats: { deleted: number; errors: number };
-  eventsA: number;
-  eventsB: number;
+  mode: SyncMode;
+  /** One entry per synced direction, in processing order */
+  pairStats: PairStats[];
+  deletionStats: {
+    found: number;
+    deleted: number;
+    errors: number;
+    /** Set when the mass-deletion circuit breaker stopped the cleanup */
+    blockedReason?: string;
+  };
+  /** Every failed Calendar write, across all directions and the cleanup; for dry runs, the failed reads */
+  failures: SyncFailure[];
+  /** Verbose responses only: the copies each direction and the cleanup changed */
+  changes?: SyncChanges;
+  /** Dry runs only: every Calendar write the run would make. The counts above are the planned ones */
+  plan?: PlannedChange[];
+  /** Events fetched per calendar ID (only changed events for incremental listings) */
+  eventsFetched: Record<string, number>;
+  /** Whether each calendar was listed in full or incrementally this run */
+  fetchModes: Record<string, EventListing["mode"]>;
+  /** Calendars whose listing hit MAX_EVENTS before the last page */
+  truncatedCalendars: string[];
+  /** Calendars whose fetch failed this run */
+  fetchFailures: string[];
+  /** Calendars skipped by orphan detection because their fetch failed or was truncated */
+  orphanDetectionSkipped: string[];
+  /** Rate limiting seen on Calendar writes across all directions and the cleanup */
+  throttling: ThrottleStats;
+  /** Two-way directions: copies and originals that both changed, across all directions */
+  conflicts: EditConflict[];
   sheetRecords: number;
 }
 
+/**
+ * Published with SolidActions.setEvent under PROGRESS_EVENT after every
+ * chunk, so callers can follow a long run with SolidActions.getEvent.
+ */
+export interface SyncProgress {
+  phase: "sync" | "orphans";
+  /** Direction label for the sync phase, e.g. "a-to-b" */
+  direction?: string;
+  operation: SyncOperation;
+  chunk: number;
+  totalChunks: number;
+  /** Totals for the direction (sync) or the cleanup (orphans) so far */
+  stats: SyncStats;
+}
+
+export const PROGRESS_EVENT = "progress";
+
 // --- Helpers ---
 
+/** Events per durable step; a replay resumes after the last finished chunk */
+const CHUNK_SIZE = 25;
+/** Starting concurrency for Calendar writes; the executor adapts it between 1 and MAX_CONCURRENCY */
 const CONCURRENCY = 5;
+const MAX_CONCURRENCY = 10;
 const BATCH_DELAY_MS = 1000;
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 32000;
+const MIN_ROWS_FOR_PERCENT_LIMIT = 10;
+/** Items listed in one alert; the rest are counted */
+const MAX_ALERT_ITEMS = 20;
+/** Characters of an error body kept in SyncOutput.failures */
+const MAX_ERROR_BODY = 500;
+
+function chunkItems<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+/** Runs the workflow's durable steps and adds up the time spent in each. */
+interface StepTimer {
+  runStep<T>(fn: () => Promise<T>, options: { name: string }): Promise<T>;
+  /** Milliseconds per step name, with chunk numbers stripped */
+  durations: Record<string, number>;
+}
 
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * The clock is read inside each step, so the duration is recorded with the
+ * step's result and a replay adds up the same numbers.
+ */
+function createStepTimer(): StepTimer {
+  const durations: Record<string, number> = {};
+  return {
+    durations,
+    async runStep<T>(fn: () => Promise<T>, options: { name: string }): Promise<T> {
+      const { value, ms }: { value: T; ms: number } = await SolidActions.runStep(
+        async () => {
+          const start = Date.now();
+          const value = await fn();
+          return { value, ms: Date.now() - start };
+        },
+        options,
+      );
+      const key = options.name.replace(/-\d+$/, "");
+      durations[key] = (durations[key] ?? 0) + ms;
+      return value;
+    },
+  };
 }
 
-async function processInBatches<T, R>(
-  items: T[],
-  batchSize: number,
-  fn: (item: T) => Promise<R>,
-): Promise<PromiseSettledResult<R>[]> {
-  const results: PromiseSettledResult<R>[] = [];
-  for (let i = 0; i < items.length; i += batchSize) {
-    if (i > 0) await delay(BATCH_DELAY_MS);
-    const batch = items.slice(i, i + batchSize);
-    const batchResults = await Promise.allSettled(batch.map(fn));
-    results.push(...batchResults);
+/**
+ * Append the run to sync_runs. Never throws: without the sync_runs tab or
+ * table (a store initialized before it existed) only the history is lost.
+ */
+async function recordSyncRun(
+  store: MappingStore,
+  run: Omit<SyncRunRecord, "finished_at" | "duration_ms">,
+): Promise<void> {
+  const finishedAt = new Date();
+  try {
+    await store.appendSyncRun({
+      ...run,
+      finished_at: finishedAt.toISOString(),
+      duration_ms: finishedAt.getTime() - Date.parse(run.started_at),
+    });
+  } catch (error: unknown) {
+    console.error(`Failed to record the run in sync_runs (run init-database): ${(error as Error).message}`);
   }
-  return results;
 }
 
-function getDateString(dt: GoogleCalendarEvent["start"]): string {
-  if (!dt) return "";
-  if ("dateTime" in dt) return dt.dateTime;
-  if ("date" in dt) return dt.date;
-  return "";
+/** Turn a pair label like "a-to-b" into "A -> B" for logs and alerts. */
+function formatPairLabel(label: string, arrow = "->"): string {
+  const [source, target] = label.split("-to-");
+  return `Calendar ${source.toUpperCase()} ${arrow} ${target.toUpperCase()}`;
 }
 
-// --- Step Functions ---
+/** Build the mapping row for an original and its copy. */
+function mappingRow(
+  event: GoogleCalendarEvent,
+  sourceCalendarId: string,
+  targetCalendarId: string,
+  copyId: string,
+  signature: string,
+  copySignature: string,
+): PendingSheetInsert {
+  return {
+    primary_calendar: sourceCalendarId,
+    primary_event_id: event.id,
+    secondary_calendar: targetCalendarId,
+    secondary_event_id: copyId,
+    event_summary: event.summary ?? "",
+    event_start: getDateString(event.start),
+    event_end: getDateString(event.end),
+    event_signature: signature,
+    copy_signature: copySignature,
+  };
+}
 
-async function syncDirection(
+/** Record a failed Calendar write with the status and body of its error. */
+function syncFailure(
+  direction: string,
+  operation: SyncOperation,
+  sourceEventId: string,
+  summary: string | undefined,
+  reason: unknown,
+): SyncFailure {
+  const error = reason instanceof GoogleCalendarError ? reason.body : (reason as Error)?.message ?? String(reason);
+  return {
+    direction,
+    operation,
+    sourceEventId,
+    summary: summary ?? "",
+    status: reason instanceof GoogleCalendarError ? reason.status : 0,
+    error: error.slice(0, MAX_ERROR_BODY),
+  };
+}
+
+function syncedItem(direction: string, event: GoogleCalendarEvent, copyId: string): SyncedItem {
+  return {
+    direction,
+    sourceEventId: event.id,
+    copyEventId: copyId,
+    summary: event.summary ?? "",
+    start: getDateString(event.start),
+  };
+}
+
+function emptyChanges(): SyncChanges {
+  return { created: [], updated: [], deleted: [] };
+}
+
+/** Rewrite of an existing mapping row that only records the copy's current signature. */
+function rebaselineRow(dbRecord: SyncedEventRecord, copy: GoogleCalendarEvent): PendingSheetUpdate {
+  return {
+    rowId: dbRecord.id,
+    primary_calendar: dbRecord.primary_calendar,
+    primary_event_id: dbRecord.primary_event_id,
+    secondary_calendar: dbRecord.secondary_calendar,
+    secondary_event_id: dbRecord.secondary_event_id,
+    event_summary: dbRecord.event_summary,
+    event_start: dbRecord.event_start,
+    event_end: dbRecord.event_end,
+    event_signature: dbRecord.event_signature,
+    created_at: dbRecord.created_at,
+    copy_signature: computeCopySignature(copy),
+  };
+}
+
+/** Whether a Calendar call failed because the event is gone. */
+function isGone(error: unknown): boolean {
+  return error instanceof GoogleCalendarError && (error.code === 404 || error.code === 410);
+}
+
+/** Tolerate a copy occurrence that is already gone. */
+async function deleteIfPresent(gcal: ConnectionVar, calendarId: string, eventId: string): Promise<void> {
+  try {
+    await deleteEvent(gcal, calendarId, eventId);
+  } catch (error: unknown) {
+    if (!(error instanceof GoogleCalendarError) || error.code !== 404) throw error;
+  }
+}
+
+// --- Planning ---
+
+/** Events read for a plan, by ID. */
+interface EventReads {
+  events: Map<string, GoogleCalendarEvent>;
+  /** Reads that failed for another reason than the event being gone */
+  failed: Map<string, unknown>;
+  throttling: ThrottleStats;
+}
+
+/**
+ * Current events by ID on one calendar: taken from its listing when it has
+ * them, read otherwise. Events that are gone are left out; any other failed
+ * read is kept in `failed` so it can be reported.
+ */
+async function readEvents(
   gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  calendarId: string,
+  listed: GoogleCalendarEvent[],
+  eventIds: string[],
+): Promise<EventReads> {
+  const events = new Map(listed.map((e) => [e.id, e]));
+  const failed = new Map<string, unknown>();
+  const missing = [...new Set(eventIds)].filter((id) => !events.has(id));
+  const { results, throttling } = await executor.run(missing, (id) => getEvent(gcal, calendarId, id));
+  for (const [index, result] of results.entries()) {
+    if (result.status === "fulfilled") events.set(missing[index], result.value);
+    else if (!isGone(result.reason)) failed.set(missing[index], result.reason);
+  }
+  return { events, failed, throttling };
+}
+
+function analyzeDirection(
   sourceEvents: GoogleCalendarEvent[],
   syncedRecords: SyncedEventRecord[],
-  sourceCalendarId: string,
-  targetCalendarId: string,
-  prefix: string,
-): Promise<SyncDirectionResult> {
-  const analysis = analyzeEvents(
-    sourceEvents,
-    syncedRecords,
-    sourceCalendarId,
-    targetCalendarId,
+  pair: SyncPair,
+  rules: SyncRule[],
+  seriesMode: boolean,
+): SyncAnalysis {
+  return analyzeEvents(sourceEvents, syncedRecords, pair.sourceCalendarId, pair.targetCalendarId, {
+    privacy: pair.privacy,
+    rules,
+    seriesMode,
+  });
+}
+
+/** One write to a copy, planned for a source event. */
+interface CopyWrite {
+  event: GoogleCalendarEvent;
+  /** Mapping row of the copy; absent when it is created */
+  dbRecord?: SyncedEventRecord;
+  copyId: string;
+  /** Body written to the copy; absent for cancelled occurrences, which are deleted */
+  body?: CalendarEventBody;
+  /** Series mode: source series whose copy this run creates, which must exist first */
+  newSeriesId?: string;
+}
+
+/** Every write one direction makes to its copies. */
+interface DirectionWrites {
+  creates: CopyWrite[];
+  updates: Array<CopyWrite & { dbRecord: SyncedEventRecord }>;
+  /** Series mode: modified occurrences written onto the copy series */
+  exceptions: CopyWrite[];
+  /** Series mode: cancelled occurrences deleted from the copy series */
+  cancels: CopyWrite[];
+  /** Series mode: occurrence changes whose series has no copy */
+  waiting: number;
+}
+
+/** ID of the copy occurrence matching a source occurrence, if its series has a copy. */
+function copyOccurrenceId(
+  event: GoogleCalendarEvent,
+  dbRecord: SyncedEventRecord | undefined,
+  seriesCopyIds: Record<string, string>,
+): string | undefined {
+  if (dbRecord) return dbRecord.secondary_event_id;
+  const copyMaster = seriesCopyIds[event.recurringEventId ?? ""];
+  if (!copyMaster || !event.originalStartTime) return undefined;
+  return `${copyMaster}_${instanceIdSuffix(event.originalStartTime)}`;
+}
+
+/**
+ * Plan the copy writes of one direction from its analysis, leaving out the
+ * rows the copy-edit pass holds. In series mode, modified occurrences are
+ * held back from the plain creates and updates and go onto the copy series,
+ * including the series created this run; those without a copy series wait.
+ */
+function planDirectionWrites(
+  analysis: SyncAnalysis,
+  syncedRecords: SyncedEventRecord[],
+  pair: SyncPair,
+  seriesMode: boolean,
+  heldRowIds: Set<number>,
+): DirectionWrites {
+  const { sourceCalendarId, targetCalendarId, prefix, privacy } = pair;
+  const isException = (event: GoogleCalendarEvent) => seriesMode && event.recurringEventId !== undefined;
+  const copyBody = (event: GoogleCalendarEvent) => buildSyncedEventBody(event, prefix, sourceCalendarId, privacy);
+
+  const writes: DirectionWrites = {
+    creates: analysis.toCreate
+      .filter((event) => !isException(event))
+      .map((event) => ({ event, copyId: copyEventId(sourceCalendarId, event.id), body: copyBody(event) })),
+    updates: analysis.toUpdate
+      .filter(({ event, dbRecord }) => !isException(event) && !heldRowIds.has(dbRecord.id))
+      .map(({ event, dbRecord }) => ({ event, dbRecord, copyId: dbRecord.secondary_event_id, body: copyBody(event) })),
+    exceptions: [],
+    cancels: [],
+    waiting: 0,
+  };
+  if (!seriesMode) return writes;
+
+  // Copy masters by source series ID, including the ones created above
+  const seriesCopyIds: Record<string, string> = {};
+  for (const record of syncedRecords) {
+    if (record.primary_calendar === sourceCalendarId && record.secondary_calendar === targetCalendarId) {
+      seriesCopyIds[record.primary_event_id] = record.secondary_event_id;
+    }
+  }
+  const newSeries = new Set<string>();
+  for (const { event, copyId } of writes.creates) {
+    seriesCopyIds[event.id] = copyId;
+    newSeries.add(event.id);
+  }
+
+  const occurrence = (
+    event: GoogleCalendarEvent,
+    dbRecord: SyncedEventRecord | undefined,
+    cancelled: boolean,
+  ): CopyWrite[] => {
+    const copyId = copyOccurrenceId(event, dbRecord, seriesCopyIds);
+    if (!copyId) {
+      writes.waiting++;
+      return [];
+    }
+    const seriesId = event.recurringEventId ?? "";
+    const body = cancelled
+      ? undefined
+      : { ...copyBody(event), recurringEventId: seriesCopyIds[seriesId], originalStartTime: event.originalStartTime };
+    const newSeriesId = !dbRecord && newSeries.has(seriesId) ? seriesId : undefined;
+    return [{ event, dbRecord, copyId, body, newSeriesId }];
+  };
+
+  writes.exceptions = [
+    ...analysis.toCreate.filter(isException).flatMap((event) => occurrence(event, undefined, false)),
+    ...analysis.toUpdate
+      .filter(({ event, dbRecord }) => isException(event) && !heldRowIds.has(dbRecord.id))
+      .flatMap(({ event, dbRecord }) => occurrence(event, dbRecord, false)),
+  ];
+  writes.cancels = analysis.toCancel.flatMap(({ event, dbRecord }) => occurrence(event, dbRecord, true));
+  return writes;
+}
+
+/** Side whose edit wins when a copy and its original both changed. */
+function resolveConflict(
+  policy: ConflictPolicy,
+  original: GoogleCalendarEvent,
+  copy: GoogleCalendarEvent,
+): EditConflict["resolution"] {
+  if (policy === "review") return "review";
+  if (policy === "latest" && Date.parse(copy.updated ?? "") > Date.parse(original.updated ?? "")) return "copy";
+  return "source";
+}
+
+/**
+ * Which side of a copy edit wins: "agree" when both sides already show the
+ * same title and time and the original is unchanged since the last run.
+ */
+function settleCopyEdit(
+  dbRecord: SyncedEventRecord,
+  copy: GoogleCalendarEvent,
+  original: GoogleCalendarEvent,
+  pair: SyncPair,
+  policy: ConflictPolicy,
+): { conflict: boolean; resolution: EditConflict["resolution"] | "agree" } {
+  const sourceChanged = computeSignature(original, pair.privacy) !== dbRecord.event_signature;
+  const agree = copyMatchesOriginal(copy, original, pair.prefix, pair.privacy);
+  if (agree && !sourceChanged) return { conflict: false, resolution: "agree" };
+
+  const conflict = sourceChanged && !agree;
+  const resolution = agree ? "source" : sourceChanged ? resolveConflict(policy, original, copy) : "copy";
+  return { conflict, resolution };
+}
+
+/** How one edited copy is settled. */
+interface CopyEditDecision {
+  dbRecord: SyncedEventRecord;
+  copy: GoogleCalendarEvent;
+  /** The original as read; absent when it is gone or could not be read */
+  original?: GoogleCalendarEvent;
+  /**
+   * "gone": the original is cleaned up with the orphans; "unreadable": see
+   * readError. Otherwise the side that wins, or "agree"
+   */
+  resolution: EditConflict["resolution"] | "agree" | "gone" | "unreadable";
+  conflict: boolean;
+  readError?: unknown;
+  /** Resolution "copy": the original with the copy's edit applied, written back to it */
+  writeBack?: CalendarEventBody;
+}
+
+/**
+ * Settle each edited copy against its original. A row whose copy edit wins
+ * or loses, or is held for review, is kept out of the update pass.
+ */
+function planCopyEdits(
+  edits: CopyEditAnalysis["edited"],
+  originals: EventReads,
+  pair: SyncPair,
+  policy: ConflictPolicy,
+): CopyEditDecision[] {
+  return edits.map(({ dbRecord, copy }) => {
+    const readError = originals.failed.get(dbRecord.primary_event_id);
+    if (readError !== undefined) return { dbRecord, copy, resolution: "unreadable", conflict: false, readError };
+    const original = originals.events.get(dbRecord.primary_event_id);
+    if (!original || original.status === "cancelled") return { dbRecord, copy, resolution: "gone", conflict: false };
+
+    const { conflict, resolution } = settleCopyEdit(dbRecord, copy, original, pair, policy);
+    const writeBack = resolution === "copy"
+      ? applyCopyEdit(original, copy, pair.prefix, pair.privacy)
+      : undefined;
+    return { dbRecord, copy, original, resolution, conflict, writeBack };
+  });
+}
+
+function holdsRow(decision: CopyEditDecision): boolean {
+  return decision.resolution === "source" || decision.resolution === "copy" || decision.resolution === "review";
+}
+
+function editConflict(label: string, decision: CopyEditDecision & { original: GoogleCalendarEvent }): EditConflict {
+  return {
+    direction: label,
+    sourceEventId: decision.original.id,
+    copyEventId: decision.copy.id,
+    summary: decision.original.summary ?? "",
+    resolution: decision.resolution as EditConflict["resolution"],
+  };
+}
+
+/**
+ * Circuit breaker for orphan cleanup: returns why the deletion should be
+ * blocked, or undefined when it is within limits. The percentage limit only
+ * applies to calendars with at least MIN_ROWS_FOR_PERCENT_LIMIT tracked rows,
+ * so deleting one of two copies is not mistaken for a mass deletion.
+ */
+function checkOrphanLimits(
+  orphans: SyncedEventRecord[],
+  consideredRecords: SyncedEventRecord[],
+  limits: OrphanDeletionLimits,
+): string | undefined {
+  if (limits.confirmed) return undefined;
+
+  if (orphans.length > limits.maxDeletions) {
+    return `${orphans.length} orphans exceed MAX_ORPHAN_DELETIONS=${limits.maxDeletions}`;
+  }
+
+  const trackedByCalendar = new Map<string, number>();
+  for (const record of consideredRecords) {
+    trackedByCalendar.set(record.primary_calendar, (trackedByCalendar.get(record.primary_calendar) ?? 0) + 1);
+  }
+  const orphansByCalendar = new Map<string, number>();
+  for (const record of orphans) {
+    orphansByCalendar.set(record.primary_calendar, (orphansByCalendar.get(record.primary_calendar) ?? 0) + 1);
+  }
+
+  for (const [calendarId, count] of orphansByCalendar) {
+    const tracked = trackedByCalendar.get(calendarId) ?? 0;
+    if (tracked < MIN_ROWS_FOR_PERCENT_LIMIT) continue;
+    const percent = (count / tracked) * 100;
+    if (percent > limits.maxPercent) {
+      return `${count} of ${tracked} copies from ${calendarId} (${Math.round(percent)}%) exceed MAX_ORPHAN_DELETION_PERCENT=${limits.maxPercent}`;
+    }
+  }
+
+  return undefined;
+}
+
+/** Orphans found by detectOrphans, before any copy is deleted. */
+interface OrphanPlan {
+  orphans: SyncedEventRecord[];
+  /** Why each orphan's copy is deleted, by row ID */
+  reasons: Record<number, string>;
+  staleRowIds: number[];
+  skippedCalendars: string[];
+  blockedReason?: string;
+}
+
+function detectOrphans(
+  listings: Record<string, EventListing>,
+  syncedRecords: SyncedEventRecord[],
+  pairs: SyncPair[],
+  limits: OrphanDeletionLimits,
+  filteredKeys: string[],
+): OrphanPlan {
+  // Build sets of current event IDs (full listings) and removed event IDs
+  // (incremental listings) per calendar
+  const currentIdsByCalendar = new Map<string, Set<string>>();
+  const removedIdsByCalendar = new Map<string, Set<string>>();
+  // A truncated full listing is incomplete, so absence from it proves nothing;
+  // its calendar is left out of orphan detection entirely.
+  const skippedCalendars: string[] = [];
+  for (const [calendarId, listing] of Object.entries(listings)) {
+    if (listing.mode === "full" && listing.truncated) {
+      skippedCalendars.push(calendarId);
+    } else if (listing.mode === "full") {
+      currentIdsByCalendar.set(calendarId, new Set(listing.events.map((e) => e.id)));
+    } else {
+      removedIdsByCalendar.set(calendarId, new Set(listing.removedEventIds));
+    }
+  }
+
+  // Only rows belonging to a pair synced by this run are considered; rows for
+  // pairs dropped from the configuration are left untouched.
+  const activePairs = new Set(
+    pairs.map((p) => `${p.sourceCalendarId}:${p.targetCalendarId}`),
   );
 
-  const stats: SyncStats = { created: 0, updated: 0, deleted: 0, errors: 0 };
-  const pendingInserts: PendingSheetInsert[] = [];
-  const pendingUpdates: PendingSheetUpdate[] = [];
-
-  // Process creates with concurrency
-  const createResults = await processInBatches(
-    analysis.toCreate,
-    CONCURRENCY,
-    async (event) => {
-      const eventBody = buildSyncedEventBody(event, prefix, sourceCalendarId);
-      const created = await createEvent(gcal, targetCalendarId, eventBody);
-      return { event, created };
-    },
+  // Calendars missing from listings (failed fetches) are never checked.
+  const consideredRecords = syncedRecords.filter(
+    (record) =>
+      activePairs.has(`${record.primary_calendar}:${record.secondary_calendar}`) &&
+      (currentIdsByCalendar.has(record.primary_calendar) ||
+        removedIdsByCalendar.has(record.primary_calendar)),
   );
 
-  for (const result of createResults) {
-    if (result.status === "fulfilled") {
-      const { event, created } = result.value;
-      pendingInserts.push({
-        primary_calendar: sourceCalendarId,
-        primary_event_id: event.id,
-        secondary_calendar: targetCalendarId,
-        secondary_event_id: created.id,
-        event_summary: event.summary ?? "",
-        event_start: getDateString(event.start),
-        event_end: getDateString(event.end),
-        event_signature: computeSignature(event),
-      });
-      stats.created++;
-    } else {
-      SolidActions.logger.error(
-        `Google API create failed: ${result.reason}`,
+  // Copies of originals that a sync rule now filters out, keyed
+  // "source:event:target", are removed the same way
+  const filtered = new Set(filteredKeys);
+
+  // Identify orphans: absent from a full listing, explicitly cancelled /
+  // moved out of the window in an incremental one, or filtered by a rule
+  const reasons: Record<number, string> = {};
+  const gone = consideredRecords.filter((record) => {
+    if (filtered.has(`${record.primary_calendar}:${record.primary_event_id}:${record.secondary_calendar}`)) {
+      reasons[record.id] = "the original is filtered out by a sync rule";
+      return true;
+    }
+    const currentIds = currentIdsByCalendar.get(record.primary_calendar);
+    const removedIds = removedIdsByCalendar.get(record.primary_calendar);
+    const isGone = currentIds
+      ? !currentIds.has(record.primary_event_id)
+      : removedIds !== undefined && removedIds.has(record.primary_event_id);
+    if (isGone) reasons[record.id] = "the original was deleted or left the sync window";
+    return isGone;
+  });
+
+  // Series mode: an exception row belongs to a copied series. Its copy
+  // occurrence goes with the series, so only the row is dropped.
+  const seriesRowKeys = new Set(
+    consideredRecords.map((r) => `${r.primary_calendar}:${r.primary_event_id}:${r.secondary_calendar}`),
+  );
+  const isExceptionRow = (record: SyncedEventRecord) => {
+    const instance = parseInstanceId(record.primary_event_id);
+    return instance !== undefined &&
+      seriesRowKeys.has(`${record.primary_calendar}:${instance.seriesId}:${record.secondary_calendar}`);
+  };
+  const staleRowIds = gone.filter(isExceptionRow).map((r) => r.id);
+  const orphans = gone.filter((r) => !isExceptionRow(r));
+
+  const blockedReason = checkOrphanLimits(orphans, consideredRecords, limits);
+  if (blockedReason) {
+    SolidActions.logger.error(`Orphan cleanup blocked: ${blockedReason}`);
+    return { orphans, reasons, staleRowIds: [], skippedCalendars, blockedReason };
+  }
+
+  return { orphans, reasons, staleRowIds, skippedCalendars };
+}
+
+/** Direction label of an orphan's row; orphans only come from rows of active pairs. */
+function orphanDirection(record: SyncedEventRecord, pairs: SyncPair[]): string {
+  return pairs.find(
+    (p) => p.sourceCalendarId === record.primary_calendar && p.targetCalendarId === record.secondary_calendar,
+  )?.label ?? "orphans";
+}
+
+// --- Step Functions ---
+
+/** Outcome of one chunk of Calendar API work within a direction. */
+interface ChunkResult {
+  stats: SyncStats;
+  pendingInserts: PendingSheetInsert[];
+  pendingUpdates: PendingSheetUpdate[];
+  /** Creates that found their copy already present (409) */
+  recovered: number;
+  throttling: ThrottleStats;
+  /** Two-way: copy edits written back to their originals */
+  propagated: number;
+  conflicts: EditConflict[];
+  /** Two-way: rows the update pass must leave alone this run */
+  heldRowIds: number[];
+  failures: SyncFailure[];
+  changes: SyncChanges;
+}
+
+function emptyChunkResult(): ChunkResult {
+  return {
+    stats: { created: 0, updated: 0, deleted: 0, errors: 0 },
+    pendingInserts: [],
+    pendingUpdates: [],
+    recovered: 0,
+    throttling: emptyThrottleStats(CONCURRENCY),
+    propagated: 0,
+    conflicts: [],
+    heldRowIds: [],
+    failures: [],
+    changes: emptyChanges(),
+  };
+}
+
+async function createCopies(
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  writes: CopyWrite[],
+  pair: SyncPair,
+): Promise<ChunkResult> {
+  const result = emptyChunkResult();
+  const { label, sourceCalendarId, targetCalendarId, privacy } = pair;
+
+  const { results: createResults, throttling } = await executor.run(writes, async ({ event, copyId, body }) => {
+    const { event: created, existed } = await createEventWithId(gcal, targetCalendarId, copyId, body ?? {});
+    return { event, created, existed };
+  });
+
+  for (const [index, outcome] of createResults.entries()) {
+    if (outcome.status === "fulfilled") {
+      const { event, created, existed } = outcome.value;
+      result.pendingInserts.push(
+        mappingRow(
+          event,
+          sourceCalendarId,
+          targetCalendarId,
+          created.id,
+          computeSignature(event, privacy),
+          computeCopySignature(created),
+        ),
       );
-      stats.errors++;
+      result.stats.created++;
+      result.changes.created.push(syncedItem(label, event, created.id));
+      if (existed) result.recovered++;
+    } else {
+      const { event } = writes[index];
+      SolidActions.logger.error(`Google API create failed for ${event.id}: ${outcome.reason}`);
+      result.stats.errors++;
+      result.failures.push(syncFailure(label, "create", event.id, event.summary, outcome.reason));
     }
   }
 
-  // Process updates with concurrency
-  const updateResults = await processInBatches(
-    analysis.toUpdate,
-    CONCURRENCY,
-    async ({ event, dbRecord }) => {
-      const eventBody = buildSyncedEventBody(event, prefix, sourceCalendarId);
-      await updateEvent(gcal, targetCalendarId, dbRecord.secondary_event_id, eventBody);
-      return { event, dbRecord };
-    },
-  );
+  result.throttling = throttling;
+  return result;
+}
 
-  for (const result of updateResults) {
-    if (result.status === "fulfilled") {
-      const { event, dbRecord } = result.value;
-      pendingUpdates.push({
+async function updateCopies(
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  writes: DirectionWrites["updates"],
+  pair: SyncPair,
+): Promise<ChunkResult> {
+  const result = emptyChunkResult();
+  const { label, targetCalendarId, privacy } = pair;
+
+  const { results: updateResults, throttling } = await executor.run(writes, async ({ event, dbRecord, copyId, body }) => {
+    const copy = await updateEvent(gcal, targetCalendarId, copyId, body ?? {});
+    return { event, dbRecord, copy };
+  });
+
+  for (const [index, outcome] of updateResults.entries()) {
+    if (outcome.status === "fulfilled") {
+      const { event, dbRecord, copy } = outcome.value;
+      result.pendingUpdates.push({
         rowId: dbRecord.id,
         primary_calendar: dbRecord.primary_calendar,
         primary_event_id: dbRecord.primary_event_id,
@@ -156,287 +794,1327 @@ async function syncDirection(
         event_summary: event.summary ?? "",
         event_start: getDateString(event.start),
         event_end: getDateString(event.end),
-        event_signature: computeSignature(event),
+        event_signature: computeSignature(event, privacy),
         created_at: dbRecord.created_at,
+        copy_signature: computeCopySignature(copy),
       });
-      stats.updated++;
+      result.stats.updated++;
+      result.changes.updated.push(syncedItem(label, event, copy.id));
     } else {
-      SolidActions.logger.error(
-        `Google API update failed: ${result.reason}`,
-      );
-      stats.errors++;
+      const { event } = writes[index];
+      SolidActions.logger.error(`Google API update failed for ${event.id}: ${outcome.reason}`);
+      result.stats.errors++;
+      result.failures.push(syncFailure(label, "update", event.id, event.summary, outcome.reason));
     }
   }
 
-  return { stats, pendingInserts, pendingUpdates };
+  result.throttling = throttling;
+  return result;
 }
 
-async function detectAndDeleteOrphans(
+/** Record the mapping row of an occurrence: update its row or insert a new one. */
+function recordOccurrence(
+  result: ChunkResult,
+  event: GoogleCalendarEvent,
+  dbRecord: SyncedEventRecord | undefined,
+  pair: SyncPair,
+  copyId: string,
+  signature: string,
+  copySignature: string,
+): void {
+  const row = mappingRow(event, pair.sourceCalendarId, pair.targetCalendarId, copyId, signature, copySignature);
+  if (dbRecord) {
+    result.pendingUpdates.push({ ...row, rowId: dbRecord.id, created_at: dbRecord.created_at });
+  } else {
+    result.pendingInserts.push(row);
+  }
+}
+
+/** Series mode: write modified occurrences onto the matching occurrence of the copy series. */
+async function writeExceptions(
   gcal: ConnectionVar,
-  eventsA: GoogleCalendarEvent[],
-  eventsB: GoogleCalendarEvent[],
-  syncedRecords: SyncedEventRecord[],
-  calendarAId: string,
-  calendarBId: string,
-): Promise<OrphanDetectionResult> {
-  let deleted = 0;
-  let errors = 0;
-  const pendingDeletes: PendingSheetDelete[] = [];
+  executor: RateLimitedExecutor,
+  writes: CopyWrite[],
+  pair: SyncPair,
+): Promise<ChunkResult> {
+  const result = emptyChunkResult();
+  const { label, targetCalendarId, privacy } = pair;
 
-  // Build sets of current event IDs per calendar
-  const calAEventIds = new Set(eventsA.map((e) => e.id));
-  const calBEventIds = new Set(eventsB.map((e) => e.id));
+  const { results: writeResults, throttling } = await executor.run(writes, async ({ event, dbRecord, copyId, body }) => {
+    const copy = await updateEvent(gcal, targetCalendarId, copyId, body ?? {});
+    return { event, dbRecord, copyId, copy };
+  });
 
-  // Identify orphans
-  const orphans = syncedRecords.filter((record) => {
-    if (
-      record.primary_calendar === calendarAId &&
-      !calAEventIds.has(record.primary_event_id)
-    ) {
-      return true;
+  for (const [index, outcome] of writeResults.entries()) {
+    if (outcome.status === "rejected") {
+      const { event } = writes[index];
+      SolidActions.logger.error(`Google API exception update failed for ${event.id}: ${outcome.reason}`);
+      result.stats.errors++;
+      result.failures.push(syncFailure(label, "exceptions", event.id, event.summary, outcome.reason));
+    } else {
+      const { event, dbRecord, copyId, copy } = outcome.value;
+      recordOccurrence(result, event, dbRecord, pair, copyId, computeSignature(event, privacy), computeCopySignature(copy));
+      if (dbRecord) {
+        result.stats.updated++;
+        result.changes.updated.push(syncedItem(label, event, copyId));
+      } else {
+        result.stats.created++;
+        result.changes.created.push(syncedItem(label, event, copyId));
+      }
     }
-    if (
-      record.primary_calendar === calendarBId &&
-      !calBEventIds.has(record.primary_event_id)
-    ) {
-      return true;
+  }
+
+  result.throttling = throttling;
+  return result;
+}
+
+/** Series mode: delete cancelled occurrences from the copy series. */
+async function cancelOccurrences(
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  writes: CopyWrite[],
+  pair: SyncPair,
+): Promise<ChunkResult> {
+  const result = emptyChunkResult();
+
+  const { results: cancelResults, throttling } = await executor.run(writes, async (write) => {
+    await deleteIfPresent(gcal, pair.targetCalendarId, write.copyId);
+    return write;
+  });
+
+  for (const [index, outcome] of cancelResults.entries()) {
+    if (outcome.status === "rejected") {
+      const { event } = writes[index];
+      SolidActions.logger.error(`Google API occurrence cancel failed for ${event.id}: ${outcome.reason}`);
+      result.stats.errors++;
+      result.failures.push(syncFailure(pair.label, "cancel", event.id, event.summary, outcome.reason));
+    } else {
+      const { event, dbRecord, copyId } = outcome.value;
+      recordOccurrence(result, event, dbRecord, pair, copyId, CANCELLED_SIGNATURE, "");
+      result.stats.deleted++;
+      result.changes.deleted.push(syncedItem(pair.label, event, copyId));
+    }
+  }
+
+  result.throttling = throttling;
+  return result;
+}
+
+/**
+ * Two-way: write edits made directly to copies back to their originals. The
+ * originals are read and each edit settled by planCopyEdits. A winning copy
+ * edit is written to the original, and the copy is then rewritten from
+ * whichever side won, so it carries the prefix and the original's other
+ * fields again. Copies held for review are not touched until both sides agree.
+ */
+async function propagateCopyEdits(
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  edits: CopyEditAnalysis["edited"],
+  sourceEvents: GoogleCalendarEvent[],
+  pair: SyncPair,
+  policy: ConflictPolicy,
+): Promise<ChunkResult> {
+  const result = emptyChunkResult();
+  const { label, sourceCalendarId, targetCalendarId, prefix, privacy } = pair;
+
+  const originals = await readEvents(
+    gcal,
+    executor,
+    sourceCalendarId,
+    sourceEvents,
+    edits.map(({ dbRecord }) => dbRecord.primary_event_id),
+  );
+  const writes: Array<CopyEditDecision & { original: GoogleCalendarEvent }> = [];
+  for (const decision of planCopyEdits(edits, originals, pair, policy)) {
+    const { dbRecord, copy, original } = decision;
+    if (decision.resolution === "unreadable") {
+      SolidActions.logger.error(`Google API copy edit propagation failed for ${dbRecord.primary_event_id}: ${decision.readError}`);
+      result.stats.errors++;
+      result.failures.push(
+        syncFailure(label, "propagate", dbRecord.primary_event_id, dbRecord.event_summary, decision.readError),
+      );
+      continue;
     }
-    return false;
+    if (decision.resolution === "agree") {
+      // Both sides already show the same title and time; only the copy's signature is new
+      result.pendingUpdates.push(rebaselineRow(dbRecord, copy));
+      continue;
+    }
+    // An original that is gone is cleaned up with the orphans
+    if (!original || !holdsRow(decision)) continue;
+
+    if (decision.conflict) result.conflicts.push(editConflict(label, { ...decision, original }));
+    // Rows handled here are kept out of the update pass
+    result.heldRowIds.push(dbRecord.id);
+    if (decision.resolution !== "review") writes.push({ ...decision, original });
+  }
+
+  const { results: editResults, throttling } = await executor.run(writes, async (decision) => {
+    const winner = decision.writeBack
+      ? await updateEvent(gcal, sourceCalendarId, decision.original.id, decision.writeBack)
+      : decision.original;
+    const copy = await updateEvent(
+      gcal,
+      targetCalendarId,
+      decision.copy.id,
+      buildSyncedEventBody(winner, prefix, sourceCalendarId, privacy),
+    );
+    return { decision, copy, original: winner };
   });
 
-  // Batch Calendar deletes with concurrency
-  const deleteResults = await processInBatches(
+  for (const [index, outcome] of editResults.entries()) {
+    if (outcome.status === "rejected") {
+      const { dbRecord } = writes[index];
+      SolidActions.logger.error(`Google API copy edit propagation failed for ${dbRecord.primary_event_id}: ${outcome.reason}`);
+      result.stats.errors++;
+      result.failures.push(
+        syncFailure(label, "propagate", dbRecord.primary_event_id, dbRecord.event_summary, outcome.reason),
+      );
+      continue;
+    }
+
+    const { decision, copy, original } = outcome.value;
+    const row = mappingRow(
+      original,
+      sourceCalendarId,
+      targetCalendarId,
+      copy.id,
+      computeSignature(original, privacy),
+      computeCopySignature(copy),
+    );
+    result.pendingUpdates.push({ ...row, rowId: decision.dbRecord.id, created_at: decision.dbRecord.created_at });
+    if (decision.resolution === "copy") {
+      result.propagated++;
+    } else {
+      result.stats.updated++;
+      result.changes.updated.push(syncedItem(label, original, copy.id));
+    }
+  }
+
+  result.throttling = mergeThrottleStats(originals.throttling, throttling);
+  return result;
+}
+
+/**
+ * Delete one chunk of orphan copies. Each copy is read first so its body can
+ * be kept as a tombstone for restore-synced-events.
+ */
+async function deleteOrphanCopies(
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  orphans: SyncedEventRecord[],
+  pairs: SyncPair[],
+): Promise<
+  Pick<OrphanDetectionResult, "deleted" | "errors" | "pendingDeletes" | "throttling" | "failures" | "deletedItems">
+> {
+  let deleted = 0;
+  let errors = 0;
+  const pendingDeletes: PendingSheetDelete[] = [];
+  const failures: SyncFailure[] = [];
+  const deletedItems: SyncedItem[] = [];
+  const directionOf = (record: SyncedEventRecord) => orphanDirection(record, pairs);
+
+  const { results: deleteResults, throttling } = await executor.run(
     orphans,
-    CONCURRENCY,
     async (record) => {
+      let copyBody = "";
+      try {
+        const copy = await getEvent(gcal, record.secondary_calendar, record.secondary_event_id);
+        copyBody = JSON.stringify(extractRestorableBody(copy));
+      } catch (error: unknown) {
+        // A copy that is already gone is still cleaned up; only its body is lost.
+        if (!isGone(error)) throw error;
+      }
       await deleteEvent(gcal, record.secondary_calendar, record.secondary_event_id);
-      return record;
+      return { record, copyBody };
     },
   );
 
-  for (const result of deleteResults) {
+  for (const [index, result] of deleteResults.entries()) {
     if (result.status === "fulfilled") {
-      const record = result.value;
-      pendingDeletes.push({ rowId: record.id });
+      const { record, copyBody } = result.value;
+      pendingDeletes.push({
+        rowId: record.id,
+        tombstone: {
+          primary_calendar: record.primary_calendar,
+          primary_event_id: record.primary_event_id,
+          secondary_calendar: record.secondary_calendar,
+          secondary_event_id: record.secondary_event_id,
+          event_summary: record.event_summary,
+          event_start: record.event_start,
+          event_end: record.event_end,
+          event_signature: record.event_signature,
+          created_at: record.created_at,
+          copy_body: copyBody,
+        },
+      });
+      deletedItems.push({
+        direction: directionOf(record),
+        sourceEventId: record.primary_event_id,
+        copyEventId: record.secondary_event_id,
+        summary: record.event_summary,
+        start: record.event_start,
+      });
       deleted++;
     } else {
+      const record = orphans[index];
       SolidActions.logger.error(
-        `Failed to delete orphan: ${result.reason}`,
+        `Failed to delete orphan ${record.secondary_event_id}: ${result.reason}`,
       );
       errors++;
+      failures.push(
+        syncFailure(directionOf(record), "delete", record.primary_event_id, record.event_summary, result.reason),
+      );
+    }
+  }
+
+  return { deleted, errors, pendingDeletes, throttling, failures, deletedItems };
+}
+
+// --- Dry Run ---
+
+/** One direction of a dry run. */
+interface DirectionPlan {
+  changes: PlannedChange[];
+  /** What the run would count */
+  stats: SyncStats;
+  filteredByRule: Record<string, number>;
+  filteredTrackedIds: string[];
+  editsPropagated: number;
+  conflicts: EditConflict[];
+  /** Reads the plan needed and could not make */
+  failures: SyncFailure[];
+  throttling: ThrottleStats;
+}
+
+/** The orphan cleanup of a dry run. */
+interface OrphanCleanupPlan {
+  changes: PlannedChange[];
+  found: number;
+  /** Orphans whose copy could not be read, which the run would fail to delete */
+  errors: number;
+  blockedReason?: string;
+  skippedCalendars: string[];
+  failures: SyncFailure[];
+  throttling: ThrottleStats;
+}
+
+/**
+ * Dry run of one direction: the copy edits and writes syncDirection would
+ * make, settled and planned by the same functions, listed instead of made.
+ * The calendars are only read; a read that fails is reported as a failure.
+ */
+async function planDirection(
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  pair: SyncPair,
+  listings: Record<string, EventListing>,
+  syncedRecords: SyncedEventRecord[],
+  rules: SyncRule[],
+  recurrenceMode: RecurrenceMode,
+  conflictPolicy: ConflictPolicy,
+): Promise<DirectionPlan> {
+  const { label, sourceCalendarId, targetCalendarId, prefix, privacy } = pair;
+  const seriesMode = recurrenceMode === "series";
+  const sourceEvents = listings[sourceCalendarId]?.events ?? [];
+  const targetEvents = listings[targetCalendarId]?.events ?? [];
+  const analysis = analyzeDirection(sourceEvents, syncedRecords, pair, rules, seriesMode);
+  const plan: DirectionPlan = {
+    changes: [],
+    stats: { created: 0, updated: 0, deleted: 0, errors: 0 },
+    filteredByRule: analysis.filteredByRule,
+    filteredTrackedIds: analysis.filteredTrackedIds,
+    editsPropagated: 0,
+    conflicts: [],
+    failures: [],
+    throttling: emptyThrottleStats(CONCURRENCY),
+  };
+  const toCopy = (
+    operation: SyncOperation,
+    event: GoogleCalendarEvent,
+    copyId: string,
+    before: GoogleCalendarEvent | undefined,
+    after?: Record<string, unknown>,
+  ) =>
+    plan.changes.push({
+      direction: label,
+      operation,
+      sourceEventId: event.id,
+      calendarId: targetCalendarId,
+      eventId: copyId,
+      summary: event.summary ?? "",
+      before: before && extractRestorableBody(before),
+      after,
+    });
+
+  const heldRowIds = new Set<number>();
+  if (pair.twoWay) {
+    const copyEdits = detectCopyEdits(targetEvents, syncedRecords, sourceCalendarId, targetCalendarId);
+    const originals = await readEvents(
+      gcal,
+      executor,
+      sourceCalendarId,
+      sourceEvents,
+      copyEdits.edited.map(({ dbRecord }) => dbRecord.primary_event_id),
+    );
+    plan.throttling = mergeThrottleStats(plan.throttling, originals.throttling);
+
+    for (const decision of planCopyEdits(copyEdits.edited, originals, pair, conflictPolicy)) {
+      const { dbRecord, copy, original } = decision;
+      if (decision.resolution === "unreadable") {
+        plan.stats.errors++;
+        plan.failures.push(
+          syncFailure(label, "propagate", dbRecord.primary_event_id, dbRecord.event_summary, decision.readError),
+        );
+        continue;
+      }
+      if (!original || !holdsRow(decision)) continue;
+
+      if (decision.conflict) plan.conflicts.push(editConflict(label, { ...decision, original }));
+      heldRowIds.add(dbRecord.id);
+      if (decision.resolution === "review") {
+        plan.changes.push({
+          direction: label,
+          operation: "propagate",
+          sourceEventId: original.id,
+          calendarId: targetCalendarId,
+          eventId: copy.id,
+          summary: original.summary ?? "",
+          before: extractRestorableBody(copy),
+          note: "held for review: the copy and the original both changed",
+        });
+      } else if (decision.writeBack) {
+        plan.changes.push({
+          direction: label,
+          operation: "propagate",
+          sourceEventId: original.id,
+          calendarId: sourceCalendarId,
+          eventId: original.id,
+          summary: original.summary ?? "",
+          before: extractRestorableBody(original),
+          after: extractRestorableBody(decision.writeBack as unknown as GoogleCalendarEvent),
+          note: "copy edit written back to the original; the copy is then rewritten from it",
+        });
+        plan.editsPropagated++;
+      } else {
+        toCopy("propagate", original, copy.id, copy, buildSyncedEventBody(original, prefix, sourceCalendarId, privacy));
+        plan.stats.updated++;
+      }
     }
   }
 
-  return { deleted, errors, pendingDeletes };
+  const writes = planDirectionWrites(analysis, syncedRecords, pair, seriesMode, heldRowIds);
+  const written: Array<[SyncOperation, CopyWrite]> = [
+    ...writes.updates.map((w): [SyncOperation, CopyWrite] => ["update", w]),
+    ...writes.exceptions.map((w): [SyncOperation, CopyWrite] => ["exceptions", w]),
+    ...writes.cancels.map((w): [SyncOperation, CopyWrite] => ["cancel", w]),
+  ];
+  const copies = await readEvents(gcal, executor, targetCalendarId, targetEvents, written.map(([, w]) => w.copyId));
+  plan.throttling = mergeThrottleStats(plan.throttling, copies.throttling);
+  // A write whose copy could not be read is reported instead of planned, so
+  // the plan's changes and counts only hold writes it could describe
+  for (const [operation, { event, copyId }] of written) {
+    const readError = copies.failed.get(copyId);
+    if (readError !== undefined) plan.failures.push(syncFailure(label, operation, event.id, event.summary, readError));
+  }
+  const readable = ({ copyId }: CopyWrite) => !copies.failed.has(copyId);
+
+  for (const { event, copyId, body } of writes.creates) {
+    toCopy("create", event, copyId, undefined, body);
+    plan.stats.created++;
+  }
+  for (const { event, copyId, body } of writes.updates.filter(readable)) {
+    toCopy("update", event, copyId, copies.events.get(copyId), body);
+    plan.stats.updated++;
+  }
+  for (const { event, dbRecord, copyId, body } of writes.exceptions.filter(readable)) {
+    toCopy("exceptions", event, copyId, copies.events.get(copyId), body);
+    if (dbRecord) plan.stats.updated++;
+    else plan.stats.created++;
+  }
+  for (const { event, copyId } of writes.cancels.filter(readable)) {
+    toCopy("cancel", event, copyId, copies.events.get(copyId));
+    plan.stats.deleted++;
+  }
+
+  return plan;
+}
+
+/**
+ * Dry run of the orphan cleanup: the orphans detectOrphans finds, with the
+ * copies that would be deleted. A copy that cannot be read is reported as a
+ * failure, as the real cleanup reads each copy before deleting it.
+ */
+async function planOrphanCleanup(
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  listings: Record<string, EventListing>,
+  syncedRecords: SyncedEventRecord[],
+  pairs: SyncPair[],
+  limits: OrphanDeletionLimits,
+  filteredKeys: string[],
+): Promise<OrphanCleanupPlan> {
+  const orphanPlan = detectOrphans(listings, syncedRecords, pairs, limits, filteredKeys);
+  const plan: OrphanCleanupPlan = {
+    changes: [],
+    found: orphanPlan.orphans.length,
+    errors: 0,
+    blockedReason: orphanPlan.blockedReason,
+    skippedCalendars: orphanPlan.skippedCalendars,
+    failures: [],
+    throttling: emptyThrottleStats(CONCURRENCY),
+  };
+
+  const byCalendar = new Map<string, SyncedEventRecord[]>();
+  for (const record of orphanPlan.orphans) {
+    byCalendar.set(record.secondary_calendar, [...(byCalendar.get(record.secondary_calendar) ?? []), record]);
+  }
+  for (const [calendarId, records] of byCalendar) {
+    const copies = await readEvents(
+      gcal,
+      executor,
+      calendarId,
+      listings[calendarId]?.events ?? [],
+      records.map((r) => r.secondary_event_id),
+    );
+    plan.throttling = mergeThrottleStats(plan.throttling, copies.throttling);
+
+    for (const record of records) {
+      const direction = orphanDirection(record, pairs);
+      const readError = copies.failed.get(record.secondary_event_id);
+      if (readError !== undefined && !orphanPlan.blockedReason) {
+        plan.errors++;
+        plan.failures.push(syncFailure(direction, "delete", record.primary_event_id, record.event_summary, readError));
+      }
+      const reason = orphanPlan.reasons[record.id];
+      const copy = copies.events.get(record.secondary_event_id);
+      plan.changes.push({
+        direction,
+        operation: "delete",
+        sourceEventId: record.primary_event_id,
+        calendarId,
+        eventId: record.secondary_event_id,
+        summary: record.event_summary,
+        before: copy && extractRestorableBody(copy),
+        note: orphanPlan.blockedReason ? `${reason}; blocked: ${orphanPlan.blockedReason}` : reason,
+      });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Plan every direction and the orphan cleanup in read-only steps. The
+ * mapping rows the directions would filter out feed the orphan plan, as in
+ * a real run.
+ */
+async function planSync(
+  steps: StepTimer,
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  pairs: SyncPair[],
+  listings: Record<string, EventListing>,
+  syncedRecords: SyncedEventRecord[],
+  syncRules: SyncRule[],
+  recurrenceMode: RecurrenceMode,
+  conflictPolicy: ConflictPolicy,
+  orphanLimits: OrphanDeletionLimits,
+): Promise<
+  Pick<SyncOutput, "pairStats" | "deletionStats" | "throttling" | "conflicts" | "failures"> & {
+    plan: PlannedChange[];
+    skippedCalendars: string[];
+  }
+> {
+  const plan: PlannedChange[] = [];
+  const pairStats: PairStats[] = [];
+  const failures: SyncFailure[] = [];
+  const filteredKeys: string[] = [];
+  let throttling = emptyThrottleStats(CONCURRENCY);
+
+  for (const pair of pairs) {
+    const directionPlan: DirectionPlan = await steps.runStep(
+      () =>
+        planDirection(
+          gcal,
+          executor,
+          pair,
+          listings,
+          syncedRecords,
+          rulesForDirection(syncRules, pair.label),
+          recurrenceMode,
+          conflictPolicy,
+        ),
+      { name: `plan-${pair.label}` },
+    );
+    plan.push(...directionPlan.changes);
+    pairStats.push({
+      label: pair.label,
+      sourceCalendarId: pair.sourceCalendarId,
+      targetCalendarId: pair.targetCalendarId,
+      stats: directionPlan.stats,
+      filteredByRule: directionPlan.filteredByRule,
+      editsPropagated: directionPlan.editsPropagated,
+      conflicts: directionPlan.conflicts,
+    });
+    failures.push(...directionPlan.failures);
+    filteredKeys.push(
+      ...directionPlan.filteredTrackedIds.map((id) => `${pair.sourceCalendarId}:${id}:${pair.targetCalendarId}`),
+    );
+    throttling = mergeThrottleStats(throttling, directionPlan.throttling);
+  }
+
+  const cleanup: OrphanCleanupPlan = await steps.runStep(
+    () => planOrphanCleanup(gcal, executor, listings, syncedRecords, pairs, orphanLimits, filteredKeys),
+    { name: "plan-orphans" },
+  );
+  plan.push(...cleanup.changes);
+  failures.push(...cleanup.failures);
+
+  return {
+    pairStats,
+    deletionStats: {
+      found: cleanup.found,
+      deleted: cleanup.blockedReason ? 0 : cleanup.found - cleanup.errors,
+      errors: cleanup.errors,
+      blockedReason: cleanup.blockedReason,
+    },
+    throttling: mergeThrottleStats(throttling, cleanup.throttling),
+    conflicts: pairStats.flatMap((p) => p.conflicts),
+    failures,
+    plan,
+    skippedCalendars: cleanup.skippedCalendars,
+  };
 }
 
 // --- Workflow Function ---
 
+/**
+ * Sync one direction as a series of durable steps: analyze, then one step per
+ * chunk of creates, updates and (series mode) occurrence changes, as planned
+ * by planDirectionWrites. Two-way directions first look for edited copies
+ * and settle them. Step names are numbered from the analysis, so a replay
+ * returns the finished chunks from their recorded results and resumes with
+ * the first unfinished one.
+ */
+async function syncDirection(
+  steps: StepTimer,
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  pair: SyncPair,
+  sourceEvents: GoogleCalendarEvent[],
+  targetEvents: GoogleCalendarEvent[],
+  syncedRecords: SyncedEventRecord[],
+  rules: SyncRule[],
+  recurrenceMode: RecurrenceMode,
+  conflictPolicy: ConflictPolicy,
+): Promise<SyncDirectionResult> {
+  const seriesMode = recurrenceMode === "series";
+  const analysis: SyncAnalysis = await steps.runStep(
+    () => Promise.resolve(analyzeDirection(sourceEvents, syncedRecords, pair, rules, seriesMode)),
+    { name: `analyze-${pair.label}` },
+  );
+
+  const result: SyncDirectionResult = {
+    stats: { created: 0, updated: 0, deleted: 0, errors: 0 },
+    filteredByRule: analysis.filteredByRule,
+    filteredTrackedIds: analysis.filteredTrackedIds,
+    pendingInserts: [],
+    pendingUpdates: [],
+    throttling: emptyThrottleStats(CONCURRENCY),
+    editsPropagated: 0,
+    conflicts: [],
+    failures: [],
+    changes: emptyChanges(),
+  };
+  let recovered = 0;
+  const heldRowIds = new Set<number>();
+
+  const runChunks = async <T>(
+    operation: SyncOperation,
+    items: T[],
+    fn: (chunk: T[]) => Promise<ChunkResult>,
+  ) => {
+    const chunks = chunkItems(items);
+    for (const [index, chunk] of chunks.entries()) {
+      const chunkResult = await steps.runStep(
+        () => fn(chunk),
+        { name: `sync-${pair.label}-${operation}-${index + 1}` },
+      );
+      result.stats.created += chunkResult.stats.created;
+      result.stats.updated += chunkResult.stats.updated;
+      result.stats.deleted += chunkResult.stats.deleted;
+      result.stats.errors += chunkResult.stats.errors;
+      result.pendingInserts.push(...chunkResult.pendingInserts);
+      result.pendingUpdates.push(...chunkResult.pendingUpdates);
+      result.throttling = mergeThrottleStats(result.throttling, chunkResult.throttling);
+      recovered += chunkResult.recovered;
+      result.editsPropagated += chunkResult.propagated;
+      result.conflicts.push(...chunkResult.conflicts);
+      result.failures.push(...chunkResult.failures);
+      result.changes.created.push(...chunkResult.changes.created);
+      result.changes.updated.push(...chunkResult.changes.updated);
+      result.changes.deleted.push(...chunkResult.changes.deleted);
+      for (const rowId of chunkResult.heldRowIds) heldRowIds.add(rowId);
+
+      await SolidActions.setEvent<SyncProgress>(PROGRESS_EVENT, {
+        phase: "sync",
+        direction: pair.label,
+        operation,
+        chunk: index + 1,
+        totalChunks: chunks.length,
+        stats: { ...result.stats },
+      });
+    }
+  };
+
+  if (pair.twoWay) {
+    const copyEdits: CopyEditAnalysis = await steps.runStep(
+      () => Promise.resolve(detectCopyEdits(targetEvents, syncedRecords, pair.sourceCalendarId, pair.targetCalendarId)),
+      { name: `detect-copy-edits-${pair.label}` },
+    );
+
+    // Rows from before two-way sync only get their copy signature recorded;
+    // rows the update pass rewrites get it from there
+    const updating = new Set(analysis.toUpdate.map(({ dbRecord }) => dbRecord.id));
+    result.pendingUpdates.push(
+      ...copyEdits.baseline
+        .filter(({ dbRecord }) => !updating.has(dbRecord.id))
+        .map(({ dbRecord, copy }) => rebaselineRow(dbRecord, copy)),
+    );
+
+    await runChunks(
+      "propagate",
+      copyEdits.edited,
+      (chunk) => propagateCopyEdits(gcal, executor, chunk, sourceEvents, pair, conflictPolicy),
+    );
+  }
+
+  const writes = planDirectionWrites(analysis, syncedRecords, pair, seriesMode, heldRowIds);
+  await runChunks("create", writes.creates, (chunk) => createCopies(gcal, executor, chunk, pair));
+  await runChunks("update", writes.updates, (chunk) => updateCopies(gcal, executor, chunk, pair));
+
+  // Occurrences of a series whose copy failed to be created wait with the
+  // ones whose series has no copy
+  const createdSeries = new Set(result.pendingInserts.map((row) => row.primary_event_id));
+  const seriesReady = (write: CopyWrite) => !write.newSeriesId || createdSeries.has(write.newSeriesId);
+  const exceptions = writes.exceptions.filter(seriesReady);
+  const cancels = writes.cancels.filter(seriesReady);
+  const waiting =
+    writes.waiting + writes.exceptions.length - exceptions.length + writes.cancels.length - cancels.length;
+  await runChunks("exceptions", exceptions, (chunk) => writeExceptions(gcal, executor, chunk, pair));
+  await runChunks("cancel", cancels, (chunk) => cancelOccurrences(gcal, executor, chunk, pair));
+
+  if (recovered > 0) {
+    SolidActions.logger.info(
+      `${recovered} copies on ${pair.targetCalendarId} already existed (earlier attempt or deleted copy); mapping rows recovered`,
+    );
+  }
+  if (waiting > 0) {
+    SolidActions.logger.info(
+      `${waiting} occurrence changes skipped: their series has no copy on ${pair.targetCalendarId}`,
+    );
+  }
+  const held = result.conflicts.filter((c) => c.resolution === "review").length;
+  if (held > 0) {
+    SolidActions.logger.info(
+      `${held} copies on ${pair.targetCalendarId} held for review: both the copy and its original changed`,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Detect orphans in one step, then delete their copies one durable chunk at
+ * a time, publishing progress after each chunk.
+ */
+async function detectAndDeleteOrphans(
+  steps: StepTimer,
+  gcal: ConnectionVar,
+  executor: RateLimitedExecutor,
+  listings: Record<string, EventListing>,
+  syncedRecords: SyncedEventRecord[],
+  pairs: SyncPair[],
+  limits: OrphanDeletionLimits,
+  filteredKeys: string[],
+): Promise<OrphanDetectionResult> {
+  const plan: OrphanPlan = await steps.runStep(
+    () => Promise.resolve(detectOrphans(listings, syncedRecords, pairs, limits, filteredKeys)),
+    { name: "detect-orphans" },
+  );
+
+  const result: OrphanDetectionResult = {
+    deleted: 0,
+    errors: 0,
+    pendingDeletes: [],
+    skippedCalendars: plan.skippedCalendars,
+    found: plan.orphans.length,
+    blockedReason: plan.blockedReason,
+    staleRowIds: plan.staleRowIds,
+    throttling: emptyThrottleStats(CONCURRENCY),
+    failures: [],
+    deletedItems: [],
+  };
+  if (plan.blockedReason) return result;
+
+  const chunks = chunkItems(plan.orphans);
+  for (const [index, chunk] of chunks.entries()) {
+    const chunkResult = await steps.runStep(
+      () => deleteOrphanCopies(gcal, executor, chunk, pairs),
+      { name: `delete-orphans-${index + 1}` },
+    );
+    result.deleted += chunkResult.deleted;
+    result.errors += chunkResult.errors;
+    result.pendingDeletes.push(...chunkResult.pendingDeletes);
+    result.failures.push(...chunkResult.failures);
+    result.deletedItems.push(...chunkResult.deletedItems);
+    result.throttling = mergeThrottleStats(result.throttling, chunkResult.throttling);
+
+    await SolidActions.setEvent<SyncProgress>(PROGRESS_EVENT, {
+      phase: "orphans",
+      operation: "delete",
+      chunk: index + 1,
+      totalChunks: chunks.length,
+      stats: { created: 0, updated: 0, deleted: result.deleted, errors: result.errors },
+    });
+  }
+
+  return result;
+}
+
 async function syncGoogleCalendarsWorkflow(ctx: {
-  spreadsheetId: string;
-  calendarAId: string;
-  calendarBId: string;
-  calendarAPrefix: string;
-  calendarBPrefix: string;
+  calendars: CalendarConfig[];
+  syncMode: SyncMode;
+  pairs: SyncPair[];
+  syncRules: SyncRule[];
+  rulesSheet?: { gsheet: ConnectionVar; spreadsheetId: string };
+  incrementalSync: boolean;
   maxEvents: number;
   daysAhead: number;
-  telegramBotToken: string;
-  telegramChatId: string;
+  orphanLimits: OrphanDeletionLimits;
+  recurrenceMode: RecurrenceMode;
+  conflictPolicy: ConflictPolicy;
+  /** Include every changed copy in the output */
+  verbose: boolean;
+  /** Plan instead of writing */
+  dryRun: boolean;
+  notifier: Notifier;
+  alertPolicy: AlertPolicy;
   gcal: ConnectionVar;
-  gsheet: ConnectionVar;
+  store: MappingStore;
 }): Promise<SyncOutput> {
   const {
-    spreadsheetId,
-    calendarAId,
-    calendarBId,
-    calendarAPrefix,
-    calendarBPrefix,
+    calendars,
+    syncMode,
+    pairs,
+    rulesSheet,
+    incrementalSync,
     maxEvents,
     daysAhead,
-    telegramBotToken,
-    telegramChatId,
+    orphanLimits,
+    recurrenceMode,
+    conflictPolicy,
+    verbose,
+    dryRun,
+    notifier,
+    alertPolicy,
     gcal,
-    gsheet,
+    store,
   } = ctx;
+  // Series mode lists recurring masters and their exceptions instead of occurrences
+  const singleEvents = recurrenceMode === "instances";
+  const steps = createStepTimer();
+  const startedAt = new Date(await SolidActions.now()).toISOString();
 
   try {
     SolidActions.logger.info(
-      `Starting calendar sync: ${calendarAId} <-> ${calendarBId}`,
+      `Starting ${syncMode} calendar sync: ${calendars.map((c) => c.id).join(", ")} (${pairs.length} directions)`,
     );
 
-    // Step 1: Parallel fetch from both calendars
-    const [fetchAResult, fetchBResult] = await Promise.allSettled([
-      SolidActions.runStep(
-        () => fetchEvents(gcal, calendarAId, maxEvents, daysAhead),
-        { name: "fetch-calendar-a-events" },
-      ),
-      SolidActions.runStep(
-        () => fetchEvents(gcal, calendarBId, maxEvents, daysAhead),
-        { name: "fetch-calendar-b-events" },
+    // Step 1: In incremental mode, load the stored sync token per calendar
+    const syncTokens = incrementalSync
+      ? await steps.runStep(
+        () => store.loadSyncTokens(),
+        { name: "load-sync-tokens" },
+      )
+      : {};
+
+    // Sync rules kept in the sync_rules sheet tab are read once per run
+    const syncRules = rulesSheet
+      ? await steps.runStep(
+        async () => rulesFromSheetRows(await loadSyncRuleRows(rulesSheet.gsheet, rulesSheet.spreadsheetId)),
+        { name: "load-sync-rules" },
+      )
+      : ctx.syncRules;
+    if (rulesSheet) checkRuleDirections(syncRules, pairs, "sync_rules sheet");
+
+    // Step 2: Parallel fetch from all calendars
+    const fetchResults = await Promise.allSettled(
+      calendars.map((calendar, index) =>
+        steps.runStep(
+          () =>
+            incrementalSync
+              ? fetchEventChanges(gcal, calendar.id, syncTokens[calendar.id], maxEvents, daysAhead, singleEvents)
+              : fetchEvents(gcal, calendar.id, maxEvents, daysAhead, singleEvents),
+          { name: `fetch-calendar-${calendarLabel(index)}-events` },
+        ),
       ),
-    ]);
+    );
 
-    const eventsA =
-      fetchAResult.status === "fulfilled" ? fetchAResult.value : [];
-    const eventsB =
-      fetchBResult.status === "fulfilled" ? fetchBResult.value : [];
+    const listings: Record<string, EventListing> = {};
+    const failedCalendars: string[] = [];
+    fetchResults.forEach((result, index) => {
+      const calendar = calendars[index];
+      const label = calendarLabel(index).toUpperCase();
+      if (result.status === "fulfilled") {
+        listings[calendar.id] = result.value;
+        const stored = syncTokens[calendar.id];
+        if (stored && result.value.mode === "full") {
+          SolidActions.logger.info(
+            stored.windowEnd === result.value.windowEnd
+              ? `Sync token for Calendar ${label} expired; ran a full resync`
+              : `Sync window for Calendar ${label} moved to ${result.value.windowEnd}; ran a full listing`,
+          );
+        }
+        const changed = result.value.events.length + result.value.removedEventIds.length;
+        if (result.value.mode === "incremental" && changed > maxEvents) {
+          SolidActions.logger.info(
+            `${changed} events changed in Calendar ${label}, more than MAX_EVENTS=${maxEvents}; applying all of them`,
+          );
+        }
+        if (result.value.truncated) {
+          SolidActions.logger.error(
+            `Calendar ${label} listing truncated at MAX_EVENTS=${maxEvents}; events past the cap are not synced` +
+              (result.value.nextSyncToken ? " until they change" : "") +
+              ", raise MAX_EVENTS to sync every event",
+          );
+        }
+      } else {
+        // No listing is recorded for a failed fetch: nothing is synced from
+        // that calendar and its copies are excluded from orphan detection,
+        // rather than treating every tracked original as deleted.
+        failedCalendars.push(calendar.id);
+        SolidActions.logger.error(
+          `Failed to fetch Calendar ${label} events: ${result.reason}`,
+        );
+      }
+    });
 
-    if (fetchAResult.status === "rejected") {
-      SolidActions.logger.error(
-        `Failed to fetch Calendar A events: ${fetchAResult.reason}`,
-      );
-    }
-    if (fetchBResult.status === "rejected") {
-      SolidActions.logger.error(
-        `Failed to fetch Calendar B events: ${fetchBResult.reason}`,
-      );
+    const eventsFetched: Record<string, number> = {};
+    const fetchModes: Record<string, EventListing["mode"]> = {};
+    const truncatedCalendars: string[] = [];
+    for (const [calendarId, listing] of Object.entries(listings)) {
+      eventsFetched[calendarId] = listing.events.length + listing.removedEventIds.length;
+      fetchModes[calendarId] = listing.mode;
+      if (listing.truncated) truncatedCalendars.push(calendarId);
     }
 
     SolidActions.logger.info(
-      `Fetched ${eventsA.length} events from A, ${eventsB.length} from B`,
+      `Fetched ${calendars
+        .map((c, i) => `${eventsFetched[c.id]} from ${calendarLabel(i).toUpperCase()}`)
+        .join(", ")}`,
     );
 
-    // Step 2: Load synced records from sheet (single load for entire workflow)
-    const syncedRecords = await SolidActions.runStep(
-      () => loadSyncedEvents(gsheet, spreadsheetId),
+    // Step 3: Load synced records from the mapping store (single load for entire workflow)
+    const syncedRecords = await steps.runStep(
+      () => store.loadSyncedEvents(),
       { name: "load-synced-records" },
     );
 
     SolidActions.logger.info(`Loaded ${syncedRecords.length} synced records`);
 
-    // Step 3: Sync A -> B (Calendar API ops only, deferred Sheet writes)
-    const aToBResult = await SolidActions.runStep(
-      () =>
-        syncDirection(
-          gcal,
-          eventsA,
-          syncedRecords,
-          calendarAId,
-          calendarBId,
-          calendarAPrefix,
-        ),
-      { name: "sync-a-to-b" },
-    );
+    // Steps 4..n: For each direction, sync (Calendar API ops only) and then
+    // batch write that direction's mapping changes. Every direction works from
+    // the same syncedRecords — rows are keyed by source + target, so one
+    // direction's writes never affect another's analysis.
+    // One executor for the whole run, so concurrency learned from throttling
+    // in one direction carries over to the next
+    const executor = createRateLimitedExecutor({
+      initialConcurrency: CONCURRENCY,
+      maxConcurrency: MAX_CONCURRENCY,
+      waveDelayMs: BATCH_DELAY_MS,
+      maxRetries: MAX_RETRIES,
+      baseBackoffMs: BASE_BACKOFF_MS,
+      maxBackoffMs: MAX_BACKOFF_MS,
+    });
 
-    // Step 4: Batch write A->B Sheet changes
-    await SolidActions.runStep(
-      async () => {
-        await batchInsertSyncedEvents(gsheet, spreadsheetId, aToBResult.pendingInserts);
-        await batchUpdateSyncedEvents(gsheet, spreadsheetId, aToBResult.pendingUpdates);
-      },
-      { name: "batch-write-a-to-b" },
-    );
+    // A dry run stops here: it plans every write from the same listings and
+    // mapping, and nothing is written to the calendars or the mapping store
+    if (dryRun) {
+      const planned = await planSync(
+        steps,
+        gcal,
+        executor,
+        pairs,
+        listings,
+        syncedRecords,
+        syncRules,
+        recurrenceMode,
+        conflictPolicy,
+        orphanLimits,
+      );
+      for (const { label, stats } of planned.pairStats) {
+        SolidActions.logger.info(
+          `Dry run ${formatPairLabel(label)}: ${stats.created} to create, ${stats.updated} to update, ${stats.deleted} to delete`,
+        );
+      }
+      SolidActions.logger.info(
+        `Dry run orphans: ${planned.deletionStats.found} found` +
+          (planned.deletionStats.blockedReason ? ` (blocked: ${planned.deletionStats.blockedReason})` : "") +
+          `; ${planned.plan.length} changes planned, nothing was written`,
+      );
+      if (planned.failures.length > 0) {
+        SolidActions.logger.error(
+          `Dry run could not read ${planned.failures.length} events it plans to change; see failures`,
+        );
+      }
+      return {
+        mode: syncMode,
+        pairStats: planned.pairStats,
+        deletionStats: planned.deletionStats,
+        eventsFetched,
+        fetchModes,
+        truncatedCalendars,
+        fetchFailures: failedCalendars,
+        orphanDetectionSkipped: [...failedCalendars, ...planned.skippedCalendars],
+        throttling: planned.throttling,
+        conflicts: planned.conflicts,
+        failures: planned.failures,
+        sheetRecords: syncedRecords.length,
+        plan: planned.plan,
+      };
+    }
 
-    // Step 5: Sync B -> A (same syncedRecords — no reload needed)
-    const bToAResult = await SolidActions.runStep(
-      () =>
-        syncDirection(
-          gcal,
-          eventsB,
-          syncedRecords,
-          calendarBId,
-          calendarAId,
-          calendarBPrefix,
-        ),
-      { name: "sync-b-to-a" },
-    );
+    let throttling = emptyThrottleStats(CONCURRENCY);
 
-    // Step 6: Batch write B->A Sheet changes
-    await SolidActions.runStep(
-      async () => {
-        await batchInsertSyncedEvents(gsheet, spreadsheetId, bToAResult.pendingInserts);
-        await batchUpdateSyncedEvents(gsheet, spreadsheetId, bToAResult.pendingUpdates);
-      },
-      { name: "batch-write-b-to-a" },
-    );
+    const pairStats: PairStats[] = [];
+    const failures: SyncFailure[] = [];
+    const changes = emptyChanges();
+    const filteredKeys: string[] = [];
+    for (const pair of pairs) {
+      const result = await syncDirection(
+        steps,
+        gcal,
+        executor,
+        pair,
+        listings[pair.sourceCalendarId]?.events ?? [],
+        listings[pair.targetCalendarId]?.events ?? [],
+        syncedRecords,
+        rulesForDirection(syncRules, pair.label),
+        recurrenceMode,
+        conflictPolicy,
+      );
 
-    // Step 7: Detect and delete orphans (Calendar API ops only)
-    const orphanResult = await SolidActions.runStep(
-      () =>
-        detectAndDeleteOrphans(
-          gcal,
-          eventsA,
-          eventsB,
-          syncedRecords,
-          calendarAId,
-          calendarBId,
+      await steps.runStep(
+        async () => {
+          await store.batchInsertSyncedEvents(result.pendingInserts);
+          await store.batchUpdateSyncedEvents(result.pendingUpdates);
+        },
+        { name: `batch-write-${pair.label}` },
+      );
+
+      pairStats.push({
+        label: pair.label,
+        sourceCalendarId: pair.sourceCalendarId,
+        targetCalendarId: pair.targetCalendarId,
+        stats: result.stats,
+        filteredByRule: result.filteredByRule,
+        editsPropagated: result.editsPropagated,
+        conflicts: result.conflicts,
+      });
+      filteredKeys.push(
+        ...result.filteredTrackedIds.map(
+          (id) => `${pair.sourceCalendarId}:${id}:${pair.targetCalendarId}`,
         ),
-      { name: "detect-and-delete-orphans" },
+      );
+      failures.push(...result.failures);
+      changes.created.push(...result.changes.created);
+      changes.updated.push(...result.changes.updated);
+      changes.deleted.push(...result.changes.deleted);
+      throttling = mergeThrottleStats(throttling, result.throttling);
+    }
+
+    // Detect and delete orphans (Calendar API ops only)
+    const orphanResult = await detectAndDeleteOrphans(
+      steps,
+      gcal,
+      executor,
+      listings,
+      syncedRecords,
+      pairs,
+      orphanLimits,
+      filteredKeys,
     );
 
-    // Step 8: Batch delete orphan rows from Sheet
-    await SolidActions.runStep(
+    // Batch delete orphan rows from the mapping store, appending their
+    // tombstones first so a failure in between never loses a mapping
+    await steps.runStep(
       async () => {
-        const sheetId = await getSheetId(gsheet, spreadsheetId);
-        await batchDeleteSyncedEventRows(
-          gsheet,
-          spreadsheetId,
-          sheetId,
-          orphanResult.pendingDeletes.map((d) => d.rowId),
-        );
+        await store.appendTombstones(orphanResult.pendingDeletes.map((d) => d.tombstone));
+        await store.batchDeleteSyncedEventRows([
+          ...orphanResult.pendingDeletes.map((d) => d.rowId),
+          ...orphanResult.staleRowIds,
+        ]);
       },
       { name: "batch-delete-orphan-rows" },
     );
 
-    // Step 9: Log summary
-    const aToBStats = aToBResult.stats;
-    const bToAStats = bToAResult.stats;
-    const deletionStats = { deleted: orphanResult.deleted, errors: orphanResult.errors };
+    // Advance sync tokens. A calendar whose changes were not all applied keeps
+    // its old token so the same changes are fetched again next run.
+    const deletionStats: SyncOutput["deletionStats"] = {
+      found: orphanResult.found,
+      deleted: orphanResult.deleted,
+      errors: orphanResult.errors,
+      blockedReason: orphanResult.blockedReason,
+    };
+
+    if (incrementalSync) {
+      const failedSources = new Set(
+        pairStats.filter((p) => p.stats.errors > 0).map((p) => p.sourceCalendarId),
+      );
+      // Copy edits are seen in the target's listing: a two-way direction that
+      // failed or held a conflict keeps the target's token too, so the same
+      // copies are checked again next run
+      for (const p of pairStats) {
+        if (pairs.find((pair) => pair.label === p.label)?.twoWay &&
+          (p.stats.errors > 0 || p.conflicts.some((c) => c.resolution === "review"))) {
+          failedSources.add(p.targetCalendarId);
+        }
+      }
+      const tokensToSave: Record<string, SyncTokenState> = {};
+      for (const calendar of calendars) {
+        const listing = listings[calendar.id];
+        const token = listing?.nextSyncToken;
+        if (
+          listing &&
+          token &&
+          deletionStats.errors === 0 &&
+          !deletionStats.blockedReason &&
+          !failedSources.has(calendar.id)
+        ) {
+          tokensToSave[calendar.id] = { token, windowEnd: listing.windowEnd };
+        }
+      }
+      await steps.runStep(
+        () => store.saveSyncTokens(tokensToSave),
+        { name: "save-sync-tokens" },
+      );
+    }
 
+    // Log summary
     const output: SyncOutput = {
-      aToBStats,
-      bToAStats,
+      mode: syncMode,
+      pairStats,
       deletionStats,
-      eventsA: eventsA.length,
-      eventsB: eventsB.length,
+      eventsFetched,
+      fetchModes,
+      truncatedCalendars,
+      fetchFailures: failedCalendars,
+      orphanDetectionSkipped: [...failedCalendars, ...orphanResult.skippedCalendars],
+      throttling: mergeThrottleStats(throttling, orphanResult.throttling),
+      conflicts: pairStats.flatMap((p) => p.conflicts),
+      failures: [...failures, ...orphanResult.failures],
+      ...(verbose
+        ? { changes: { ...changes, deleted: [...changes.deleted, ...orphanResult.deletedItems] } }
+        : {}),
       sheetRecords: syncedRecords.length,
     };
 
-    await SolidActions.runStep(
+    await steps.runStep(
       async () => {
         SolidActions.logger.info("=== Sync Summary ===");
-        SolidActions.logger.info(
-          `Calendar A -> B: ${aToBStats.created} created, ${aToBStats.updated} updated, ${aToBStats.errors} errors`,
-        );
-        SolidActions.logger.info(
-          `Calendar B -> A: ${bToAStats.created} created, ${bToAStats.updated} updated, ${bToAStats.errors} errors`,
-        );
+        for (const { label, stats, filteredByRule, editsPropagated } of pairStats) {
+          const filtered = Object.entries(filteredByRule)
+            .map(([rule, count]) => `${rule}=${count}`)
+            .join(", ");
+          SolidActions.logger.info(
+            `${formatPairLabel(label)}: ${stats.created} created, ${stats.updated} updated, ${stats.errors} errors` +
+              (editsPropagated > 0 ? `, ${editsPropagated} copy edits written back` : "") +
+              (filtered ? ` (filtered: ${filtered})` : ""),
+          );
+        }
+        if (output.conflicts.length > 0) {
+          SolidActions.logger.info(
+            `Edit conflicts: ${output.conflicts.map((c) => `${c.direction} ${c.sourceEventId} -> ${c.resolution}`).join(", ")}`,
+          );
+        }
         SolidActions.logger.info(
           `Orphans: ${deletionStats.deleted} deleted, ${deletionStats.errors} errors`,
         );
+        if (output.throttling.throttled > 0) {
+          SolidActions.logger.info(
+            `Throttled ${output.throttling.throttled} times: ${output.throttling.retries} retries, ` +
+              `${output.throttling.exhausted} gave up, ${Math.round(output.throttling.backoffMs / 1000)}s backing off, ` +
+              `concurrency down to ${output.throttling.minConcurrency}`,
+          );
+        }
+        if (output.orphanDetectionSkipped.length > 0) {
+          SolidActions.logger.info(
+            `Orphan detection skipped (failed or truncated listing): ${output.orphanDetectionSkipped.join(", ")}`,
+          );
+        }
         return output;
       },
       { name: "log-summary" },
     );
 
-    // Step 10: Notify on errors
-    const totalErrors = aToBStats.errors + bToAStats.errors + deletionStats.errors;
-    if (totalErrors > 0 && telegramBotToken && telegramChatId) {
-      await SolidActions.runStep(
-        () =>
-          sendTelegramError(
-            telegramBotToken,
-            telegramChatId,
-            `*Calendar Sync Completed with Errors*\n\n` +
-            `A→B: ${aToBStats.created} created, ${aToBStats.updated} updated, ${aToBStats.errors} errors\n` +
-            `B→A: ${bToAStats.created} created, ${bToAStats.updated} updated, ${bToAStats.errors} errors\n` +
-            `Orphans: ${deletionStats.deleted} deleted, ${deletionStats.errors} errors\n\n` +
-            `Total errors: *${totalErrors}*`,
-          ),
-        { name: "notify-errors-summary" },
+    // Raise an alert for every condition that needs attention; the policy decides what is sent
+    const raised: RaisedAlert[] = [];
+    if (deletionStats.blockedReason) {
+      raised.push({
+        kind: "cleanup-blocked",
+        key: normalizeAlertText(deletionStats.blockedReason),
+        detail: deletionStats.blockedReason,
+        message: {
+          title: "Calendar Sync Orphan Cleanup Blocked",
+          severity: "warning",
+          text:
+            "No copies were deleted. If this cleanup is intended, run " +
+            "sync-google-calendars-webhook with the input below.",
+          fields: [
+            { label: "Reason", value: deletionStats.blockedReason, code: true },
+            { label: "Input", value: `{"confirmLargeCleanup": true}`, code: true },
+          ],
+        },
+      });
+    }
+
+    // Copies and originals that both changed and are held for review
+    const reviewConflicts = output.conflicts.filter((c) => c.resolution === "review");
+    if (reviewConflicts.length > 0) {
+      raised.push({
+        kind: "edit-conflicts",
+        key: reviewConflicts.map((c) => `${c.direction}:${c.sourceEventId}`).sort().join(","),
+        detail: `${reviewConflicts.length} edit conflicts held for review`,
+        message: {
+          title: "Calendar Sync Edit Conflicts",
+          severity: "warning",
+          text:
+            "Both the copy and the original changed; neither was written. Make both sides agree, " +
+            `or run sync-google-calendars-webhook with {"conflictPolicy": "source"} or "latest".`,
+          fields: [
+            ...reviewConflicts.slice(0, MAX_ALERT_ITEMS).map((c) => ({
+              label: formatPairLabel(c.direction, "→"),
+              value: c.summary || c.sourceEventId,
+              code: true,
+            })),
+            ...(reviewConflicts.length > MAX_ALERT_ITEMS
+              ? [{ label: "More", value: `${reviewConflicts.length - MAX_ALERT_ITEMS} more in the workflow output` }]
+              : []),
+          ],
+        },
+      });
+    }
+
+    // Per-operation errors, fingerprinted by where they happened rather than how many
+    const totalErrors =
+      pairStats.reduce((sum, p) => sum + p.stats.errors, 0) + deletionStats.errors;
+    if (totalErrors > 0) {
+      const failingParts = [
+        ...pairStats.filter((p) => p.stats.errors > 0).map((p) => p.label),
+        ...(deletionStats.errors > 0 ? ["orphans"] : []),
+      ];
+      raised.push({
+        kind: "sync-errors",
+        key: failingParts.join(","),
+        detail: `${totalErrors} errors in ${failingParts.join(", ")}`,
+        message: {
+          title: "Calendar Sync Completed with Errors",
+          severity: "warning",
+          fields: [
+            ...pairStats.map(({ label, stats }) => ({
+              label: formatPairLabel(label, "→"),
+              value: `${stats.created} created, ${stats.updated} updated, ${stats.errors} errors`,
+            })),
+            { label: "Orphans", value: `${deletionStats.deleted} deleted, ${deletionStats.errors} errors` },
+            { label: "Total errors", value: String(totalErrors) },
+            ...output.failures.slice(0, MAX_ALERT_ITEMS).map((f) => ({
+              label: `${f.direction} ${f.operation}`,
+              value: `${f.summary || f.sourceEventId}: ${f.status > 0 ? `HTTP ${f.status}` : "no response"}`,
+              code: true,
+            })),
+            ...(output.failures.length > MAX_ALERT_ITEMS
+              ? [{ label: "More", value: `${output.failures.length - MAX_ALERT_ITEMS} more in the workflow output` }]
+              : []),
+          ],
+        },
+      });
+    }
+
+    if (notifier.channels.length > 0) {
+      const alerts = await steps.runStep(
+        () => deliverAlerts(store, notifier, alertPolicy, raised, { partial: false }),
+        { name: "send-alerts" },
       );
+      SolidActions.logger.info(
+        `Alerts: ${alerts.sent} sent, ${alerts.suppressed} suppressed, ${alerts.deferred} deferred, ` +
+          `${alerts.held} held for the digest, ${alerts.recovered} recovered`,
+      );
+      if (alerts.undelivered.length > 0) {
+        SolidActions.logger.error(
+          `No alert channel accepted ${alerts.undelivered.length} message(s): ${alerts.undelivered.join(", ")}`,
+        );
+      }
     }
 
+    // Append the run to the history read by sync-status
+    const directionStats: Record<string, SyncStats> = Object.fromEntries(pairStats.map((p) => [p.label, p.stats]));
+    directionStats.orphans = { created: 0, updated: 0, deleted: deletionStats.deleted, errors: deletionStats.errors };
+    const runRecord = {
+      workflow_id: SolidActions.workflowID!,
+      started_at: startedAt,
+      status: totalErrors > 0 || failedCalendars.length > 0 ? "errors" as const : "success" as const,
+      events_fetched: Object.values(eventsFetched).reduce((sum, n) => sum + n, 0),
+      direction_stats: directionStats,
+      step_durations: { ...steps.durations },
+      throttling: output.throttling,
+      error: "",
+    };
+    await SolidActions.runStep(() => recordSyncRun(store, runRecord), { name: "record-sync-run" });
+
     return output;
   } catch (error: unknown) {
-    // Send Telegram error notification
-    if (telegramBotToken && telegramChatId) {
+    // A dry run writes nothing, not even the record of its failure
+    if (dryRun) throw error;
+
+    const message = (error as Error).message;
+    const runRecord = {
+      workflow_id: SolidActions.workflowID!,
+      started_at: startedAt,
+      status: "failed" as const,
+      events_fetched: 0,
+      direction_stats: {},
+      step_durations: { ...steps.durations },
+      throttling: emptyThrottleStats(CONCURRENCY),
+      error: message,
+    };
+    await SolidActions.runStep(() => recordSyncRun(store, runRecord), { name: "record-sync-run" });
+
+    if (notifier.channels.length > 0) {
       await SolidActions.runStep(
         () =>
-          sendTelegramError(
-            telegramBotToken,
-            telegramChatId,
-            `*Calendar Sync Failed*\n\nWorkflow: \`${SolidActions.workflowID}\`\nError: \`${(error as Error).message}\``,
+          deliverAlerts(
+            store,
+            notifier,
+            alertPolicy,
+            [
+              {
+                kind: "sync-failed",
+                key: normalizeAlertText(message),
+                detail: message,
+                message: {
+                  title: "Calendar Sync Failed",
+                  severity: "error",
+                  fields: [
+                    { label: "Workflow", value: SolidActions.workflowID!, code: true },
+                    { label: "Error", value: message, code: true },
+                  ],
+                },
+              },
+            ],
+            { partial: true },
           ),
         { name: "notify-error" },
       );
@@ -447,31 +2125,75 @@ async function syncGoogleCalendarsWorkflow(ctx: {
 
 // --- Define and Export ---
 
-export const syncWorkflow = defineWorkflow<void, SyncOutput>({
-  name: "sync-core",
-  run: (ctx) => {
-    const gcal = ctx.vars.GCAL as ConnectionVar;
-    const gsheet = ctx.vars.GSHEET as ConnectionVar;
+/**
+ * Resolve the sync configuration from project variables and run the sync.
+ * The workflow handle below wraps this; the node tests and the offline test
+ * runner call it directly with variables pointing at the fake proxy.
+ */
+export function runSyncFromVars(vars: Record<string, unknown>, input: SyncInput | undefined): Promise<SyncOutput> {
+  const gcal = vars.GCAL as ConnectionVar;
 
-    if (typeof gcal !== "object" || !gcal.proxyUrl) {
-      throw new Error("Missing or invalid GCAL connection variable");
-    }
+  if (typeof gcal !== "object" || !gcal.proxyUrl) {
+    throw new Error("Missing or invalid GCAL connection variable");
+  }
+
+  const calendars = resolveCalendars(vars);
+  const syncMode = resolveSyncMode(vars.SYNC_MODE as string | undefined);
+
+  const response = input?.response ?? "summary";
+  if (response !== "summary" && response !== "verbose") {
+    throw new Error(`Unknown response "${response}" (expected "summary" or "verbose")`);
+  }
+
+  // SYNC_RULES holds a JSON array of rules, or "sheet" to read the sync_rules tab
+  const rulesVar = vars.SYNC_RULES as string | undefined;
+  let rulesSheet: { gsheet: ConnectionVar; spreadsheetId: string } | undefined;
+  if (rulesVar?.trim().toLowerCase() === "sheet") {
+    const gsheet = vars.GSHEET as ConnectionVar;
     if (typeof gsheet !== "object" || !gsheet.proxyUrl) {
-      throw new Error("Missing or invalid GSHEET connection variable");
+      throw new Error("Missing or invalid GSHEET connection variable (needed for SYNC_RULES=sheet)");
     }
+    rulesSheet = { gsheet, spreadsheetId: vars.SPREADSHEET_ID as string };
+  }
 
-    return syncGoogleCalendarsWorkflow({
-      spreadsheetId: ctx.vars.SPREADSHEET_ID as string,
-      calendarAId: ctx.vars.CALENDAR_A_ID as string,
-      calendarBId: ctx.vars.CALENDAR_B_ID as string,
-      calendarAPrefix: (ctx.vars.CALENDAR_A_PREFIX as string | undefined) ?? "[A]",
-      calendarBPrefix: (ctx.vars.CALENDAR_B_PREFIX as string | undefined) ?? "[B]",
-      maxEvents: parseInt((ctx.vars.MAX_EVENTS as string | undefined) ?? "2500", 10),
-      daysAhead: parseInt((ctx.vars.DAYS_AHEAD as string | undefined) ?? "180", 10),
-      telegramBotToken: (ctx.vars.TELEGRAM_BOT_TOKEN as string | undefined) ?? "",
-      telegramChatId: (ctx.vars.TELEGRAM_CHAT_ID as string | undefined) ?? "",
-      gcal,
-      gsheet,
-    });
-  },
+  const pairs = applyTwoWaySync(
+    buildSyncPairs(
+      calendars,
+      syncMode,
+      vars.HUB_CALENDAR_ID as string | undefined,
+      resolvePrivacyOverrides(vars.PRIVACY_LEVELS as string | undefined),
+    ),
+    vars.TWO_WAY_SYNC as string | undefined,
+  );
+  const syncRules = rulesSheet ? [] : resolveSyncRules(rulesVar);
+  checkRuleDirections(syncRules, pairs, "SYNC_RULES");
+
+  return syncGoogleCalendarsWorkflow({
+    calendars,
+    syncMode,
+    pairs,
+    syncRules,
+    rulesSheet,
+    incrementalSync: (vars.INCREMENTAL_SYNC as string | undefined) === "true",
+    maxEvents: parseInt((vars.MAX_EVENTS as string | undefined) ?? "2500", 10),
+    daysAhead: parseInt((vars.DAYS_AHEAD as string | undefined) ?? "180", 10),
+    orphanLimits: {
+      maxDeletions: parseInt((vars.MAX_ORPHAN_DELETIONS as string | undefined) ?? "25", 10),
+      maxPercent: parseInt((vars.MAX_ORPHAN_DELETION_PERCENT as string | undefined) ?? "50", 10),
+      confirmed: input?.confirmLargeCleanup === true,
+    },
+    recurrenceMode: resolveRecurrenceMode(vars.RECURRENCE_MODE as string | undefined),
+    conflictPolicy: resolveConflictPolicy(input?.conflictPolicy ?? (vars.CONFLICT_POLICY as string | undefined)),
+    verbose: response === "verbose",
+    dryRun: input?.dryRun === true,
+    notifier: resolveNotifier(vars),
+    alertPolicy: resolveAlertPolicy(vars),
+    gcal,
+    store: createMappingStore(vars),
+  });
+}
+
+export const syncWorkflow = defineWorkflow<SyncInput, SyncOutput>({
+  name: "sync-core",
+  run: (ctx) => runSyncFromVars(ctx.vars, ctx.input),
 });
@@ -0,0 +1,232 @@
+/**
+ * Declarative include/exclude rules deciding which originals a direction copies.
+ * Rules come from SYNC_RULES (a JSON array) or, when SYNC_RULES is "sheet",
+ * from the sync_rules tab of the tracking spreadsheet.
+ *
+ * A rule matches an event when every condition it sets matches. For each
+ * direction: if any include rules apply, an event must match one of them;
+ * then the first matching exclude rule filters it out.
+ */
+
+import type { EventDateTime, GoogleCalendarEvent, SyncPair, SyncRule } from "./types.js";
+
+/** filteredByRule key for events that matched none of a direction's include rules. */
+export const NOT_INCLUDED = "not-included";
+
+/** Columns of the sync_rules sheet tab, in order. List cells are comma-separated. */
+export const SYNC_RULE_HEADERS = [
+  "name",
+  "action",
+  "directions",
+  "summary_pattern",
+  "transparency",
+  "event_types",
+  "declined",
+  "all_day",
+  "weekend",
+  "time_of_day",
+];
+
+/** eventType values the Calendar API returns; events without one are "default". */
+export const EVENT_TYPES = ["default", "outOfOffice", "focusTime", "workingLocation", "fromGmail", "birthday"];
+
+const TIME_OF_DAY_PATTERN = /^(\d{2}:\d{2})-(\d{2}:\d{2})$/;
+
+const FLAG_CONDITIONS = ["declined", "allDay", "weekend"] as const;
+
+const LIST_CONDITIONS = ["directions", "eventTypes"] as const;
+
+/** "HH:MM" with an hour of 00-23 and a minute of 00-59 */
+function isClockTime(hhmm: string): boolean {
+  const [h, m] = hhmm.split(":").map((v) => parseInt(v, 10));
+  return h <= 23 && m <= 59;
+}
+
+// --- Parsing ---
+
+/** Validate rules from SYNC_RULES or the sheet. Names default to "<action>-<n>". */
+export function parseSyncRules(raw: unknown, source: string): SyncRule[] {
+  if (!Array.isArray(raw)) {
+    throw new Error(`${source} must be a JSON array of rules`);
+  }
+
+  return raw.map((entry, index) => {
+    const rule = entry as Partial<SyncRule>;
+    const where = `${source} rule ${index + 1}`;
+    if (typeof entry !== "object" || entry === null) {
+      throw new Error(`${where}: must be an object`);
+    }
+    if (rule.action !== "include" && rule.action !== "exclude") {
+      throw new Error(`${where}: action must be "include" or "exclude"`);
+    }
+    if (rule.name !== undefined && typeof rule.name !== "string") {
+      throw new Error(`${where}: name must be a string`);
+    }
+    for (const key of FLAG_CONDITIONS) {
+      if (rule[key] !== undefined && typeof rule[key] !== "boolean") {
+        throw new Error(`${where}: ${key} must be true or false`);
+      }
+    }
+    for (const key of LIST_CONDITIONS) {
+      const list = rule[key];
+      if (list !== undefined && (!Array.isArray(list) || !list.every((v) => typeof v === "string"))) {
+        throw new Error(`${where}: ${key} must be an array of strings`);
+      }
+    }
+    if (rule.summaryPattern !== undefined) {
+      if (typeof rule.summaryPattern !== "string") {
+        throw new Error(`${where}: summaryPattern must be a string`);
+      }
+      try {
+        new RegExp(rule.summaryPattern, "i");
+      } catch (error: unknown) {
+        throw new Error(`${where}: invalid summaryPattern: ${(error as Error).message}`);
+      }
+    }
+    if (rule.transparency !== undefined && rule.transparency !== "opaque" && rule.transparency !== "transparent") {
+      throw new Error(`${where}: transparency must be "opaque" or "transparent"`);
+    }
+    const unknownTypes = (rule.eventTypes ?? []).filter((type) => !EVENT_TYPES.includes(type));
+    if (unknownTypes.length > 0) {
+      throw new Error(`${where}: unknown eventTypes ${unknownTypes.join(", ")} (expected ${EVENT_TYPES.join(", ")})`);
+    }
+    if (rule.timeOfDay !== undefined) {
+      const match = typeof rule.timeOfDay === "string" ? rule.timeOfDay.match(TIME_OF_DAY_PATTERN) : null;
+      if (!match || !isClockTime(match[1]) || !isClockTime(match[2])) {
+        throw new Error(`${where}: timeOfDay must look like "09:00-17:00", with hours 00-23 and minutes 00-59`);
+      }
+    }
+    return { ...rule, name: rule.name || `${rule.action}-${index + 1}` } as SyncRule;
+  });
+}
+
+/** Reject rules naming directions that are not synced, which would otherwise never apply. */
+export function checkRuleDirections(rules: SyncRule[], pairs: SyncPair[], source: string): void {
+  for (const rule of rules) {
+    const unknown = (rule.directions ?? []).filter((label) => !pairs.some((p) => p.label === label));
+    if (unknown.length > 0) {
+      throw new Error(`${source} rule "${rule.name}" names directions that are not synced: ${unknown.join(", ")}`);
+    }
+  }
+}
+
+/** Parse SYNC_RULES when it holds JSON. Returns [] when unset. */
+export function resolveSyncRules(value: string | undefined): SyncRule[] {
+  if (!value || value.trim() === "") return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error: unknown) {
+    throw new Error(`SYNC_RULES is not valid JSON: ${(error as Error).message}`);
+  }
+  return parseSyncRules(parsed, "SYNC_RULES");
+}
+
+/** Turn sync_rules sheet rows (header excluded) into rules. Blank cells leave a condition unset. */
+export function rulesFromSheetRows(rows: string[][]): SyncRule[] {
+  const list = (cell: string) => cell.split(",").map((v) => v.trim()).filter(Boolean);
+  // Anything but true or false is passed through for parseSyncRules to reject
+  const flag = (cell: string) => {
+    const value = cell.trim().toLowerCase();
+    if (value === "") return undefined;
+    return value === "true" ? true : value === "false" ? false : cell;
+  };
+
+  const raw = rows
+    .filter((row) => (row[1] ?? "").trim() !== "")
+    .map((row) => {
+      const cells = SYNC_RULE_HEADERS.map((_, i) => (row[i] ?? "").trim());
+      const rule: Record<string, unknown> = { name: cells[0], action: cells[1].toLowerCase() };
+      if (cells[2]) rule.directions = list(cells[2]);
+      if (cells[3]) rule.summaryPattern = cells[3];
+      if (cells[4]) rule.transparency = cells[4];
+      if (cells[5]) rule.eventTypes = list(cells[5]);
+      if (flag(cells[6]) !== undefined) rule.declined = flag(cells[6]);
+      if (flag(cells[7]) !== undefined) rule.allDay = flag(cells[7]);
+      if (flag(cells[8]) !== undefined) rule.weekend = flag(cells[8]);
+      if (cells[9]) rule.timeOfDay = cells[9];
+      return rule;
+    });
+
+  return parseSyncRules(raw, "sync_rules sheet");
+}
+
+// --- Evaluation ---
+
+/** Wall-clock date and minutes past midnight of an event start, as written by the calendar. */
+function localStart(dt: EventDateTime | undefined): { date: string; minutes?: number } | undefined {
+  if (!dt) return undefined;
+  if ("date" in dt) return { date: dt.date };
+  const match = dt.dateTime.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  return { date: match[1], minutes: parseInt(match[2], 10) * 60 + parseInt(match[3], 10) };
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map((v) => parseInt(v, 10));
+  return h * 60 + m;
+}
+
+function isDeclined(event: GoogleCalendarEvent): boolean {
+  return (event.attendees ?? []).some((a) => a.self === true && a.responseStatus === "declined");
+}
+
+/** True when the event satisfies every condition the rule sets. */
+export function ruleMatches(rule: SyncRule, event: GoogleCalendarEvent): boolean {
+  if (rule.summaryPattern !== undefined && !new RegExp(rule.summaryPattern, "i").test(event.summary ?? "")) {
+    return false;
+  }
+  if (rule.transparency !== undefined && (event.transparency ?? "opaque") !== rule.transparency) {
+    return false;
+  }
+  if (rule.eventTypes !== undefined && !rule.eventTypes.includes(event.eventType ?? "default")) {
+    return false;
+  }
+  if (rule.declined !== undefined && isDeclined(event) !== rule.declined) {
+    return false;
+  }
+
+  const start = localStart(event.start);
+  const allDay = event.start !== undefined && "date" in event.start;
+  if (rule.allDay !== undefined && allDay !== rule.allDay) {
+    return false;
+  }
+  if (rule.weekend !== undefined) {
+    if (!start) return false;
+    const day = new Date(`${start.date}T00:00:00Z`).getUTCDay();
+    if ((day === 0 || day === 6) !== rule.weekend) return false;
+  }
+  if (rule.timeOfDay !== undefined) {
+    // All-day events have no time of day and never match a window
+    if (start?.minutes === undefined) return false;
+    const [, fromText, toText] = rule.timeOfDay.match(TIME_OF_DAY_PATTERN) ?? [];
+    const from = toMinutes(fromText);
+    const to = toMinutes(toText);
+    // A window like "22:00-06:00" wraps past midnight
+    const inWindow = from <= to
+      ? start.minutes >= from && start.minutes < to
+      : start.minutes >= from || start.minutes < to;
+    if (!inWindow) return false;
+  }
+
+  return true;
+}
+
+/** Rules that apply to one direction, by label. */
+export function rulesForDirection(rules: SyncRule[], label: string): SyncRule[] {
+  return rules.filter((rule) => !rule.directions || rule.directions.includes(label));
+}
+
+/**
+ * Decide whether a direction copies an event.
+ * Returns the name of the rule that filtered it (or NOT_INCLUDED), or
+ * undefined when the event should be synced.
+ */
+export function filterReason(rules: SyncRule[], event: GoogleCalendarEvent): string | undefined {
+  const includes = rules.filter((r) => r.action === "include");
+  if (includes.length > 0 && !includes.some((r) => ruleMatches(r, event))) {
+    return NOT_INCLUDED;
+  }
+  return rules.find((r) => r.action === "exclude" && ruleMatches(r, event))?.name;
+}
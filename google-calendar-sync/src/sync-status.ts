@@ -0,0 +1,84 @@
+/**
+ * Sync status workflow.
+ * Reads the run history that sync-core appends to sync_runs and reports the
+ * latest runs, their success rate and how long ago a sync last succeeded.
+ * Read-only.
+ * Trigger: webhook (response: wait).
+ */
+
+import { SolidActions, defineWorkflow } from "@solidactions/sdk";
+import type { MappingStore, SyncRunRecord } from "./types.js";
+import { createMappingStore } from "./mapping-store.js";
+
+// --- Types ---
+
+export interface SyncStatusInput {
+  /** Runs to return, most recent first (default 10, at most 100) */
+  limit?: number;
+}
+
+export interface SyncStatusOutput {
+  /** The latest `limit` runs, most recent first */
+  runs: SyncRunRecord[];
+  /** Runs recorded in sync_runs */
+  totalRuns: number;
+  /** Share of the returned runs with status "success", from 0 to 1 */
+  successRate: number;
+  /** When the latest successful run in the whole history finished */
+  lastSuccessAt?: string;
+  secondsSinceLastSuccess?: number;
+}
+
+// --- Configuration ---
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+
+// --- Step Functions ---
+
+/** Summarize the history inside one step, so only the summary is recorded. */
+async function loadSyncStatus(store: MappingStore, limit: number): Promise<SyncStatusOutput> {
+  let history: SyncRunRecord[];
+  try {
+    history = await store.loadSyncRuns();
+  } catch (error: unknown) {
+    throw new Error(`Cannot read sync_runs (run init-database after upgrading): ${(error as Error).message}`);
+  }
+  const runs = history.slice(-limit).reverse();
+  const successes = runs.filter((r) => r.status === "success").length;
+  const lastSuccess = [...history].reverse().find((r) => r.status === "success");
+
+  return {
+    runs,
+    totalRuns: history.length,
+    successRate: runs.length > 0 ? Math.round((successes / runs.length) * 1000) / 1000 : 0,
+    lastSuccessAt: lastSuccess?.finished_at,
+    secondsSinceLastSuccess: lastSuccess
+      ? Math.round((Date.now() - Date.parse(lastSuccess.finished_at)) / 1000)
+      : undefined,
+  };
+}
+
+// --- Workflow Function ---
+
+async function syncStatusWorkflow(input: SyncStatusInput, store: MappingStore): Promise<SyncStatusOutput> {
+  const limit = input.limit ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new Error(`limit must be a whole number from 1 to ${MAX_LIMIT}, got ${JSON.stringify(input.limit)}`);
+  }
+
+  const status = await SolidActions.runStep(() => loadSyncStatus(store, limit), { name: "load-sync-status" });
+
+  SolidActions.logger.info(
+    `${status.totalRuns} runs recorded; ${Math.round(status.successRate * 100)}% of the last ${status.runs.length} succeeded` +
+      (status.lastSuccessAt ? `; last success ${status.lastSuccessAt}` : "; no successful run recorded"),
+  );
+  return status;
+}
+
+// --- Define and Export ---
+
+export const handle = defineWorkflow<SyncStatusInput, SyncStatusOutput>({
+  name: "sync-status",
+  run: (ctx) => syncStatusWorkflow(ctx.input ?? {}, createMappingStore(ctx.vars)),
+});
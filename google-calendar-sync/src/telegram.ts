@@ -1,33 +1,109 @@
 /**
- * Telegram notification helper for error alerts.
+ * Telegram notification channel.
+ * Sends alerts through the Bot API sendMessage method with MarkdownV2
+ * formatting; every piece of message text is escaped for that mode.
  */
 
-/** Send an error notification to Telegram. Never throws — logs errors instead. */
-export async function sendTelegramError(
-  botToken: string,
-  chatId: string,
-  message: string,
-): Promise<void> {
-  try {
-    const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
-    const response = await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        chat_id: chatId,
-        text: message,
-        parse_mode: "Markdown",
-      }),
-    });
-
-    if (!response.ok) {
-      console.error(
-        `Telegram API error: ${response.status} ${response.statusText}`,
-      );
+import type { NotificationChannel, NotificationMessage, NotificationSeverity } from "./types.js";
+
+// --- Configuration ---
+
+const TELEGRAM_TIMEOUT_MS = 15_000;
+
+/** Telegram rejects messages longer than this */
+const TELEGRAM_MAX_LENGTH = 4096;
+
+const SEVERITY_ICONS: Record<NotificationSeverity, string> = {
+  info: "ℹ️",
+  warning: "⚠️",
+  error: "🚨",
+};
+
+// --- Rendering ---
+
+/** Escape text outside entities for MarkdownV2. */
+export function escapeMarkdownV2(text: string): string {
+  return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, "\\$&");
+}
+
+/** Inside `code` spans only the backtick and backslash are escaped. */
+function escapeMarkdownV2Code(text: string): string {
+  return text.replace(/[`\\]/g, "\\$&");
+}
+
+/** Inside a link target only `)` and backslash are escaped. */
+function escapeMarkdownV2Url(url: string): string {
+  return url.replace(/[)\\]/g, "\\$&");
+}
+
+/**
+ * Cut plain `text` so its escaped form fits in `room` characters, ending in
+ * an ellipsis when cut. Cutting before escaping never splits an escape.
+ */
+function truncateForMarkdownV2(text: string, room: number): string {
+  if (escapeMarkdownV2(text).length <= room) return text;
+  let cut = "";
+  let length = 0;
+  for (const char of text) {
+    length += escapeMarkdownV2(char).length;
+    if (length > room - 1) break;
+    cut += char;
+  }
+  return `${cut}…`;
+}
+
+function renderMarkdownV2(message: NotificationMessage): string {
+  const lines = [`${SEVERITY_ICONS[message.severity]} *${escapeMarkdownV2(message.title)}*`];
+  if (message.text) lines.push("", escapeMarkdownV2(message.text));
+  if (message.fields?.length) {
+    lines.push("");
+    for (const field of message.fields) {
+      const value = field.code ? `\`${escapeMarkdownV2Code(field.value)}\`` : escapeMarkdownV2(field.value);
+      lines.push(`*${escapeMarkdownV2(field.label)}:* ${value}`);
     }
-  } catch (error: unknown) {
-    console.error(
-      `Failed to send Telegram notification: ${(error as Error).message}`,
-    );
   }
+  if (message.links?.length) {
+    lines.push("", message.links.map((l) => `[${escapeMarkdownV2(l.label)}](${escapeMarkdownV2Url(l.url)})`).join(" · "));
+  }
+  return lines.join("\n");
+}
+
+/** Render a message as MarkdownV2 text within Telegram's message length. */
+export function renderTelegramMessage(message: NotificationMessage): string {
+  const text = renderMarkdownV2(message);
+  if (text.length <= TELEGRAM_MAX_LENGTH) return text;
+  // Cutting MarkdownV2 mid-entity breaks parsing, so long alerts drop their fields instead,
+  // and a text still too long is cut before it is escaped
+  const short = { ...message, fields: [{ label: "Details", value: "truncated; see the workflow logs" }] };
+  const shortText = renderMarkdownV2(short);
+  if (shortText.length <= TELEGRAM_MAX_LENGTH || !message.text) return shortText;
+  // The text paragraph adds its own length and a blank line
+  const room = TELEGRAM_MAX_LENGTH - renderMarkdownV2({ ...short, text: undefined }).length - 2;
+  return renderMarkdownV2({ ...short, text: truncateForMarkdownV2(message.text, room) });
+}
+
+// --- Channel ---
+
+/** Telegram channel for one bot and chat. `send` throws on a non-2xx answer. */
+export function createTelegramChannel(botToken: string, chatId: string): NotificationChannel {
+  return {
+    name: "telegram",
+    async send(message) {
+      const text = renderTelegramMessage(message);
+      const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: chatId,
+          text,
+          parse_mode: "MarkdownV2",
+          disable_web_page_preview: true,
+        }),
+        signal: AbortSignal.timeout(TELEGRAM_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Telegram API error: ${response.status} ${(await response.text()).slice(0, 200)}`);
+      }
+    },
+  };
 }
@@ -9,7 +9,7 @@ import {
   deleteEvent,
   getEvent,
 } from "./google-calendar.js";
-import { loadSyncedEvents } from "./sheets.js";
+import type { MappingStore } from "./types.js";
 
 // --- Types ---
 
@@ -208,15 +208,14 @@ export function assertDescriptionContains(
   };
 }
 
-/** Verify a sheet record exists for a primary event. */
+/** Verify a mapping record exists for a primary event. */
 export async function assertSheetRecordExists(
-  conn: ConnectionVar,
-  spreadsheetId: string,
+  store: MappingStore,
   primaryEventId: string,
   primaryCalendar: string,
   testName: string,
 ): Promise<TestResult> {
-  const records = await loadSyncedEvents(conn, spreadsheetId);
+  const records = await store.loadSyncedEvents();
   const found = records.find(
     (r) =>
       r.primary_event_id === primaryEventId &&
@@ -233,15 +232,14 @@ export async function assertSheetRecordExists(
   };
 }
 
-/** Verify a sheet record does NOT exist for a primary event. */
+/** Verify a mapping record does NOT exist for a primary event. */
 export async function assertSheetRecordMissing(
-  conn: ConnectionVar,
-  spreadsheetId: string,
+  store: MappingStore,
   primaryEventId: string,
   primaryCalendar: string,
   testName: string,
 ): Promise<TestResult> {
-  const records = await loadSyncedEvents(conn, spreadsheetId);
+  const records = await store.loadSyncedEvents();
   const found = records.find(
     (r) =>
       r.primary_event_id === primaryEventId &&
@@ -14,8 +14,8 @@ import {
   getEvent,
   updateEvent,
 } from "./google-calendar.js";
-import { initSchema, loadSyncedEvents } from "./sheets.js";
-import type { SyncedEventRecord } from "./types.js";
+import { createMappingStore } from "./mapping-store.js";
+import type { MappingStore, SyncedEventRecord } from "./types.js";
 import { syncWorkflow, SyncOutput } from "./sync-core.js";
 import {
   TestResult,
@@ -33,6 +33,7 @@ import {
   cleanupTestEvents,
   buildReport,
 } from "./test-helpers.js";
+import { buildSyncLinkageProperties } from "./event-utils.js";
 
 // --- Types ---
 
@@ -44,11 +45,10 @@ interface CreatedTestEvents {
 // --- Step Functions ---
 
 async function setupSheet(
-  gsheet: ConnectionVar,
-  spreadsheetId: string,
+  store: MappingStore,
 ): Promise<{ baselineCount: number }> {
-  await initSchema(gsheet, spreadsheetId);
-  const records = await loadSyncedEvents(gsheet, spreadsheetId);
+  await store.initSchema();
+  const records = await store.loadSyncedEvents();
   return { baselineCount: records.length };
 }
 
@@ -119,29 +119,27 @@ async function createTestEvents(
 }
 
 async function triggerSync(): Promise<SyncOutput> {
-  const handle = await SolidActions.startWorkflow(syncWorkflow)();
+  const handle = await SolidActions.startWorkflow(syncWorkflow)({});
   const result = await handle.getResult();
   return result;
 }
 
 async function getSheetRecords(
-  gsheet: ConnectionVar,
-  spreadsheetId: string,
+  store: MappingStore,
 ): Promise<SyncedEventRecord[]> {
-  return loadSyncedEvents(gsheet, spreadsheetId);
+  return store.loadSyncedEvents();
 }
 
 async function verifyCreates(
   gcal: ConnectionVar,
-  gsheet: ConnectionVar,
-  spreadsheetId: string,
+  store: MappingStore,
   testEvents: CreatedTestEvents,
   calendarAId: string,
   calendarBId: string,
   calendarAPrefix: string,
   calendarBPrefix: string,
 ): Promise<TestResult[]> {
-  const records = await loadSyncedEvents(gsheet, spreadsheetId);
+  const records = await store.loadSyncedEvents();
   const results: TestResult[] = [];
 
   // Helper to find the synced copy for a primary event
@@ -429,14 +427,13 @@ async function updateTestEvents(
 
 async function verifyUpdates(
   gcal: ConnectionVar,
-  gsheet: ConnectionVar,
-  spreadsheetId: string,
+  store: MappingStore,
   testEvents: CreatedTestEvents,
   calendarAId: string,
   calendarBId: string,
   ev8LastUpdatedBefore: string,
 ): Promise<TestResult[]> {
-  const records = await loadSyncedEvents(gsheet, spreadsheetId);
+  const records = await store.loadSyncedEvents();
   const results: TestResult[] = [];
 
   const findSecondary = (primaryId: string, primaryCal: string) =>
@@ -530,11 +527,11 @@ async function createDuplicateFilterEvents(
   gcal: ConnectionVar,
   calendarAId: string,
   calendarBId: string,
-): Promise<{ syncTagEventId: string; attendeeEventId: string }> {
-  // Event with sync metadata tag in description — should be skipped (check #1)
-  const syncTagEvent = await createEvent(gcal, calendarAId, {
-    ...makeBasicTimedEvent("TEST-DUP1 Sync Tag", 12),
-    description: "\u{1F504} SYNCED FROM: [Test] (test)",
+): Promise<{ linkedEventId: string; attendeeEventId: string }> {
+  // Event stamped with sync linkage properties — should be skipped (check #1)
+  const linkedEvent = await createEvent(gcal, calendarAId, {
+    ...makeBasicTimedEvent("TEST-DUP1 Linked Copy", 12),
+    extendedProperties: { private: buildSyncLinkageProperties(calendarBId, "test-dup1-original") },
   });
 
   // Event with Calendar B's ID in attendees — should be skipped (check #2)
@@ -543,28 +540,27 @@ async function createDuplicateFilterEvents(
     attendees: [{ email: calendarBId }],
   });
 
-  return { syncTagEventId: syncTagEvent.id, attendeeEventId: attendeeEvent.id };
+  return { linkedEventId: linkedEvent.id, attendeeEventId: attendeeEvent.id };
 }
 
 async function verifyDuplicateFilter(
   gcal: ConnectionVar,
-  gsheet: ConnectionVar,
-  spreadsheetId: string,
+  store: MappingStore,
   calendarAId: string,
   calendarBId: string,
-  dupEventIds: { syncTagEventId: string; attendeeEventId: string },
+  dupEventIds: { linkedEventId: string; attendeeEventId: string },
 ): Promise<TestResult[]> {
   const results: TestResult[] = [];
-  const records = await loadSyncedEvents(gsheet, spreadsheetId);
+  const records = await store.loadSyncedEvents();
 
-  // Check #1: sync-tagged event NOT synced
-  const syncTagRecord = records.find(
-    (r) => r.primary_event_id === dupEventIds.syncTagEventId && r.primary_calendar === calendarAId,
+  // Check #1: linked copy NOT synced
+  const linkedRecord = records.find(
+    (r) => r.primary_event_id === dupEventIds.linkedEventId && r.primary_calendar === calendarAId,
   );
-  if (!syncTagRecord) {
-    results.push({ phase: "verify-duplicates", test: "dup-filter: sync-tag skipped", status: "pass" });
+  if (!linkedRecord) {
+    results.push({ phase: "verify-duplicates", test: "dup-filter: linked copy skipped", status: "pass" });
   } else {
-    results.push({ phase: "verify-duplicates", test: "dup-filter: sync-tag skipped", status: "fail", details: "Sheet record created for sync-tagged event" });
+    results.push({ phase: "verify-duplicates", test: "dup-filter: linked copy skipped", status: "fail", details: "Sheet record created for linked copy" });
   }
 
   // Check #2: attendee-listed event NOT synced
@@ -577,14 +573,14 @@ async function verifyDuplicateFilter(
     results.push({ phase: "verify-duplicates", test: "dup-filter: attendee skipped", status: "fail", details: "Sheet record created for attendee-listed event" });
   }
 
-  // Check that sync-tagged event did NOT appear on Calendar B as a sync copy
-  const bEvents = await fetchEvents(gcal, calendarBId, 500, 30);
+  // Check that linked copy did NOT appear on Calendar B as a sync copy
+  const { events: bEvents } = await fetchEvents(gcal, calendarBId, 500, 30);
   const dupOnB1 = bEvents.find((e) => (e.summary ?? "").includes("TEST-DUP1"));
 
   if (!dupOnB1) {
-    results.push({ phase: "verify-duplicates", test: "dup-filter: no B copy for sync-tag", status: "pass" });
+    results.push({ phase: "verify-duplicates", test: "dup-filter: no B copy for linked copy", status: "pass" });
   } else {
-    results.push({ phase: "verify-duplicates", test: "dup-filter: no B copy for sync-tag", status: "fail", details: `Found event ${dupOnB1.id}` });
+    results.push({ phase: "verify-duplicates", test: "dup-filter: no B copy for linked copy", status: "fail", details: `Found event ${dupOnB1.id}` });
   }
 
   // Note: We don't assert "no B copy for attendee" because Google's invitation
@@ -618,8 +614,7 @@ async function deletePrimaryEvents(
 
 async function verifyOrphanCleanup(
   gcal: ConnectionVar,
-  gsheet: ConnectionVar,
-  spreadsheetId: string,
+  store: MappingStore,
   deletedIds: Array<{ id: string; calendar: string }>,
   testEvents: CreatedTestEvents,
   calendarAId: string,
@@ -627,7 +622,7 @@ async function verifyOrphanCleanup(
   preDeleteRecords: SyncedEventRecord[],
 ): Promise<TestResult[]> {
   const results: TestResult[] = [];
-  const records = await loadSyncedEvents(gsheet, spreadsheetId);
+  const records = await store.loadSyncedEvents();
 
   // Verify deleted primary events have sheet records removed
   for (const { id, calendar } of deletedIds) {
@@ -703,8 +698,7 @@ async function createEdgeCaseEvents(
 
 async function verifyEdgeCaseResults(
   gcal: ConnectionVar,
-  gsheet: ConnectionVar,
-  spreadsheetId: string,
+  store: MappingStore,
   calendarAId: string,
   calendarBId: string,
   calendarAPrefix: string,
@@ -714,7 +708,7 @@ async function verifyEdgeCaseResults(
   const edgeEventIds: string[] = [emptyEventId];
 
   // Verify synced copy has prefix with empty title
-  const records = await loadSyncedEvents(gsheet, spreadsheetId);
+  const records = await store.loadSyncedEvents();
   const emptyRecord = records.find(
     (r) => r.primary_event_id === emptyEventId && r.primary_calendar === calendarAId,
   );
@@ -752,18 +746,17 @@ async function verifyEdgeCaseResults(
 
 async function cleanupAllTestEvents(
   gcal: ConnectionVar,
-  gsheet: ConnectionVar,
+  store: MappingStore,
   calendarAId: string,
   calendarBId: string,
   testEvents: CreatedTestEvents,
-  dupEventIds: { syncTagEventId: string; attendeeEventId: string },
+  dupEventIds: { linkedEventId: string; attendeeEventId: string },
   edgeEventIds: string[],
-  spreadsheetId: string,
 ): Promise<void> {
   // Cleanup Calendar A events
   const allCalAIds = [
     ...testEvents.calA.map((e) => e.id),
-    dupEventIds.syncTagEventId,
+    dupEventIds.linkedEventId,
     dupEventIds.attendeeEventId,
     ...edgeEventIds,
   ];
@@ -775,7 +768,7 @@ async function cleanupAllTestEvents(
 
   // Cleanup Google-invited copies (from attendee duplicate filter test)
   // Google's invitation system creates events on Calendar B when B is an attendee
-  const bSearchEvents = await fetchEvents(gcal, calendarBId, 100, 30);
+  const { events: bSearchEvents } = await fetchEvents(gcal, calendarBId, 100, 30);
   for (const ev of bSearchEvents) {
     if (ev.id && (ev.summary ?? "").includes("TEST-DUP2")) {
       try {
@@ -787,7 +780,7 @@ async function cleanupAllTestEvents(
   }
 
   // Cleanup any synced copies still on both calendars
-  const records = await loadSyncedEvents(gsheet, spreadsheetId);
+  const records = await store.loadSyncedEvents();
   const testEventIdSet = new Set([...allCalAIds, ...allCalBIds]);
 
   for (const record of records) {
@@ -803,15 +796,20 @@ async function cleanupAllTestEvents(
 
 // --- Workflow Function ---
 
-async function testSyncWorkflowFn(
+/**
+ * Run every test phase against the given calendars and store.
+ * `runSync` performs one sync between phases: by default a child sync-core
+ * run; the offline runner (test-sync-offline.ts) syncs inline instead.
+ */
+export async function testSyncWorkflowFn(
   gcal: ConnectionVar,
-  gsheet: ConnectionVar,
-  spreadsheetId: string,
+  store: MappingStore,
   calendarAId: string,
   calendarBId: string,
   calendarAPrefix: string,
   calendarBPrefix: string,
   maxEvents: number,
+  runSync: () => Promise<SyncOutput> = triggerSync,
 ): Promise<TestReport> {
   const results: TestResult[] = [];
 
@@ -827,7 +825,7 @@ async function testSyncWorkflowFn(
 
   // Phase 1 — Setup
   const { baselineCount } = await SolidActions.runStep(
-    () => setupSheet(gsheet, spreadsheetId),
+    () => setupSheet(store),
     { name: "setup-sheet" },
   );
   SolidActions.logger.info(`Setup complete. Baseline records: ${baselineCount}`);
@@ -842,14 +840,14 @@ async function testSyncWorkflowFn(
   );
 
   // Phase 3 — First sync (startWorkflow must be called at workflow level, not in runStep)
-  const syncResult = await triggerSync();
+  const syncResult = await runSync();
   SolidActions.logger.info(`First sync complete: ${JSON.stringify(syncResult)}`);
 
   // Phase 3 — Verify creates
   const createResults = await SolidActions.runStep(
     () =>
       verifyCreates(
-        gcal, gsheet, spreadsheetId, testEvents,
+        gcal, store, testEvents,
         calendarAId, calendarBId, calendarAPrefix, calendarBPrefix,
       ),
     { name: "verify-creates" },
@@ -859,7 +857,7 @@ async function testSyncWorkflowFn(
 
   // Phase 4 — Record ev8 last_updated before update
   const preUpdateRecords = await SolidActions.runStep(
-    () => getSheetRecords(gsheet, spreadsheetId),
+    () => getSheetRecords(store),
     { name: "load-pre-update-records" },
   );
   const ev8PreRecord = preUpdateRecords.find(
@@ -875,14 +873,14 @@ async function testSyncWorkflowFn(
   SolidActions.logger.info("Test events updated");
 
   // Phase 5 — Second sync
-  await triggerSync();
+  await runSync();
   SolidActions.logger.info("Second sync complete");
 
   // Phase 5 — Verify updates
   const updateResults = await SolidActions.runStep(
     () =>
       verifyUpdates(
-        gcal, gsheet, spreadsheetId, testEvents,
+        gcal, store, testEvents,
         calendarAId, calendarBId, ev8LastUpdatedBefore,
       ),
     { name: "verify-updates" },
@@ -898,13 +896,13 @@ async function testSyncWorkflowFn(
   SolidActions.logger.info("Duplicate filter test events created");
 
   // Phase 6 — Sync for duplicate filter
-  await triggerSync();
+  await runSync();
 
   // Phase 6 — Verify duplicates skipped
   const dupResults = await SolidActions.runStep(
     () =>
       verifyDuplicateFilter(
-        gcal, gsheet, spreadsheetId,
+        gcal, store,
         calendarAId, calendarBId, dupEventIds,
       ),
     { name: "verify-duplicate-filter" },
@@ -914,7 +912,7 @@ async function testSyncWorkflowFn(
 
   // Phase 7 — Record pre-delete state
   const preDeleteRecords = await SolidActions.runStep(
-    () => getSheetRecords(gsheet, spreadsheetId),
+    () => getSheetRecords(store),
     { name: "load-pre-delete-records" },
   );
 
@@ -926,13 +924,13 @@ async function testSyncWorkflowFn(
   SolidActions.logger.info(`Deleted ${deletedIds.length} primary events`);
 
   // Phase 7 — Sync for orphan cleanup
-  await triggerSync();
+  await runSync();
 
   // Phase 7 — Verify orphan cleanup
   const orphanResults = await SolidActions.runStep(
     () =>
       verifyOrphanCleanup(
-        gcal, gsheet, spreadsheetId, deletedIds,
+        gcal, store, deletedIds,
         testEvents, calendarAId, calendarBId, preDeleteRecords,
       ),
     { name: "verify-orphan-cleanup" },
@@ -946,12 +944,12 @@ async function testSyncWorkflowFn(
     { name: "create-edge-case-events" },
   );
 
-  await triggerSync();
+  await runSync();
 
   const { results: edgeCaseResults, edgeEventIds } = await SolidActions.runStep(
     () =>
       verifyEdgeCaseResults(
-        gcal, gsheet, spreadsheetId,
+        gcal, store,
         calendarAId, calendarBId, calendarAPrefix, emptyEventId,
       ),
     { name: "verify-edge-cases" },
@@ -963,10 +961,9 @@ async function testSyncWorkflowFn(
   await SolidActions.runStep(
     () =>
       cleanupAllTestEvents(
-        gcal, gsheet,
+        gcal, store,
         calendarAId, calendarBId,
         testEvents, dupEventIds, edgeEventIds,
-        spreadsheetId,
       ),
     { name: "cleanup-test-events" },
   );
@@ -995,19 +992,14 @@ export const handle = defineWorkflow<void, TestReport>({
   name: "test-sync",
   run: (ctx) => {
     const gcal = ctx.vars.GCAL as ConnectionVar;
-    const gsheet = ctx.vars.GSHEET as ConnectionVar;
 
     if (typeof gcal !== "object" || !gcal.proxyUrl) {
       throw new Error("Missing or invalid GCAL connection variable");
     }
-    if (typeof gsheet !== "object" || !gsheet.proxyUrl) {
-      throw new Error("Missing or invalid GSHEET connection variable");
-    }
 
     return testSyncWorkflowFn(
       gcal,
-      gsheet,
-      ctx.vars.SPREADSHEET_ID as string,
+      createMappingStore(ctx.vars),
       ctx.vars.CALENDAR_A_ID as string,
       ctx.vars.CALENDAR_B_ID as string,
       (ctx.vars.CALENDAR_A_PREFIX as string | undefined) ?? "[A]",
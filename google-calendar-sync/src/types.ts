@@ -25,7 +25,47 @@ export interface GoogleCalendarEvent {
   hangoutLink?: string;
   transparency?: string;
   status?: string;
+  /** Last modification time (RFC 3339), set by Google */
+  updated?: string;
+  /** RRULE/EXDATE lines; only present on recurring masters when listed with singleEvents=false */
+  recurrence?: string[];
   recurringEventId?: string;
+  /** Start of the occurrence an exception replaces */
+  originalStartTime?: EventDateTime;
+  /** "default", "outOfOffice", "focusTime", "workingLocation", ... */
+  eventType?: string;
+  extendedProperties?: {
+    private?: Record<string, string>;
+    shared?: Record<string, string>;
+  };
+}
+
+/**
+ * Result of listing a calendar for one run.
+ * - `full`: every live event in the sync window; anything tracked but absent
+ *   has been deleted or moved out of the window.
+ * - `incremental`: only events changed since the stored sync token; deletions
+ *   are reported explicitly in `removedEventIds`.
+ */
+export interface EventListing {
+  mode: "full" | "incremental";
+  /** Live (non-cancelled) events inside the sync window */
+  events: GoogleCalendarEvent[];
+  /** Incremental only: events cancelled or moved out of the window since the last run */
+  removedEventIds: string[];
+  /** Token for the next incremental listing, when Google returned one */
+  nextSyncToken?: string;
+  /** Last day (UTC, YYYY-MM-DD) of the sync window the listing was made for */
+  windowEnd: string;
+  /** True when events past the MAX_EVENTS cap were left out */
+  truncated: boolean;
+}
+
+/** Source of a synced copy, read from its private extended properties */
+export interface SyncLinkage {
+  sourceCalendarId: string;
+  sourceEventId: string;
+  version: string;
 }
 
 /** Row from the synced_events table */
@@ -42,6 +82,8 @@ export interface SyncedEventRecord {
   created_at: string;
   last_updated: string;
   last_checked: string;
+  /** Signature of the copy as last written or seen by the sync; empty on rows written before two-way sync */
+  copy_signature: string;
 }
 
 /** Result of analyzing events for sync */
@@ -53,6 +95,38 @@ export interface SyncAnalysis {
   }>;
   unchanged: number;
   skippedDuplicate: number;
+  /** Events left out by sync rules, per rule name */
+  filteredByRule: Record<string, number>;
+  /** Tracked events now filtered out; their copies are removed like orphans */
+  filteredTrackedIds: string[];
+  /** Series mode: cancelled occurrences whose copy occurrence is not cancelled yet */
+  toCancel: Array<{
+    event: GoogleCalendarEvent;
+    dbRecord?: SyncedEventRecord;
+  }>;
+}
+
+/** Result of comparing a target calendar's copies with their stored copy signatures */
+export interface CopyEditAnalysis {
+  /** Copies whose title or time no longer matches what the sync last wrote */
+  edited: Array<{
+    dbRecord: SyncedEventRecord;
+    copy: GoogleCalendarEvent;
+  }>;
+  /** Copies whose row has no copy signature yet */
+  baseline: Array<{
+    dbRecord: SyncedEventRecord;
+    copy: GoogleCalendarEvent;
+  }>;
+}
+
+/** Per-direction options for analyzeEvents */
+export interface AnalyzeOptions {
+  privacy?: PrivacyLevel;
+  /** Sync rules that apply to this direction */
+  rules?: SyncRule[];
+  /** Listing came from a series-mode fetch (masters plus exceptions) */
+  seriesMode?: boolean;
 }
 
 /** Summary counters for sync operations */
@@ -63,6 +137,70 @@ export interface SyncStats {
   errors: number;
 }
 
+/** Calendar write a sync run makes for one event; also the progress `operation` */
+export type SyncOperation = "propagate" | "create" | "update" | "exceptions" | "cancel" | "delete";
+
+/** A Calendar write that failed for one event */
+export interface SyncFailure {
+  /** Direction label, e.g. "a-to-b" (orphan deletions use their row's direction) */
+  direction: string;
+  operation: SyncOperation;
+  sourceEventId: string;
+  summary: string;
+  /** HTTP status of the failed call; 0 when no response was received */
+  status: number;
+  /** Error body, or the message when there was none, truncated */
+  error: string;
+}
+
+/** A copy created, updated or deleted by a sync run */
+export interface SyncedItem {
+  direction: string;
+  sourceEventId: string;
+  copyEventId: string;
+  summary: string;
+  /** Original's start, as stored in the mapping */
+  start: string;
+}
+
+/** One entry per change counted in SyncStats created/updated/deleted */
+export interface SyncChanges {
+  created: SyncedItem[];
+  updated: SyncedItem[];
+  deleted: SyncedItem[];
+}
+
+/** A Calendar write found by a dry run, with the event body before and after it */
+export interface PlannedChange {
+  direction: string;
+  operation: SyncOperation;
+  sourceEventId: string;
+  /** Calendar and event written: the copy, or the original for a copy edit written back */
+  calendarId: string;
+  eventId: string;
+  summary: string;
+  /** Current body; absent for creates, or when the event could not be read */
+  before?: Record<string, unknown>;
+  /** Body that would be written; absent for deletes and copy edits held for review */
+  after?: Record<string, unknown>;
+  /** Why an orphan is deleted, or why a copy edit is held */
+  note?: string;
+}
+
+/** Rate-limit counters for Google API calls made through the executor */
+export interface ThrottleStats {
+  /** Calls answered with 429 or 403 rateLimitExceeded */
+  throttled: number;
+  /** Retries made after a throttled call */
+  retries: number;
+  /** Calls still throttled after the last retry (counted as errors) */
+  exhausted: number;
+  /** Total time spent backing off */
+  backoffMs: number;
+  /** Lowest concurrency the executor dropped to */
+  minConcurrency: number;
+}
+
 /** Pending sheet insert — matches fields needed for a new row */
 export interface PendingSheetInsert {
   primary_calendar: string;
@@ -73,6 +211,7 @@ export interface PendingSheetInsert {
   event_start: string;
   event_end: string;
   event_signature: string;
+  copy_signature: string;
 }
 
 /** Pending sheet update — full row data with row ID for in-place rewrite */
@@ -87,18 +226,48 @@ export interface PendingSheetUpdate {
   event_end: string;
   event_signature: string;
   created_at: string;
+  copy_signature: string;
 }
 
-/** Pending sheet delete — row ID for batch deletion */
+/** Pending sheet delete — row ID for batch deletion, plus the tombstone to keep */
 export interface PendingSheetDelete {
   rowId: number;
+  tombstone: PendingTombstone;
 }
 
+/** Row from the deleted_events tombstone table */
+export interface TombstoneRecord {
+  id: number;
+  deleted_at: string;
+  primary_calendar: string;
+  primary_event_id: string;
+  secondary_calendar: string;
+  secondary_event_id: string;
+  event_summary: string;
+  event_start: string;
+  event_end: string;
+  event_signature: string;
+  created_at: string;
+  /** JSON event body of the deleted copy; empty if the copy was already gone */
+  copy_body: string;
+  restored_at: string;
+}
+
+/** Pending tombstone append — the mapping row plus the deleted copy's body */
+export type PendingTombstone = Omit<TombstoneRecord, "id" | "deleted_at" | "restored_at">;
+
 /** Return type for refactored syncDirection() */
 export interface SyncDirectionResult {
   stats: SyncStats;
+  filteredByRule: Record<string, number>;
+  filteredTrackedIds: string[];
   pendingInserts: PendingSheetInsert[];
   pendingUpdates: PendingSheetUpdate[];
+  throttling: ThrottleStats;
+  editsPropagated: number;
+  conflicts: EditConflict[];
+  failures: SyncFailure[];
+  changes: SyncChanges;
 }
 
 /** Return type for refactored detectAndDeleteOrphans() */
@@ -106,21 +275,249 @@ export interface OrphanDetectionResult {
   deleted: number;
   errors: number;
   pendingDeletes: PendingSheetDelete[];
+  /** Calendars whose orphans were not checked because their listing was incomplete */
+  skippedCalendars: string[];
+  /** Orphans identified, whether or not they were deleted */
+  found: number;
+  /** Set when the circuit breaker stopped the cleanup */
+  blockedReason?: string;
+  /** Series mode: rows of exceptions gone from the listing whose copy is left to its series */
+  staleRowIds: number[];
+  throttling: ThrottleStats;
+  failures: SyncFailure[];
+  deletedItems: SyncedItem[];
+}
+
+/** Circuit-breaker limits for orphan cleanup */
+export interface OrphanDeletionLimits {
+  /** Most copies a single run may delete */
+  maxDeletions: number;
+  /** Largest share (0-100) of one calendar's tracked rows a single run may delete */
+  maxPercent: number;
+  /** Caller confirmed a large cleanup; limits are not enforced */
+  confirmed: boolean;
+}
+
+/** A calendar taking part in the sync, with the prefix applied to its copies */
+export interface CalendarConfig {
+  id: string;
+  prefix: string;
+  /** Privacy of the copies made from this calendar, unless overridden per direction */
+  privacy: PrivacyLevel;
+}
+
+/**
+ * How much of an original a copy reveals.
+ * - `full`: title, location, rooms, meeting link, guests and description.
+ * - `title-only`: prefixed title and time; no location or description details.
+ * - `busy-only`: a "<prefix> Busy" block marked private; nothing from the original but its time.
+ */
+export type PrivacyLevel = "full" | "title-only" | "busy-only";
+
+/**
+ * How calendars are paired up.
+ * - `mesh`: every calendar is synced to every other calendar.
+ * - `hub`: the hub calendar is synced to and from each spoke; spokes never
+ *   sync to each other directly.
+ */
+export type SyncMode = "mesh" | "hub";
+
+/**
+ * How recurring events are synced.
+ * - `instances`: every occurrence in the window is copied as its own event.
+ * - `series`: a recurring master is copied as one recurring event, and each
+ *   modified or cancelled occurrence is applied to the matching occurrence
+ *   of the copy.
+ */
+export type RecurrenceMode = "instances" | "series";
+
+/** One direction of the sync: originals in source are copied to target */
+export interface SyncPair {
+  /** Short label used in step names and logs, e.g. "a-to-b" */
+  label: string;
+  sourceCalendarId: string;
+  targetCalendarId: string;
+  prefix: string;
+  privacy: PrivacyLevel;
+  /** Edits made directly to the copies on target are written back to the originals */
+  twoWay?: boolean;
+}
+
+/**
+ * What happens when a copy and its original have both changed since the last run.
+ * - `source`: the original wins and overwrites the copy.
+ * - `latest`: the side with the later `updated` time wins.
+ * - `review`: neither side is written; the conflict is reported until both sides agree.
+ */
+export type ConflictPolicy = "source" | "latest" | "review";
+
+/** A copy and its original that both changed since the last run */
+export interface EditConflict {
+  /** Direction label, e.g. "a-to-b" */
+  direction: string;
+  sourceEventId: string;
+  copyEventId: string;
+  /** Title of the original */
+  summary: string;
+  /** Side that was written to the other, or "review" when neither was */
+  resolution: "source" | "copy" | "review";
+}
+
+/** Per-direction stats reported in the sync output */
+export interface PairStats {
+  label: string;
+  sourceCalendarId: string;
+  targetCalendarId: string;
+  stats: SyncStats;
+  filteredByRule: Record<string, number>;
+  /** Two-way directions: copy edits written back to their originals */
+  editsPropagated: number;
+  /** Two-way directions: copies and originals that both changed */
+  conflicts: EditConflict[];
+}
+
+/**
+ * Include/exclude rule for which originals get copied. Every condition that is
+ * set must match; unset conditions match anything.
+ */
+export interface SyncRule {
+  /** Key in SyncAnalysis.filteredByRule */
+  name: string;
+  action: "include" | "exclude";
+  /** Direction labels ("a-to-b") the rule applies to; all directions when omitted */
+  directions?: string[];
+  /** Case-insensitive regular expression tested against the original's summary */
+  summaryPattern?: string;
+  transparency?: "opaque" | "transparent";
+  /** Google eventType values, e.g. "outOfOffice", "focusTime", "workingLocation" */
+  eventTypes?: string[];
+  /** Whether the calendar owner declined the event */
+  declined?: boolean;
+  allDay?: boolean;
+  /** Whether the event starts on a Saturday or Sunday */
+  weekend?: boolean;
+  /** Start time window "HH:MM-HH:MM" in the calendar's local time; all-day events never match */
+  timeOfDay?: string;
+}
+
+/**
+ * A calendar's stored incremental-sync token. `windowEnd` is the last day of
+ * the window of the full listing the token descends from: a token only
+ * reports changed events, so an event the window moves onto is missed until
+ * the next full listing.
+ */
+export interface SyncTokenState {
+  token: string;
+  windowEnd: string;
+}
+
+/** Persistence backends for the sync mapping, selected by MAPPING_STORE */
+export type MappingStoreKind = "sheets" | "postgres" | "sqlite";
+
+/**
+ * Persistence for the sync mapping, sync tokens and tombstones.
+ * Row IDs are backend-specific: sheet row numbers for Sheets (they shift on
+ * delete), primary keys for SQL (stable).
+ */
+export interface MappingStore {
+  readonly kind: MappingStoreKind;
+  /** Create tables/tabs if missing. Idempotent. */
+  initSchema(): Promise<void>;
+  loadSyncedEvents(): Promise<SyncedEventRecord[]>;
+  batchInsertSyncedEvents(records: PendingSheetInsert[]): Promise<void>;
+  batchUpdateSyncedEvents(updates: PendingSheetUpdate[]): Promise<void>;
+  batchDeleteSyncedEventRows(rowIds: number[]): Promise<void>;
+  loadSyncTokens(): Promise<Record<string, SyncTokenState>>;
+  saveSyncTokens(tokens: Record<string, SyncTokenState>): Promise<void>;
+  /** Drop every stored token, so the next incremental run lists each calendar in full. */
+  clearSyncTokens(): Promise<void>;
+  appendTombstones(tombstones: PendingTombstone[]): Promise<void>;
+  loadTombstones(): Promise<TombstoneRecord[]>;
+  markTombstonesRestored(rowIds: number[]): Promise<void>;
+  loadAlertState(): Promise<AlertStateRecord[]>;
+  /** Replace the whole alert_state table with `records`. */
+  saveAlertState(records: AlertStateRecord[]): Promise<void>;
+  appendSyncRun(run: SyncRunRecord): Promise<void>;
+  /** Every recorded run, oldest first. */
+  loadSyncRuns(): Promise<SyncRunRecord[]>;
+}
+
+/** How urgent an alert is; channels render it as an icon or subject tag */
+export type NotificationSeverity = "info" | "warning" | "error";
+
+/** A labelled value shown under the alert text */
+export interface NotificationField {
+  label: string;
+  value: string;
+  /** Render the value as inline code (IDs, error messages, JSON input) */
+  code?: boolean;
 }
 
-/** Typed wrapper for all env vars with defaults */
-export interface EnvConfig {
-  googleOAuthToken: string;
-  calendarAId: string;
-  calendarBId: string;
-  calendarAPrefix: string;
-  calendarBPrefix: string;
-  maxEvents: number;
-  daysAhead: number;
-  telegramBotToken: string;
-  telegramChatId: string;
-  postgresHost: string;
-  postgresUser: string;
-  postgresPasswd: string;
-  postgresDb: string;
+export interface NotificationLink {
+  label: string;
+  url: string;
+}
+
+/** Channel-neutral alert; each channel renders and escapes it for its own format */
+export interface NotificationMessage {
+  title: string;
+  severity: NotificationSeverity;
+  /** Plain text paragraph below the title */
+  text?: string;
+  fields?: NotificationField[];
+  links?: NotificationLink[];
+}
+
+/** One delivery channel. `send` throws when the message was not accepted. */
+export interface NotificationChannel {
+  readonly name: NotificationChannelKind;
+  send(message: NotificationMessage): Promise<void>;
+}
+
+export type NotificationChannelKind = "telegram" | "slack" | "webhook" | "email";
+
+/** Fan-out over the configured channels. `notify` never throws. */
+export interface Notifier {
+  readonly channels: NotificationChannelKind[];
+  notify(message: NotificationMessage): Promise<{ delivered: NotificationChannelKind[]; failed: NotificationChannelKind[] }>;
+}
+
+/** Row of the alert_state table: one alert condition, keyed by fingerprint */
+export interface AlertStateRecord {
+  fingerprint: string;
+  /** Which check raised it, e.g. "sync-errors" */
+  kind: string;
+  severity: NotificationSeverity;
+  title: string;
+  /** One-line description for the digest */
+  detail: string;
+  first_seen: string;
+  last_seen: string;
+  /** When the alert was last sent live; empty while it was only suppressed, deferred or held for the digest */
+  last_sent: string;
+  /** Runs that raised it since first_seen */
+  occurrences: number;
+  /** When a run stopped raising it; empty while it is active */
+  resolved_at: string;
+}
+
+/** "errors": the run finished but some Calendar writes or fetches failed; "failed": it threw */
+export type SyncRunStatus = "success" | "errors" | "failed";
+
+/** Row of the sync_runs table: one run of sync-core */
+export interface SyncRunRecord {
+  workflow_id: string;
+  started_at: string;
+  finished_at: string;
+  status: SyncRunStatus;
+  duration_ms: number;
+  /** Events fetched across all calendars */
+  events_fetched: number;
+  /** Per direction label, plus "orphans" for the cleanup */
+  direction_stats: Record<string, SyncStats>;
+  /** Milliseconds spent in each step; chunked steps are summed under their name without the chunk number */
+  step_durations: Record<string, number>;
+  throttling: ThrottleStats;
+  /** Message of the error that failed the run */
+  error: string;
 }
@@ -0,0 +1,88 @@
+/**
+ * Node tests for the notification renderers: messages stay within each
+ * service's length limits without splitting an escape, and header values
+ * cannot add mail headers. Nothing is sent; run with `npm test`.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { renderTelegramMessage } from "../src/telegram.js";
+import { renderSlackMessage } from "../src/notifier.js";
+import { formatMail } from "../src/smtp.js";
+import type { SmtpConfig } from "../src/smtp.js";
+
+// --- Helpers ---
+
+/** Every MarkdownV2 reserved character is escaped, and every backslash starts an escape */
+const ESCAPED_MARKDOWN_V2 = /^(?:\\[_*[\]()~`>#+\-=|{}.!\\]|[^_*[\]()~`>#+\-=|{}.!\\])*$/;
+
+/** Every `&`, `<` and `>` is part of a whole entity */
+const ESCAPED_SLACK = /^(?:&amp;|&lt;|&gt;|[^&<>])*$/;
+
+const SMTP_CONFIG: SmtpConfig = {
+  host: "smtp.example.com",
+  port: 465,
+  from: "Calendar Sync <sync@example.com>",
+  to: ["ops@example.com"],
+};
+
+function headersOf(mail: string): string[] {
+  return mail.slice(0, mail.indexOf("\r\n\r\n")).split("\r\n");
+}
+
+// --- Telegram ---
+
+test("an over-long Telegram text is cut to the message limit without splitting an escape", () => {
+  // All-reserved text makes every character a two-character escape, so both cut parities are hit
+  for (const text of [".".repeat(5000), "a.".repeat(3000), "x".repeat(5000)]) {
+    const rendered = renderTelegramMessage({
+      title: "Sync failed",
+      severity: "error",
+      text,
+      fields: [{ label: "Error", value: "boom", code: true }],
+    });
+    assert.ok(rendered.length <= 4096, `rendered ${rendered.length} characters`);
+    const paragraph = rendered.split("\n")[2];
+    assert.ok(paragraph.endsWith("…"));
+    assert.match(paragraph.slice(0, -1), ESCAPED_MARKDOWN_V2);
+  }
+});
+
+test("a Telegram message within the limit is rendered whole", () => {
+  const rendered = renderTelegramMessage({
+    title: "Sync failed",
+    severity: "error",
+    text: "Token expired.",
+    fields: [{ label: "Calendar", value: "a@b.c" }],
+  });
+  assert.equal(rendered, "🚨 *Sync failed*\n\nToken expired\\.\n\n*Calendar:* a@b\\.c");
+});
+
+// --- Slack ---
+
+test("Slack section text and fields are cut to Slack's limits without splitting an entity", () => {
+  const payload = renderSlackMessage({
+    title: "Sync failed",
+    severity: "error",
+    text: "<&>".repeat(2000),
+    fields: [{ label: "Error", value: "a&b".repeat(1000) }],
+  }) as { blocks: { text?: { text: string }; fields?: { text: string }[] }[] };
+
+  const section = payload.blocks[1].text!.text;
+  assert.ok(section.length <= 3000, `section is ${section.length} characters`);
+  assert.match(section.slice(0, -1), ESCAPED_SLACK);
+
+  const field = payload.blocks[2].fields![0].text;
+  assert.ok(field.length <= 2000, `field is ${field.length} characters`);
+  assert.match(field.slice(0, -1), ESCAPED_SLACK);
+});
+
+// --- Email ---
+
+test("CR/LF in the subject does not add a mail header", () => {
+  const clean = headersOf(formatMail(SMTP_CONFIG, "Sync failed", "body"));
+  const headers = headersOf(formatMail(SMTP_CONFIG, "Sync failed\r\nBcc: victim@evil.example\nX-Injected: yes", "body"));
+  assert.equal(headers.length, clean.length);
+  assert.deepEqual(headers.filter((h) => /^(Bcc|X-Injected):/i.test(h)), []);
+  assert.equal(headers.find((h) => h.startsWith("Subject:")), "Subject: Sync failed Bcc: victim@evil.example X-Injected: yes");
+});
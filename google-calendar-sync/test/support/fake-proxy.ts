@@ -0,0 +1,501 @@
+/**
+ * In-process fake of the SolidActions OAuth proxy, serving the Google
+ * Calendar and Sheets endpoints that google-calendar.ts and sheets.ts call.
+ * Lets the node tests and the test-sync scenarios run without Google accounts
+ * or network access (see sync.test.ts and test-sync-offline.ts). Lives under
+ * test/, so it is neither compiled into dist/ nor deployed.
+ *
+ * Requests are routed by X-OAuth-Action-Id, using the same catalog IDs as the
+ * real helpers; a call whose action ID does not match its method and path is
+ * rejected, as the proxy would. State lives in memory and is gone once the
+ * server closes. Faults (410, 429, 500) can be queued per action.
+ *
+ * Not emulated: expansion of recurring series (masters are listed as-is even
+ * with singleEvents=true), calendar ACLs, and endpoints this project never calls.
+ */
+
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { randomBytes } from "node:crypto";
+import type { ConnectionVar } from "@solidactions/sdk";
+import type { EventDateTime, GoogleCalendarEvent } from "../../src/types.js";
+import { ACTION as CALENDAR_ACTION } from "../../src/google-calendar.js";
+import { ACTION as SHEETS_ACTION } from "../../src/sheets.js";
+import { parseInstanceId } from "../../src/event-utils.js";
+
+// --- Types ---
+
+export interface FakeFault {
+  /** Catalog action ID to fail; omit to fail the next call of any action */
+  actionId?: string;
+  status: 410 | 429 | 500;
+  /** Number of matching calls that fail (default 1) */
+  times?: number;
+  /** Retry-After header sent with a 429, in seconds */
+  retryAfterSeconds?: number;
+}
+
+export interface FakeRequestLog {
+  method: string;
+  path: string;
+  actionId: string;
+  status: number;
+}
+
+export interface FakeProxyOptions {
+  /** Calendars that exist; calls for any other calendar get 404 */
+  calendarIds: string[];
+  /** Spreadsheets that exist, each starting with a blank Sheet1 */
+  spreadsheetIds: string[];
+  /** Run token expected in the Authorization header (default "fake-proxy-token") */
+  proxyToken?: string;
+}
+
+export interface FakeProxy {
+  /** Base URL to use as a connection's proxyUrl */
+  url: string;
+  /** ConnectionVar pointing at this server, as ctx.vars would hold it */
+  connection(key: string): ConnectionVar;
+  injectFault(fault: FakeFault): void;
+  /** Invalidate every sync token issued so far; the next incremental listing gets 410 */
+  expireSyncTokens(): void;
+  /** Every event on a calendar, cancelled ones included */
+  events(calendarId: string): GoogleCalendarEvent[];
+  /** Rows of one sheet tab */
+  sheetValues(spreadsheetId: string, title: string): string[][];
+  /** Every call received, in order */
+  requests: FakeRequestLog[];
+  close(): Promise<void>;
+}
+
+interface StoredEvent {
+  event: GoogleCalendarEvent & Record<string, unknown>;
+  /** Change sequence of the last write, compared against sync tokens */
+  seq: number;
+}
+
+interface FakeSheet {
+  sheetId: number;
+  title: string;
+  rows: string[][];
+}
+
+interface ValuesBody {
+  values?: unknown[][];
+}
+
+interface BatchValuesBody {
+  data?: Array<{ range: string; values: unknown[][] }>;
+}
+
+/** The spreadsheets.batchUpdate requests sheets.ts sends */
+interface SpreadsheetRequest {
+  addSheet?: { properties?: { title?: string } };
+  updateSheetProperties?: { properties?: { sheetId?: number; title?: string } };
+  deleteDimension?: { range: { sheetId: number; dimension: string; startIndex: number; endIndex: number } };
+}
+
+/** Error response in Google's shape; thrown by handlers and sent by the router. */
+class FakeHttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public reason: string,
+  ) {
+    super(message);
+  }
+}
+
+// --- Helpers ---
+
+const DEFAULT_PROXY_TOKEN = "fake-proxy-token";
+const DEFAULT_PAGE_SIZE = 250;
+/** Fields Google sets itself and ignores on insert/update */
+const READ_ONLY_FIELDS = ["id", "hangoutLink", "htmlLink", "created", "updated", "etag", "iCalUID", "kind"];
+/** Client-supplied event IDs: base32hex characters, 5 to 1024 long */
+const CLIENT_EVENT_ID = /^[0-9a-v]{5,1024}$/;
+
+function randomEventId(): string {
+  const alphabet = "0123456789abcdefghijklmnopqrstuv";
+  return Array.from(randomBytes(26), (b) => alphabet[b % 32]).join("");
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8");
+      try {
+        resolve(text ? JSON.parse(text) : undefined);
+      } catch {
+        reject(new FakeHttpError(400, "Request body is not valid JSON", "parseError"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+function errorBody(status: number, message: string, reason: string): unknown {
+  return { error: { code: status, message, errors: [{ domain: "global", reason, message }] } };
+}
+
+/** Start of an event as epoch millis; all-day dates count as UTC midnight. */
+function startMillis(dt: EventDateTime | undefined): number | undefined {
+  if (!dt) return undefined;
+  const ms = Date.parse("dateTime" in dt ? dt.dateTime : dt.date);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+/** Original start encoded in an instance ID suffix ("20261019T080000Z" or "20261019"). */
+function originalStartFromSuffix(suffix: string): EventDateTime {
+  const date = `${suffix.slice(0, 4)}-${suffix.slice(4, 6)}-${suffix.slice(6, 8)}`;
+  if (suffix.length === 8) return { date };
+  return { dateTime: `${date}T${suffix.slice(9, 11)}:${suffix.slice(11, 13)}:${suffix.slice(13, 15)}Z` };
+}
+
+/** Parse an A1 range such as "synced_events!A2:K9", "deleted_events!L7" or "sync_state!A:C". */
+function parseRange(range: string): { title: string; startCol: number; startRow: number; endCol: number; endRow?: number } {
+  const match = range.match(/^(.+)!([A-Z])(\d*)(?::([A-Z])(\d*))?$/);
+  if (!match) throw new FakeHttpError(400, `Unable to parse range: ${range}`, "badRequest");
+  const col = (letter: string) => letter.charCodeAt(0) - 65;
+  const startCol = col(match[2]);
+  const startRow = match[3] ? parseInt(match[3], 10) : 1;
+  const endCol = match[4] ? col(match[4]) : startCol;
+  const endText = match[4] ? match[5] : match[3];
+  return { title: match[1], startCol, startRow, endCol, endRow: endText ? parseInt(endText, 10) : undefined };
+}
+
+// --- Server ---
+
+export async function startFakeProxy(options: FakeProxyOptions): Promise<FakeProxy> {
+  const proxyToken = options.proxyToken ?? DEFAULT_PROXY_TOKEN;
+  const calendars = new Map(options.calendarIds.map((id) => [id, new Map<string, StoredEvent>()]));
+  const spreadsheets = new Map(
+    options.spreadsheetIds.map((id) => [id, [{ sheetId: 0, title: "Sheet1", rows: [] }] as FakeSheet[]]),
+  );
+  const faults: Array<FakeFault & { remaining: number }> = [];
+  const requests: FakeRequestLog[] = [];
+  let seq = 0;
+  /** Bumped by expireSyncTokens(); tokens carry the epoch they were issued in */
+  let tokenEpoch = 0;
+  let nextSheetId = 1;
+
+  // --- Calendar ---
+
+  function calendar(calendarId: string): Map<string, StoredEvent> {
+    const events = calendars.get(calendarId);
+    if (!events) throw new FakeHttpError(404, `Calendar ${calendarId} not found`, "notFound");
+    return events;
+  }
+
+  function store(events: Map<string, StoredEvent>, event: StoredEvent["event"]): GoogleCalendarEvent {
+    seq++;
+    const now = new Date().toISOString();
+    event.updated = now;
+    event.etag = `"${seq}"`;
+    events.set(event.id, { event, seq });
+    return event;
+  }
+
+  /** An event, or an instance of a recurring master materialized on first access. */
+  function findEvent(events: Map<string, StoredEvent>, eventId: string): StoredEvent["event"] | undefined {
+    const stored = events.get(eventId);
+    if (stored) return stored.event;
+
+    const instance = parseInstanceId(eventId);
+    const master = instance && events.get(instance.seriesId)?.event;
+    if (!instance || !master?.recurrence) return undefined;
+    const originalStartTime = originalStartFromSuffix(instance.suffix);
+    // An instance is a copy of the master without the recurrence, starting at its original start
+    const fields: StoredEvent["event"] = { ...master };
+    delete fields.recurrence;
+    return { ...fields, id: eventId, recurringEventId: master.id, originalStartTime, start: originalStartTime };
+  }
+
+  function listEvents(calendarId: string, query: URLSearchParams): unknown {
+    const events = calendar(calendarId);
+    const syncToken = query.get("syncToken");
+    let items: GoogleCalendarEvent[];
+
+    if (syncToken) {
+      const match = syncToken.match(/^fake-sync-(\d+)-(\d+)$/);
+      if (!match || parseInt(match[1], 10) !== tokenEpoch) {
+        throw new FakeHttpError(410, "Sync token is no longer valid, a full sync is required.", "fullSyncRequired");
+      }
+      const since = parseInt(match[2], 10);
+      items = [...events.values()].filter((s) => s.seq > since).map((s) => s.event);
+    } else {
+      const timeMin = query.get("timeMin");
+      const timeMax = query.get("timeMax");
+      items = [...events.values()]
+        .map((s) => s.event)
+        .filter((e) => e.status !== "cancelled" || query.get("showDeleted") === "true")
+        .filter((e) => {
+          const start = startMillis(e.start);
+          const end = startMillis(e.end) ?? start;
+          if (start === undefined || end === undefined) return true;
+          return (!timeMin || end > Date.parse(timeMin)) && (!timeMax || start < Date.parse(timeMax));
+        });
+      if (query.get("orderBy") === "startTime") {
+        items.sort((a, b) => (startMillis(a.start) ?? 0) - (startMillis(b.start) ?? 0));
+      }
+    }
+
+    const offset = parseInt(query.get("pageToken") ?? "0", 10);
+    const pageSize = parseInt(query.get("maxResults") ?? String(DEFAULT_PAGE_SIZE), 10);
+    const page = items.slice(offset, offset + pageSize);
+    const more = offset + pageSize < items.length;
+    return {
+      kind: "calendar#events",
+      items: page,
+      nextPageToken: more ? String(offset + pageSize) : undefined,
+      nextSyncToken: more ? undefined : `fake-sync-${tokenEpoch}-${seq}`,
+    };
+  }
+
+  function getEvent(calendarId: string, eventId: string): unknown {
+    const event = findEvent(calendar(calendarId), eventId);
+    if (!event) throw new FakeHttpError(404, "Not Found", "notFound");
+    return event;
+  }
+
+  function createEvent(calendarId: string, body: Record<string, unknown>): unknown {
+    const events = calendar(calendarId);
+    const id = typeof body.id === "string" ? body.id : randomEventId();
+    if (!CLIENT_EVENT_ID.test(id)) throw new FakeHttpError(400, "Invalid resource id value.", "invalid");
+    if (events.has(id)) throw new FakeHttpError(409, "The requested identifier already exists.", "duplicate");
+
+    const fields = { ...body };
+    for (const key of READ_ONLY_FIELDS) delete fields[key];
+    return store(events, {
+      ...fields,
+      id,
+      status: "confirmed",
+      created: new Date().toISOString(),
+      iCalUID: `${id}@fake.google.com`,
+      htmlLink: `https://calendar.google.com/event?eid=${id}`,
+    });
+  }
+
+  function updateEvent(calendarId: string, eventId: string, body: Record<string, unknown>): unknown {
+    const events = calendar(calendarId);
+    const existing = findEvent(events, eventId);
+    if (!existing) throw new FakeHttpError(404, "Not Found", "notFound");
+
+    const fields = { ...body };
+    for (const key of READ_ONLY_FIELDS) delete fields[key];
+    // PUT replaces the event; only server-managed and instance linkage fields carry over
+    return store(events, {
+      ...fields,
+      id: eventId,
+      status: (fields.status as string | undefined) ?? "confirmed",
+      created: existing.created,
+      iCalUID: existing.iCalUID,
+      htmlLink: existing.htmlLink,
+      recurringEventId: existing.recurringEventId,
+      originalStartTime: existing.originalStartTime,
+    });
+  }
+
+  function deleteEvent(calendarId: string, eventId: string): undefined {
+    const events = calendar(calendarId);
+    const existing = findEvent(events, eventId);
+    if (!existing) throw new FakeHttpError(404, "Not Found", "notFound");
+    if (existing.status === "cancelled") throw new FakeHttpError(410, "Resource has been deleted", "deleted");
+    store(events, { ...existing, status: "cancelled" });
+    return undefined;
+  }
+
+  // --- Sheets ---
+
+  function spreadsheet(spreadsheetId: string): FakeSheet[] {
+    const sheets = spreadsheets.get(spreadsheetId);
+    if (!sheets) throw new FakeHttpError(404, "Requested entity was not found.", "notFound");
+    return sheets;
+  }
+
+  function sheet(spreadsheetId: string, title: string): FakeSheet {
+    const found = spreadsheet(spreadsheetId).find((s) => s.title === title);
+    if (!found) throw new FakeHttpError(400, `Unable to parse range: ${title}`, "badRequest");
+    return found;
+  }
+
+  function getValues(spreadsheetId: string, range: string): unknown {
+    const r = parseRange(range);
+    const rows = sheet(spreadsheetId, r.title).rows;
+    const last = Math.min(r.endRow ?? rows.length, rows.length);
+    const values = rows
+      .slice(r.startRow - 1, last)
+      .map((row) => row.slice(r.startCol, r.endCol + 1));
+    // Google drops trailing empty rows and omits `values` entirely when nothing is left
+    while (values.length > 0 && values[values.length - 1].every((cell) => cell === "")) values.pop();
+    return values.length > 0 ? { range, majorDimension: "ROWS", values } : { range, majorDimension: "ROWS" };
+  }
+
+  function writeValues(spreadsheetId: string, range: string, values: unknown[][]): number {
+    const r = parseRange(range);
+    const rows = sheet(spreadsheetId, r.title).rows;
+    values.forEach((valueRow, i) => {
+      const rowIndex = r.startRow - 1 + i;
+      while (rows.length <= rowIndex) rows.push([]);
+      const row = rows[rowIndex];
+      valueRow.forEach((value, j) => {
+        while (row.length <= r.startCol + j) row.push("");
+        row[r.startCol + j] = value === null || value === undefined ? "" : String(value);
+      });
+    });
+    return values.length;
+  }
+
+  function appendValues(spreadsheetId: string, range: string, values: unknown[][]): unknown {
+    const r = parseRange(range);
+    const rows = sheet(spreadsheetId, r.title).rows;
+    // Append after the last row holding any value
+    let lastUsed = rows.length;
+    while (lastUsed > 0 && rows[lastUsed - 1].every((cell) => cell === "")) lastUsed--;
+    const startRow = lastUsed + 1;
+    const colLetter = (col: number) => String.fromCharCode(65 + col);
+    const target = `${r.title}!${colLetter(r.startCol)}${startRow}`;
+    writeValues(spreadsheetId, target, values);
+    return { updates: { updatedRange: target, updatedRows: values.length } };
+  }
+
+  function batchUpdateValues(spreadsheetId: string, body: BatchValuesBody): unknown {
+    const data = body.data ?? [];
+    const totalUpdatedRows = data.reduce((sum, d) => sum + writeValues(spreadsheetId, d.range, d.values), 0);
+    return { spreadsheetId, totalUpdatedRows };
+  }
+
+  function batchUpdateSpreadsheet(spreadsheetId: string, body: { requests?: SpreadsheetRequest[] }): unknown {
+    const sheets = spreadsheet(spreadsheetId);
+    const replies: unknown[] = [];
+    for (const request of body.requests ?? []) {
+      if (request.addSheet) {
+        const title = request.addSheet.properties?.title ?? `Sheet${nextSheetId + 1}`;
+        if (sheets.some((s) => s.title === title)) {
+          throw new FakeHttpError(400, `A sheet with the name "${title}" already exists.`, "badRequest");
+        }
+        const added: FakeSheet = { sheetId: nextSheetId++, title, rows: [] };
+        sheets.push(added);
+        replies.push({ addSheet: { properties: { sheetId: added.sheetId, title } } });
+      } else if (request.updateSheetProperties) {
+        const props = request.updateSheetProperties.properties;
+        const target = sheets.find((s) => s.sheetId === props?.sheetId);
+        if (!target) throw new FakeHttpError(400, `No grid with id: ${props?.sheetId}`, "badRequest");
+        if (props?.title !== undefined) target.title = props.title;
+        replies.push({});
+      } else if (request.deleteDimension) {
+        const range = request.deleteDimension.range;
+        const target = sheets.find((s) => s.sheetId === range.sheetId);
+        if (!target) throw new FakeHttpError(400, `No grid with id: ${range.sheetId}`, "badRequest");
+        if (range.dimension !== "ROWS") throw new FakeHttpError(400, "Only ROWS deletion is supported", "badRequest");
+        target.rows.splice(range.startIndex, range.endIndex - range.startIndex);
+        replies.push({});
+      } else {
+        throw new FakeHttpError(400, `Unsupported request: ${Object.keys(request).join(", ")}`, "badRequest");
+      }
+    }
+    return { spreadsheetId, replies };
+  }
+
+  function getSpreadsheet(spreadsheetId: string): unknown {
+    return {
+      spreadsheetId,
+      sheets: spreadsheet(spreadsheetId).map((s) => ({ properties: { sheetId: s.sheetId, title: s.title } })),
+    };
+  }
+
+  // --- Routing ---
+
+  type Handler = (params: string[], query: URLSearchParams, body: unknown) => unknown;
+  const routes: Array<{ actionId: string; method: string; pattern: RegExp; handler: Handler }> = [
+    { actionId: CALENDAR_ACTION.listEvents, method: "GET", pattern: /^\/google-calendar\/calendars\/([^/]+)\/events$/, handler: ([cal], q) => listEvents(cal, q) },
+    { actionId: CALENDAR_ACTION.getEvent, method: "GET", pattern: /^\/google-calendar\/calendar\/v3\/calendars\/([^/]+)\/events\/([^/]+)$/, handler: ([cal, id]) => getEvent(cal, id) },
+    { actionId: CALENDAR_ACTION.createEvent, method: "POST", pattern: /^\/google-calendar\/v3\/calendars\/([^/]+)\/events$/, handler: ([cal], _q, body) => createEvent(cal, (body ?? {}) as Record<string, unknown>) },
+    { actionId: CALENDAR_ACTION.updateEvent, method: "PUT", pattern: /^\/google-calendar\/calendar\/v3\/calendars\/([^/]+)\/events\/([^/]+)$/, handler: ([cal, id], _q, body) => updateEvent(cal, id, (body ?? {}) as Record<string, unknown>) },
+    { actionId: CALENDAR_ACTION.deleteEvent, method: "DELETE", pattern: /^\/google-calendar\/calendar\/v3\/calendars\/([^/]+)\/events\/([^/]+)$/, handler: ([cal, id]) => deleteEvent(cal, id) },
+    { actionId: SHEETS_ACTION.getSpreadsheet, method: "GET", pattern: /^\/google-sheets\/v4\/spreadsheets\/([^/:]+)$/, handler: ([id]) => getSpreadsheet(id) },
+    { actionId: SHEETS_ACTION.getValues, method: "GET", pattern: /^\/google-sheets\/v4\/spreadsheets\/([^/:]+)\/values\/([^/]+)$/, handler: ([id, range]) => getValues(id, range) },
+    { actionId: SHEETS_ACTION.updateValues, method: "PUT", pattern: /^\/google-sheets\/v4\/spreadsheets\/([^/:]+)\/values\/([^/]+)$/, handler: ([id, range], _q, body) => ({ updatedRows: writeValues(id, range, (body as ValuesBody)?.values ?? []) }) },
+    { actionId: SHEETS_ACTION.appendValues, method: "POST", pattern: /^\/google-sheets\/v4\/spreadsheets\/([^/:]+)\/values\/([^/]+):append$/, handler: ([id, range], _q, body) => appendValues(id, range, (body as ValuesBody)?.values ?? []) },
+    { actionId: SHEETS_ACTION.batchUpdateValues, method: "POST", pattern: /^\/google-sheets\/v4\/spreadsheets\/([^/:]+)\/values:batchUpdate$/, handler: ([id], _q, body) => batchUpdateValues(id, (body ?? {}) as BatchValuesBody) },
+    { actionId: SHEETS_ACTION.batchUpdateSpreadsheet, method: "POST", pattern: /^\/google-sheets\/v4\/spreadsheets\/([^/:]+):batchUpdate$/, handler: ([id], _q, body) => batchUpdateSpreadsheet(id, (body ?? {}) as { requests?: SpreadsheetRequest[] }) },
+  ];
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    const actionId = String(req.headers["x-oauth-action-id"] ?? "");
+    const log: FakeRequestLog = { method, path: url.pathname, actionId, status: 0 };
+    requests.push(log);
+
+    const reply = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+      log.status = status;
+      sendJson(res, status, body, headers);
+    };
+
+    try {
+      if (req.headers.authorization !== `Bearer ${proxyToken}`) {
+        throw new FakeHttpError(401, "Invalid or missing run token", "authError");
+      }
+      if (!req.headers["x-oauth-connection-key"]) {
+        throw new FakeHttpError(400, "Missing X-OAuth-Connection-Key header", "badRequest");
+      }
+      const route = routes.find((r) => r.actionId === actionId);
+      if (!route) throw new FakeHttpError(404, `Unknown action ID: ${actionId}`, "notFound");
+      const match = url.pathname.match(route.pattern);
+      if (route.method !== method || !match) {
+        throw new FakeHttpError(400, `Action ${actionId} does not serve ${method} ${url.pathname}`, "badRequest");
+      }
+
+      const fault = faults.find((f) => f.remaining > 0 && (!f.actionId || f.actionId === actionId));
+      if (fault) {
+        fault.remaining--;
+        const headers: Record<string, string> =
+          fault.retryAfterSeconds !== undefined ? { "Retry-After": String(fault.retryAfterSeconds) } : {};
+        const reason = { 410: "deleted", 429: "rateLimitExceeded", 500: "backendError" }[fault.status];
+        reply(fault.status, errorBody(fault.status, `Injected ${fault.status}`, reason), headers);
+        return;
+      }
+
+      const body = await readBody(req);
+      const params = match.slice(1).map((p) => decodeURIComponent(p));
+      const result = route.handler(params, url.searchParams, body);
+      reply(result === undefined ? 204 : 200, result);
+    } catch (error: unknown) {
+      if (error instanceof FakeHttpError) {
+        reply(error.status, errorBody(error.status, error.message, error.reason));
+      } else {
+        reply(500, errorBody(500, (error as Error).message, "backendError"));
+      }
+    }
+  }
+
+  const server = createServer((req, res) => void handle(req, res));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    connection: (key) => ({ key, proxyUrl: url, proxyToken }),
+    injectFault: (fault) => faults.push({ ...fault, remaining: fault.times ?? 1 }),
+    expireSyncTokens: () => {
+      tokenEpoch++;
+    },
+    events: (calendarId) => [...calendar(calendarId).values()].map((s) => s.event),
+    sheetValues: (spreadsheetId, title) => sheet(spreadsheetId, title).rows,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Stand-in for @solidactions/sdk in the node tests.
+ * Steps run inline and once, in the order the workflow asks for them; their
+ * names, the published events and the log lines are kept in `recorded` so a
+ * test can check them. There is no replay: each call runs from scratch.
+ * Loaded through register.ts, which points every '@solidactions/sdk' import
+ * at this module.
+ */
+
+// --- Types ---
+
+interface StepOptions {
+  name?: string;
+}
+
+interface WorkflowDefinition<I, O> {
+  name: string;
+  run(ctx: { input: I; vars: Record<string, unknown> }): Promise<O> | O;
+}
+
+// --- State ---
+
+/** What the workflows did since the last reset. */
+export const recorded = {
+  steps: [] as string[],
+  events: new Map<string, unknown>(),
+  logs: [] as string[],
+};
+
+let workflowCount = 0;
+
+/** Forget the recorded steps, events and logs, and start a new workflow ID. */
+export function resetLocalSdk(): void {
+  recorded.steps.length = 0;
+  recorded.events.clear();
+  recorded.logs.length = 0;
+  workflowCount++;
+}
+
+// --- SDK Surface ---
+
+export const SolidActions = {
+  get workflowID(): string | undefined {
+    return `local-workflow-${workflowCount}`;
+  },
+
+  async runStep<T>(fn: () => Promise<T> | T, options: StepOptions = {}): Promise<T> {
+    recorded.steps.push(options.name ?? fn.name);
+    return fn();
+  },
+
+  async setEvent<T>(key: string, value: T): Promise<void> {
+    recorded.events.set(key, value);
+  },
+
+  async getEvent<T>(_workflowID: string, key: string): Promise<T | null> {
+    return (recorded.events.get(key) as T | undefined) ?? null;
+  },
+
+  async now(): Promise<number> {
+    return Date.now();
+  },
+
+  startWorkflow(): never {
+    throw new Error("startWorkflow is not available in the node tests; call the workflow function directly");
+  },
+
+  logger: {
+    info: (message: string) => void recorded.logs.push(message),
+    warn: (message: string) => void recorded.logs.push(message),
+    error: (message: string) => void recorded.logs.push(message),
+  },
+};
+
+export function defineWorkflow<I, O>(definition: WorkflowDefinition<I, O>): WorkflowDefinition<I, O> {
+  return definition;
+}
+
+// --- Helpers ---
+
+/** Run a handle made by defineWorkflow for one trigger, as the platform would. */
+export async function runWorkflow<O>(handle: unknown, input: unknown, vars: Record<string, unknown>): Promise<O> {
+  resetLocalSdk();
+  return (handle as WorkflowDefinition<unknown, O>).run({ input, vars });
+}
@@ -0,0 +1,20 @@
+/**
+ * Module resolution hooks that point "@solidactions/sdk" at the local stand-in.
+ * Registered by register.ts; see local-sdk.ts.
+ */
+
+interface ResolveResult {
+  url: string;
+  shortCircuit?: boolean;
+}
+
+export async function resolve(
+  specifier: string,
+  context: unknown,
+  nextResolve: (specifier: string, context: unknown) => Promise<ResolveResult>,
+): Promise<ResolveResult> {
+  if (specifier === "@solidactions/sdk") {
+    return { url: new URL("./local-sdk.js", import.meta.url).href, shortCircuit: true };
+  }
+  return nextResolve(specifier, context);
+}
@@ -0,0 +1,341 @@
+/**
+ * Node tests for the sync workflows, run against the in-process fake proxy.
+ * Each test gets its own fake with two empty calendars and a blank
+ * spreadsheet, and calls the workflows the way their handles would.
+ * Run with `npm test`.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TestContext } from "node:test";
+import { startFakeProxy } from "./support/fake-proxy.js";
+import type { FakeProxy } from "./support/fake-proxy.js";
+import { recorded, resetLocalSdk, runWorkflow } from "./support/local-sdk.js";
+import { ACTION as CALENDAR_ACTION, createEvent, deleteEvent, updateEvent } from "../src/google-calendar.js";
+import { ACTION as SHEETS_ACTION } from "../src/sheets.js";
+import { createMappingStore } from "../src/mapping-store.js";
+import { runSyncFromVars } from "../src/sync-core.js";
+import type { SyncInput, SyncOutput } from "../src/sync-core.js";
+import { handle as auditSync } from "../src/audit-sync.js";
+import { handle as rebuildMapping } from "../src/rebuild-mapping.js";
+import type { RebuildOutput } from "../src/rebuild-mapping.js";
+import type { AuditOutput } from "../src/audit-sync.js";
+import type { GoogleCalendarEvent, SyncStats } from "../src/types.js";
+
+// --- Helpers ---
+
+const CALENDAR_A_ID = "calendar-a@fake.calendar.google.com";
+const CALENDAR_B_ID = "calendar-b@fake.calendar.google.com";
+const SPREADSHEET_ID = "fake-spreadsheet";
+
+interface Fixture {
+  proxy: FakeProxy;
+  vars: Record<string, unknown>;
+  /** Create an original `hoursAhead` hours from now */
+  create(calendarId: string, summary: string, hoursAhead: number): Promise<GoogleCalendarEvent>;
+  sync(input?: SyncInput): Promise<SyncOutput>;
+  /** Live (not cancelled) events on a calendar */
+  live(calendarId: string): GoogleCalendarEvent[];
+}
+
+async function setup(t: TestContext, extraVars: Record<string, string> = {}): Promise<Fixture> {
+  const proxy = await startFakeProxy({ calendarIds: [CALENDAR_A_ID, CALENDAR_B_ID], spreadsheetIds: [SPREADSHEET_ID] });
+  t.after(() => proxy.close());
+
+  const vars: Record<string, unknown> = {
+    GCAL: proxy.connection("fake-gcal"),
+    GSHEET: proxy.connection("fake-gsheet"),
+    SPREADSHEET_ID,
+    MAPPING_STORE: "sheets",
+    CALENDAR_A_ID,
+    CALENDAR_B_ID,
+    CALENDAR_A_PREFIX: "[A]",
+    CALENDAR_B_PREFIX: "[B]",
+    ...extraVars,
+  };
+  await createMappingStore(vars).initSchema();
+
+  const base = Date.now() + 24 * 3_600_000;
+  return {
+    proxy,
+    vars,
+    create: (calendarId, summary, hoursAhead) => {
+      const start = base + hoursAhead * 3_600_000;
+      return createEvent(proxy.connection("fake-gcal"), calendarId, {
+        summary,
+        start: { dateTime: new Date(start).toISOString() },
+        end: { dateTime: new Date(start + 1_800_000).toISOString() },
+      });
+    },
+    sync: (input = {}) => {
+      resetLocalSdk();
+      return runSyncFromVars(vars, input);
+    },
+    live: (calendarId) => proxy.events(calendarId).filter((e) => e.status !== "cancelled"),
+  };
+}
+
+function statsOf(output: SyncOutput, label: string): SyncStats {
+  const entry = output.pairStats.find((p) => p.label === label);
+  assert.ok(entry, `no pairStats entry for ${label}`);
+  return entry.stats;
+}
+
+function copiesOf(fixture: Fixture, calendarId: string, sourceEventId: string): GoogleCalendarEvent[] {
+  return fixture.live(calendarId).filter((e) => e.extendedProperties?.private?.syncSourceEventId === sourceEventId);
+}
+
+// --- Tests ---
+
+test("mirrors, updates and deletes copies in both directions", async (t) => {
+  const f = await setup(t);
+  const gcal = f.proxy.connection("fake-gcal");
+  const a1 = await f.create(CALENDAR_A_ID, "Planning", 1);
+  const b1 = await f.create(CALENDAR_B_ID, "Dentist", 3);
+
+  const first = await f.sync();
+  assert.deepEqual(statsOf(first, "a-to-b"), { created: 1, updated: 0, deleted: 0, errors: 0 });
+  assert.deepEqual(statsOf(first, "b-to-a"), { created: 1, updated: 0, deleted: 0, errors: 0 });
+  assert.deepEqual(first.failures, []);
+  const [copy] = copiesOf(f, CALENDAR_B_ID, a1.id);
+  assert.equal(copy?.summary, "[A] Planning");
+  assert.equal(copiesOf(f, CALENDAR_A_ID, b1.id)[0]?.summary, "[B] Dentist");
+  assert.equal((await createMappingStore(f.vars).loadSyncedEvents()).length, 2);
+
+  const unchanged = await f.sync();
+  assert.deepEqual(unchanged.pairStats.map((p) => p.stats.created + p.stats.updated), [0, 0]);
+  assert.equal(f.live(CALENDAR_B_ID).length, 2);
+
+  await updateEvent(gcal, CALENDAR_A_ID, a1.id, { ...a1, summary: "Planning (moved)" });
+  const updated = await f.sync();
+  assert.equal(statsOf(updated, "a-to-b").updated, 1);
+  assert.equal(copiesOf(f, CALENDAR_B_ID, a1.id)[0]?.summary, "[A] Planning (moved)");
+
+  await deleteEvent(gcal, CALENDAR_A_ID, a1.id);
+  const deleted = await f.sync();
+  assert.equal(deleted.deletionStats.deleted, 1);
+  assert.deepEqual(copiesOf(f, CALENDAR_B_ID, a1.id), []);
+  assert.equal((await createMappingStore(f.vars).loadSyncedEvents()).length, 1);
+  assert.equal((await createMappingStore(f.vars).loadTombstones()).length, 1);
+});
+
+test("reuses copies created by a run that died before writing their rows", async (t) => {
+  const f = await setup(t);
+  const a1 = await f.create(CALENDAR_A_ID, "Standup", 1);
+
+  // The copy is created, then appending its mapping row fails the run
+  f.proxy.injectFault({ actionId: SHEETS_ACTION.appendValues, status: 500 });
+  await assert.rejects(f.sync());
+  assert.equal(copiesOf(f, CALENDAR_B_ID, a1.id).length, 1);
+  assert.equal((await createMappingStore(f.vars).loadSyncedEvents()).length, 0);
+
+  // The retried create hits 409 on the deterministic ID and adopts the copy
+  const recovered = await f.sync();
+  assert.equal(statsOf(recovered, "a-to-b").errors, 0);
+  assert.equal(copiesOf(f, CALENDAR_B_ID, a1.id).length, 1);
+  const rows = await createMappingStore(f.vars).loadSyncedEvents();
+  assert.deepEqual(rows.map((r) => r.primary_event_id), [a1.id]);
+});
+
+test("reports a failed create and retries it on the next run", async (t) => {
+  const f = await setup(t);
+  const a1 = await f.create(CALENDAR_A_ID, "Review", 1);
+
+  // Creates are POSTs, so the client does not retry them
+  f.proxy.injectFault({ actionId: CALENDAR_ACTION.createEvent, status: 500 });
+  const failed = await f.sync();
+  assert.equal(statsOf(failed, "a-to-b").errors, 1);
+  assert.equal(failed.failures.length, 1);
+  assert.equal(failed.failures[0].operation, "create");
+  assert.equal(failed.failures[0].sourceEventId, a1.id);
+  assert.equal(failed.failures[0].status, 500);
+
+  const retried = await f.sync();
+  assert.equal(statsOf(retried, "a-to-b").created, 1);
+  assert.deepEqual(retried.failures, []);
+});
+
+test("lists incrementally after the first run and resyncs when the token expires", async (t) => {
+  const f = await setup(t, { INCREMENTAL_SYNC: "true" });
+  await f.create(CALENDAR_A_ID, "One", 1);
+
+  const first = await f.sync();
+  assert.deepEqual(Object.values(first.fetchModes), ["full", "full"]);
+
+  const a2 = await f.create(CALENDAR_A_ID, "Two", 2);
+  const second = await f.sync();
+  assert.deepEqual(Object.values(second.fetchModes), ["incremental", "incremental"]);
+  assert.equal(statsOf(second, "a-to-b").created, 1);
+  assert.equal(copiesOf(f, CALENDAR_B_ID, a2.id).length, 1);
+
+  f.proxy.expireSyncTokens();
+  const resynced = await f.sync();
+  assert.deepEqual(Object.values(resynced.fetchModes), ["full", "full"]);
+  assert.equal(statsOf(resynced, "a-to-b").created, 0);
+  assert.equal(f.live(CALENDAR_B_ID).length, 2);
+});
+
+test("lists a calendar in full again once the window moves onto unchanged events", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  const f = await setup(t, { INCREMENTAL_SYNC: "true", DAYS_AHEAD: "2" });
+  // Starts 60 hours from now, past the two-day window
+  const later = await f.create(CALENDAR_A_ID, "Offsite", 36);
+
+  const first = await f.sync();
+  assert.equal(statsOf(first, "a-to-b").created, 0);
+  const sameDay = await f.sync();
+  assert.equal(sameDay.fetchModes[CALENDAR_A_ID], "incremental");
+  assert.equal(statsOf(sameDay, "a-to-b").created, 0);
+
+  // A day later the window covers the event, which has not changed since
+  t.mock.timers.setTime(Date.now() + 24 * 3_600_000);
+  const nextDay = await f.sync();
+  assert.equal(nextDay.fetchModes[CALENDAR_A_ID], "full");
+  assert.equal(statsOf(nextDay, "a-to-b").created, 1);
+  assert.equal(copiesOf(f, CALENDAR_B_ID, later.id).length, 1);
+});
+
+test("moves a calendar past MAX_EVENTS on to incremental listings", async (t) => {
+  const f = await setup(t, { INCREMENTAL_SYNC: "true", MAX_EVENTS: "3" });
+  for (let i = 0; i < 5; i++) await f.create(CALENDAR_A_ID, `Event ${i}`, i);
+
+  const first = await f.sync();
+  assert.deepEqual(first.truncatedCalendars, [CALENDAR_A_ID]);
+  assert.equal(statsOf(first, "a-to-b").created, 3);
+
+  await f.create(CALENDAR_A_ID, "Later", 10);
+  const second = await f.sync();
+  assert.equal(second.fetchModes[CALENDAR_A_ID], "incremental");
+  assert.equal(statsOf(second, "a-to-b").created, 1);
+
+  // More changes than MAX_EVENTS are all applied rather than dropped
+  for (let i = 0; i < 4; i++) await f.create(CALENDAR_A_ID, `Burst ${i}`, 20 + i);
+  const burst = await f.sync();
+  assert.equal(burst.fetchModes[CALENDAR_A_ID], "incremental");
+  assert.equal(statsOf(burst, "a-to-b").created, 4);
+});
+
+test("a dry run plans the next run's writes without making them", async (t) => {
+  const f = await setup(t, { TWO_WAY_SYNC: "a-to-b" });
+  const gcal = f.proxy.connection("fake-gcal");
+  const kept = await f.create(CALENDAR_A_ID, "Keep", 0);
+  const renamed = await f.create(CALENDAR_A_ID, "Rename me", 2);
+  const removed = await f.create(CALENDAR_A_ID, "Delete me", 4);
+  await f.sync();
+
+  await f.create(CALENDAR_A_ID, "New", 6);
+  await f.create(CALENDAR_B_ID, "New in B", 7);
+  await updateEvent(gcal, CALENDAR_A_ID, renamed.id, { ...renamed, summary: "Renamed" });
+  await deleteEvent(gcal, CALENDAR_A_ID, removed.id);
+  const [keptCopy] = copiesOf(f, CALENDAR_B_ID, kept.id);
+  await updateEvent(gcal, CALENDAR_B_ID, keptCopy.id, { ...keptCopy, summary: "[A] Keep (edited on B)" });
+  const runsBefore = (await createMappingStore(f.vars).loadSyncRuns()).length;
+
+  const requestsBefore = f.proxy.requests.length;
+  const dry = await f.sync({ dryRun: true });
+  const writes = f.proxy.requests.slice(requestsBefore).filter((r) => r.method !== "GET");
+  assert.deepEqual(writes, []);
+  assert.equal((await createMappingStore(f.vars).loadSyncRuns()).length, runsBefore);
+  assert.deepEqual(dry.failures, []);
+
+  const plan = dry.plan ?? [];
+  const planned = (operation: string) => plan.filter((c) => c.operation === operation).map((c) => c.summary).sort();
+  assert.deepEqual(planned("create"), ["New", "New in B"]);
+  assert.deepEqual(planned("update"), ["Renamed"]);
+  assert.deepEqual(planned("delete"), ["Delete me"]);
+  assert.deepEqual(planned("propagate"), ["Keep"]);
+  const rename = plan.find((c) => c.operation === "update");
+  assert.equal(rename?.before?.summary, "[A] Rename me");
+  assert.equal(rename?.after?.summary, "[A] Renamed");
+
+  const real = await f.sync();
+  assert.deepEqual(
+    real.pairStats.map((p) => [p.label, p.stats, p.editsPropagated]),
+    dry.pairStats.map((p) => [p.label, p.stats, p.editsPropagated]),
+  );
+  assert.deepEqual(real.deletionStats, dry.deletionStats);
+});
+
+test("a dry run reports the reads it could not make", async (t) => {
+  const f = await setup(t, { INCREMENTAL_SYNC: "true", TWO_WAY_SYNC: "a-to-b" });
+  const gcal = f.proxy.connection("fake-gcal");
+  const edited = await f.create(CALENDAR_A_ID, "Edited on B", 1);
+  const renamed = await f.create(CALENDAR_A_ID, "Rename me", 2);
+  // The second run moves Calendar B's token past the copies the first created
+  await f.sync();
+  await f.sync();
+
+  // Neither event below is in the other calendar's incremental listing, so
+  // the plan reads the original of the edited copy and the renamed copy
+  const [copy] = copiesOf(f, CALENDAR_B_ID, edited.id);
+  await updateEvent(gcal, CALENDAR_B_ID, copy.id, { ...copy, summary: "[A] Edited on B (moved)" });
+  await updateEvent(gcal, CALENDAR_A_ID, renamed.id, { ...renamed, summary: "Renamed" });
+  const planned = await f.sync({ dryRun: true });
+  assert.deepEqual(planned.failures, []);
+  assert.equal(planned.pairStats[0].editsPropagated, 1);
+
+  // Each read is a GET, tried once and retried twice
+  f.proxy.injectFault({ actionId: CALENDAR_ACTION.getEvent, status: 500, times: 6 });
+  const dry = await f.sync({ dryRun: true });
+  const failed = dry.failures.map((x) => [x.operation, x.sourceEventId, x.status]).sort();
+  assert.deepEqual(failed, [["propagate", edited.id, 500], ["update", renamed.id, 500]]);
+  // The real run needs the original too, so that read counts as an error;
+  // the update whose copy could not be read is left out of the plan
+  assert.deepEqual(statsOf(dry, "a-to-b"), { created: 0, updated: 0, deleted: 0, errors: 1 });
+  assert.equal(dry.pairStats[0].editsPropagated, 0);
+  assert.deepEqual(dry.plan, []);
+});
+
+test("a rebuild drops the sync tokens so copies lost with the mapping are re-created", async (t) => {
+  const f = await setup(t, { INCREMENTAL_SYNC: "true" });
+  const a1 = await f.create(CALENDAR_A_ID, "Retro", 1);
+  await f.sync();
+  const [copy] = copiesOf(f, CALENDAR_B_ID, a1.id);
+  await deleteEvent(f.proxy.connection("fake-gcal"), CALENDAR_B_ID, copy.id);
+
+  await runWorkflow(rebuildMapping, {}, f.vars);
+  assert.deepEqual(await createMappingStore(f.vars).loadSyncedEvents(), []);
+  assert.deepEqual(await createMappingStore(f.vars).loadSyncTokens(), {});
+
+  const next = await f.sync();
+  assert.equal(next.fetchModes[CALENDAR_A_ID], "full");
+  assert.equal(statsOf(next, "a-to-b").created, 1);
+  assert.equal(copiesOf(f, CALENDAR_B_ID, a1.id).length, 1);
+});
+
+test("a rebuild keeps the mapping when a listing is truncated unless confirmed", async (t) => {
+  const f = await setup(t);
+  for (const hour of [1, 2, 3]) await f.create(CALENDAR_A_ID, `Standup ${hour}`, hour);
+  await f.sync();
+  const before = await createMappingStore(f.vars).loadSyncedEvents();
+  f.vars.MAX_EVENTS = "2";
+
+  const blocked = await runWorkflow<RebuildOutput>(rebuildMapping, {}, f.vars);
+  assert.deepEqual(blocked.truncatedCalendars, [CALENDAR_A_ID, CALENDAR_B_ID]);
+  assert.match(blocked.blockedReason ?? "", /MAX_EVENTS=2/);
+  assert.equal(blocked.writtenRows, 0);
+  assert.deepEqual(await createMappingStore(f.vars).loadSyncedEvents(), before);
+
+  const confirmed = await runWorkflow<RebuildOutput>(rebuildMapping, { confirmTruncated: true }, f.vars);
+  assert.equal(confirmed.blockedReason, undefined);
+  assert.equal((await createMappingStore(f.vars).loadSyncedEvents()).length, confirmed.writtenRows);
+});
+
+test("audit reports a copy deleted by hand and re-creates it on repair", async (t) => {
+  const f = await setup(t);
+  const a1 = await f.create(CALENDAR_A_ID, "Offsite", 1);
+  await f.sync();
+  const [copy] = copiesOf(f, CALENDAR_B_ID, a1.id);
+  await deleteEvent(f.proxy.connection("fake-gcal"), CALENDAR_B_ID, copy.id);
+
+  const report = await runWorkflow<AuditOutput>(auditSync, {}, f.vars);
+  assert.equal(report.categories["copy-deleted"].found, 1);
+  assert.equal(report.categories["copy-deleted"].repaired, 0);
+  assert.equal(report.errors, 0);
+  assert.deepEqual(copiesOf(f, CALENDAR_B_ID, a1.id), []);
+
+  const repaired = await runWorkflow<AuditOutput>(auditSync, { repair: ["copy-deleted"] }, f.vars);
+  assert.equal(repaired.categories["copy-deleted"].repaired, 1);
+  assert.ok(recorded.steps.length > 0);
+  assert.equal(copiesOf(f, CALENDAR_B_ID, a1.id).length, 1);
+});
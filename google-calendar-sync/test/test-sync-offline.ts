@@ -0,0 +1,87 @@
+/**
+ * Offline variant of the integration test workflow.
+ * Starts the in-process fake proxy (fake-proxy.ts), points GCAL, GSHEET and
+ * the calendar variables at it, and runs the test-sync scenarios against it —
+ * no Google accounts or network needed. Meant for `solidactions dev`:
+ * the fake's state lives in this process, so a recovered run starts over.
+ * Trigger: none (run locally with `solidactions dev test/test-sync-offline.ts`).
+ */
+
+import { SolidActions, defineWorkflow } from "@solidactions/sdk";
+import { startFakeProxy } from "./support/fake-proxy.js";
+import type { FakeFault } from "./support/fake-proxy.js";
+import { createMappingStore } from "../src/mapping-store.js";
+import { runSyncFromVars } from "../src/sync-core.js";
+import { testSyncWorkflowFn } from "../src/test-sync.js";
+import type { TestReport } from "../src/test-helpers.js";
+
+// --- Types ---
+
+export interface OfflineTestInput {
+  /** Faults queued before the first call, e.g. `{ "actionId": "<listEvents ID>", "status": 500 }` */
+  faults?: FakeFault[];
+  /** Run the syncs with INCREMENTAL_SYNC=true */
+  incrementalSync?: boolean;
+  /** Expire every sync token before each sync after the first (implies incrementalSync) */
+  expireSyncTokens?: boolean;
+}
+
+// --- Constants ---
+
+const CALENDAR_A_ID = "calendar-a@fake.calendar.google.com";
+const CALENDAR_B_ID = "calendar-b@fake.calendar.google.com";
+const SPREADSHEET_ID = "fake-spreadsheet";
+
+// --- Define and Export ---
+
+export const handle = defineWorkflow<OfflineTestInput, TestReport>({
+  name: "test-sync-offline",
+  run: async (ctx) => {
+    const input = ctx.input ?? {};
+    const proxy = await startFakeProxy({
+      calendarIds: [CALENDAR_A_ID, CALENDAR_B_ID],
+      spreadsheetIds: [SPREADSHEET_ID],
+    });
+    SolidActions.logger.info(`Fake proxy listening on ${proxy.url}`);
+    for (const fault of input.faults ?? []) proxy.injectFault(fault);
+
+    const vars: Record<string, unknown> = {
+      GCAL: proxy.connection("fake-gcal"),
+      GSHEET: proxy.connection("fake-gsheet"),
+      SPREADSHEET_ID,
+      MAPPING_STORE: "sheets",
+      CALENDAR_A_ID,
+      CALENDAR_B_ID,
+      CALENDAR_A_PREFIX: "[A]",
+      CALENDAR_B_PREFIX: "[B]",
+      MAX_EVENTS: "2500",
+      INCREMENTAL_SYNC: String(input.incrementalSync === true || input.expireSyncTokens === true),
+    };
+
+    // The sync runs inline: a child sync-core run would resolve GCAL and
+    // GSHEET from the environment instead of from the fake.
+    let syncs = 0;
+    const runSync = () => {
+      if (input.expireSyncTokens && syncs++ > 0) proxy.expireSyncTokens();
+      return runSyncFromVars(vars, {});
+    };
+
+    try {
+      const report = await testSyncWorkflowFn(
+        proxy.connection("fake-gcal"),
+        createMappingStore(vars),
+        CALENDAR_A_ID,
+        CALENDAR_B_ID,
+        "[A]",
+        "[B]",
+        2500,
+        runSync,
+      );
+      const failedCalls = proxy.requests.filter((r) => r.status >= 400).length;
+      SolidActions.logger.info(`Fake proxy served ${proxy.requests.length} calls (${failedCalls} failed)`);
+      return report;
+    } finally {
+      await proxy.close();
+    }
+  },
+});
@@ -0,0 +1,60 @@
+// Runs the replay-determinism pass (scripts/lib/determinism.mjs) over the
+// `src/` tree of every example project and reports workflow-level code that
+// would change between a run and its replay. Plain node, zero dependencies.
+import { readFile, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { analyzeDeterminism } from './lib/determinism.mjs';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const projectDirs = ['templates/minimal', 'hello-world', 'features-examples', 'google-calendar-sync', 'setup-block-tools'];
+
+async function listSources(directory) {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files = [];
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listSources(entryPath)));
+    } else if (entry.name.endsWith('.ts') && !entry.name.endsWith('.d.ts')) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/** "./sync-core.js" imported from src/x.ts resolves to src/sync-core.ts. */
+function resolveImport(from, specifier) {
+  const target = path.posix.join(path.posix.dirname(from), specifier);
+  return target.replace(/\.js$/, '.ts');
+}
+
+async function main() {
+  let total = 0;
+  let scanned = 0;
+  for (const directory of projectDirs) {
+    const sourcePaths = await listSources(path.join(root, directory, 'src'));
+    const files = await Promise.all(
+      sourcePaths.map(async (sourcePath) => ({
+        file: path.relative(root, sourcePath).split(path.sep).join('/'),
+        source: await readFile(sourcePath, 'utf8'),
+      })),
+    );
+    scanned += files.length;
+    const findings = analyzeDeterminism(files, resolveImport);
+    total += findings.length;
+    for (const finding of findings) {
+      console.log(`  ${finding.file}:${finding.line} [${finding.kind}] (${finding.workflow}) ${finding.message}`);
+    }
+  }
+
+  console.log(`\nreplay determinism: scanned ${scanned} files in ${projectDirs.length} projects.`);
+  if (total > 0) {
+    console.log(`${total} finding(s).`);
+    process.exitCode = 1;
+  } else {
+    console.log('OK — no findings.');
+  }
+}
+
+await main();
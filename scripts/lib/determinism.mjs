@@ -0,0 +1,556 @@
+/**
+ * Static replay-determinism pass over workflow source files.
+ *
+ * A durable workflow is re-executed from the top on recovery, and the
+ * runtime serves recorded step results by position. Code that runs at
+ * workflow level — outside a `runStep()` body — therefore has to produce the
+ * same values and ask for the same steps on every execution. This pass walks
+ * each `defineWorkflow({ run })` body (and every same-project function it
+ * calls at workflow level), skips the arguments of `runStep()` calls, and
+ * reports:
+ *
+ * - `nondeterministic-call`: clock, randomness or UUID calls at workflow level
+ *   (`SolidActions.now()` / `SolidActions.randomUUID()` are the replay-safe
+ *   replacements)
+ * - `conditional-step-name`: a `runStep()` name built from a ternary,
+ *   `||`/`??`/`&&`, or a non-deterministic call
+ *
+ * A finding is dropped when its line, or the line above, carries a
+ * `// replay-safe: <reason>` comment.
+ *
+ * It is a lightweight scanner, not a TypeScript parser: comments and string
+ * contents are blanked before matching, and only plain `function` and
+ * `const name = (...) =>` declarations are resolved. Pure and I/O-free —
+ * scripts/check-determinism.mjs does the file walking.
+ */
+
+/** Calls whose result changes between executions of the same workflow. */
+const NONDETERMINISTIC_CALLS = [
+  { pattern: /\bMath\.random\s*\(/g, label: 'Math.random()', primitive: 'SolidActions.randomUUID()' },
+  { pattern: /(?<!SolidActions\.)\bDate\.now\s*\(/g, label: 'Date.now()', primitive: 'SolidActions.now()' },
+  { pattern: /\bnew\s+Date\s*\(\s*\)/g, label: 'new Date()', primitive: 'SolidActions.now()' },
+  { pattern: /\bperformance\.now\s*\(/g, label: 'performance.now()', primitive: 'SolidActions.now()' },
+  { pattern: /(?<!SolidActions\.)\brandomUUID\s*\(/g, label: 'randomUUID()', primitive: 'SolidActions.randomUUID()' },
+  { pattern: /\bgetRandomValues\s*\(/g, label: 'getRandomValues()', primitive: 'SolidActions.randomUUID()' },
+  { pattern: /\bprocess\.hrtime\b/g, label: 'process.hrtime()', primitive: 'SolidActions.now()' },
+];
+
+/** Functions whose callback argument runs later, not during the call. */
+const DEFERRED_CALLBACK_TAKERS = new Set(['createServer', 'setTimeout', 'setInterval', 'setImmediate', 'on', 'once', 'addEventListener']);
+
+const KEYWORDS_BEFORE_PAREN = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'await', 'typeof', 'new']);
+
+const SUPPRESSION_RE = /\/\/\s*replay-safe:\s*\S/;
+const RUN_STEP_RE = /\brunStep\s*\(/g;
+const DEFINE_WORKFLOW_RE = /\bdefineWorkflow\s*(?:<[^(]*>)?\s*\(/g;
+const FUNCTION_DECL_RE = /\bfunction\s*\*?\s*([A-Za-z_$][\w$]*)\s*(?:<[^(]*>)?\s*\(/g;
+const ARROW_DECL_RE = /\b(?:const|let)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\([^()]*(?:\([^()]*\)[^()]*)*\)|[A-Za-z_$][\w$]*)\s*(?::\s*[^=]+?)?=>/g;
+const IMPORT_RE = /\bimport\s+(?!type\b)\{([^}]*)\}\s*from\s*(['"])(\.[^'"]+)\2/g;
+const CALL_RE = /(^|[^.\w$])([A-Za-z_$][\w$]*)\s*(?:<[^()]*>)?\s*\(/g;
+const REGEX_PRECEDERS = new Set(['', '(', ',', '=', ':', '[', '!', '&', '|', '?', '{', '}', ';', '+', '-', '*', '%', '<', '>', '~', '^']);
+
+// --- Masking ---
+
+/**
+ * Blank comments and the contents of string, template and regex literals
+ * with spaces, keeping newlines and offsets intact. Template `${...}`
+ * expressions stay visible because they are code.
+ */
+export function maskSource(source) {
+  const out = source.split('');
+  const blank = (from, to) => {
+    for (let i = from; i < to; i++) {
+      if (out[i] !== '\n') out[i] = ' ';
+    }
+  };
+  // Stack of open template literals; each entry is the brace depth at which
+  // its current `${` expression closes.
+  const templates = [];
+  let braceDepth = 0;
+  let lastSignificant = '';
+  let i = 0;
+
+  const scanTemplateText = (start) => {
+    // start points just past the opening backtick or the closing `}`
+    let j = start;
+    while (j < source.length) {
+      const ch = source[j];
+      if (ch === '\\') {
+        j += 2;
+        continue;
+      }
+      if (ch === '`') {
+        blank(start, j);
+        return { end: j + 1, opened: false };
+      }
+      if (ch === '$' && source[j + 1] === '{') {
+        blank(start, j);
+        return { end: j + 2, opened: true };
+      }
+      j++;
+    }
+    blank(start, source.length);
+    return { end: source.length, opened: false };
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    const next = source[i + 1];
+
+    if (ch === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? source.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch && source[j] !== '\n') {
+        j += source[j] === '\\' ? 2 : 1;
+      }
+      blank(i + 1, j);
+      i = j + 1;
+      lastSignificant = ch;
+      continue;
+    }
+    if (ch === '`') {
+      const { end, opened } = scanTemplateText(i + 1);
+      if (opened) templates.push(braceDepth++);
+      i = end;
+      lastSignificant = '`';
+      continue;
+    }
+    if (ch === '/' && (REGEX_PRECEDERS.has(lastSignificant) || /\b(?:return|typeof|case|of|in)\s*$/.test(source.slice(Math.max(0, i - 8), i)))) {
+      let j = i + 1;
+      let inClass = false;
+      while (j < source.length && source[j] !== '\n') {
+        if (source[j] === '\\') {
+          j += 2;
+          continue;
+        }
+        if (source[j] === '[') inClass = true;
+        else if (source[j] === ']') inClass = false;
+        else if (source[j] === '/' && !inClass) break;
+        j++;
+      }
+      blank(i + 1, j);
+      i = j + 1;
+      lastSignificant = '/';
+      continue;
+    }
+    if (ch === '{') {
+      braceDepth++;
+    } else if (ch === '}') {
+      braceDepth--;
+      if (templates.length > 0 && templates[templates.length - 1] === braceDepth) {
+        templates.pop();
+        const { end, opened } = scanTemplateText(i + 1);
+        if (opened) templates.push(braceDepth++);
+        i = end;
+        lastSignificant = '`';
+        continue;
+      }
+    }
+    if (!/\s/.test(ch)) lastSignificant = /[\w$]/.test(ch) ? 'w' : ch;
+    i++;
+  }
+  return out.join('');
+}
+
+// --- Span helpers ---
+
+const OPENERS = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS = new Set([')', ']', '}']);
+
+/** Index of the bracket closing the one at `open`, or the end of the text. */
+function matchBracket(masked, open) {
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    const ch = masked[i];
+    if (OPENERS[ch]) depth++;
+    else if (CLOSERS.has(ch) && --depth === 0) return i;
+  }
+  return masked.length;
+}
+
+/**
+ * End of an expression starting at `start`: the first `,`, `;` or unmatched
+ * closing bracket at depth zero.
+ */
+function expressionEnd(masked, start) {
+  let depth = 0;
+  for (let i = start; i < masked.length; i++) {
+    const ch = masked[i];
+    if (OPENERS[ch]) depth++;
+    else if (CLOSERS.has(ch)) {
+      if (depth === 0) return i;
+      depth--;
+    } else if ((ch === ',' || ch === ';') && depth === 0) return i;
+  }
+  return masked.length;
+}
+
+/**
+ * Span of a function body. For an arrow, `from` points at the `=>` and the
+ * body is a `{...}` block or an expression; otherwise `from` points at the
+ * parameter list and the body is the block after it.
+ */
+function bodySpan(masked, from, isArrow) {
+  if (!isArrow) {
+    // skip a return type annotation such as `: Promise<{ ok: boolean }>`
+    let angles = 0;
+    for (let i = matchBracket(masked, from) + 1; i < masked.length; i++) {
+      const ch = masked[i];
+      if (ch === '<') angles++;
+      else if (ch === '>' && masked[i - 1] !== '=') angles--;
+      else if (ch === '{' && angles === 0) return { start: i, end: matchBracket(masked, i) + 1 };
+      else if (ch === ';' && angles === 0) return null;
+    }
+    return null;
+  }
+  let start = from + 2;
+  while (/\s/.test(masked[start] ?? '')) start++;
+  if (masked[start] === '{') return { start, end: matchBracket(masked, start) + 1 };
+  return { start, end: expressionEnd(masked, start) };
+}
+
+/** True if the line or the one above carries a `// replay-safe: <reason>` comment. */
+function isSuppressed(source, line) {
+  const lines = source.split('\n');
+  return [lines[line - 1], lines[line - 2]].some((text) => text !== undefined && SUPPRESSION_RE.test(text));
+}
+
+function lineAt(source, offset) {
+  let line = 1;
+  for (let i = 0; i < offset && i < source.length; i++) {
+    if (source[i] === '\n') line++;
+  }
+  return line;
+}
+
+// --- File index ---
+
+/**
+ * Index one file: its masked text, named function bodies, relative imports
+ * and the `run` bodies of its `defineWorkflow()` calls.
+ */
+export function indexSource(file, source) {
+  const masked = maskSource(source);
+  const functions = new Map();
+  for (const re of [FUNCTION_DECL_RE, ARROW_DECL_RE]) {
+    re.lastIndex = 0;
+    for (let match = re.exec(masked); match; match = re.exec(masked)) {
+      const isArrow = re === ARROW_DECL_RE;
+      const span = bodySpan(masked, match.index + match[0].length - (isArrow ? 2 : 1), isArrow);
+      if (span && !functions.has(match[1])) functions.set(match[1], span);
+    }
+  }
+
+  const imports = new Map();
+  IMPORT_RE.lastIndex = 0;
+  for (let match = IMPORT_RE.exec(source); match; match = IMPORT_RE.exec(source)) {
+    for (const part of match[1].split(',')) {
+      const names = part.trim().replace(/^type\s+/, '').split(/\s+as\s+/);
+      if (!names[0]) continue;
+      imports.set(names[1] ?? names[0], { specifier: match[3], name: names[0] });
+    }
+  }
+
+  const workflows = [];
+  DEFINE_WORKFLOW_RE.lastIndex = 0;
+  for (let match = DEFINE_WORKFLOW_RE.exec(masked); match; match = DEFINE_WORKFLOW_RE.exec(masked)) {
+    const open = match.index + match[0].length - 1;
+    const close = matchBracket(masked, open);
+    const config = masked.slice(open, close);
+    const nameMatch = /\bname\s*:\s*(['"])/.exec(config);
+    const name = nameMatch
+      ? source.slice(open + nameMatch.index + nameMatch[0].length, source.indexOf(nameMatch[1], open + nameMatch.index + nameMatch[0].length))
+      : '(unnamed)';
+    const runMatch = /\brun\s*(?:\(|:\s*(?:async\s+)?(?:function\s*)?)/.exec(config);
+    if (!runMatch) continue;
+    const valueStart = open + runMatch.index + runMatch[0].length;
+    const reference = /^[A-Za-z_$][\w$]*(?=\s*[,}])/.exec(masked.slice(valueStart));
+    if (reference) {
+      // `run: someWorkflowFn` — walk the referenced function instead
+      workflows.push({ name, reference: reference[0] });
+      continue;
+    }
+    const paramsOpen = runMatch[0].endsWith('(') ? valueStart - 1 : masked.indexOf('(', valueStart);
+    const isArrow = !runMatch[0].endsWith('(') && !/function/.test(runMatch[0]);
+    const span = isArrow
+      ? bodySpan(masked, masked.indexOf('=>', valueStart), true)
+      : bodySpan(masked, paramsOpen, false);
+    if (span) workflows.push({ name, span });
+  }
+
+  return { file, source, masked, functions, imports, workflows };
+}
+
+// --- Analysis ---
+
+/**
+ * Spans of every `runStep(...)` argument list inside `span`, with the
+ * offset and text of its `name:` option when one is given inline.
+ */
+function findSteps(masked, span) {
+  const steps = [];
+  RUN_STEP_RE.lastIndex = span.start;
+  for (let match = RUN_STEP_RE.exec(masked); match && match.index < span.end; match = RUN_STEP_RE.exec(masked)) {
+    const open = match.index + match[0].length - 1;
+    const close = matchBracket(masked, open);
+    const firstArgEnd = expressionEnd(masked, open + 1);
+    let nameOption = null;
+    if (masked[firstArgEnd] === ',') {
+      let optionsStart = firstArgEnd + 1;
+      while (/\s/.test(masked[optionsStart] ?? '')) optionsStart++;
+      if (masked[optionsStart] === '{') {
+        const optionsEnd = matchBracket(masked, optionsStart);
+        const nameRe = /\bname\s*:/g;
+        nameRe.lastIndex = optionsStart + 1;
+        for (let nameMatch = nameRe.exec(masked); nameMatch && nameMatch.index < optionsEnd; nameMatch = nameRe.exec(masked)) {
+          // only the option itself, not a `name:` inside a nested object
+          if (nestedDepth(masked, optionsStart, nameMatch.index) !== 1) continue;
+          const valueStart = nameMatch.index + nameMatch[0].length;
+          nameOption = { start: valueStart, end: expressionEnd(masked, valueStart) };
+          break;
+        }
+      }
+    }
+    steps.push({ start: open, end: close + 1, nameOption });
+    RUN_STEP_RE.lastIndex = close + 1;
+  }
+  return steps;
+}
+
+function nestedDepth(masked, from, to) {
+  let depth = 0;
+  for (let i = from; i < to; i++) {
+    if (OPENERS[masked[i]]) depth++;
+    else if (CLOSERS.has(masked[i])) depth--;
+  }
+  return depth;
+}
+
+/** Index of the bracket opening the one at `close`. */
+function matchBracketBack(masked, close) {
+  let depth = 0;
+  for (let i = close; i >= 0; i--) {
+    const ch = masked[i];
+    if (CLOSERS.has(ch)) depth++;
+    else if (OPENERS[ch] && --depth === 0) return i;
+  }
+  return 0;
+}
+
+/**
+ * Start of the parameters of the arrow whose `=>` is at `arrow`: the opening
+ * paren, looking past a return type annotation, or a bare identifier.
+ */
+function arrowParamsStart(masked, arrow, floor) {
+  let j = arrow - 1;
+  while (j > floor && /\s/.test(masked[j])) j--;
+  if (/[\w$]/.test(masked[j]) && !/\)\s*:[^;]*$/.test(masked.slice(Math.max(floor, j - 200), j + 1))) {
+    while (j > floor && /[\w$]/.test(masked[j - 1])) j--;
+    return j;
+  }
+  let depth = 0;
+  for (; j > floor; j--) {
+    const ch = masked[j];
+    if (ch === ')' && depth === 0 && /^\s*(?::[\s\S]*)?$/.test(masked.slice(j + 1, arrow))) return matchBracketBack(masked, j);
+    if (CLOSERS.has(ch) || (ch === '>' && masked[j - 1] !== '=')) depth++;
+    else if (OPENERS[ch] || ch === '<') depth--;
+  }
+  return j;
+}
+
+function previousSignificant(masked, from) {
+  let i = from;
+  while (i >= 0 && /\s/.test(masked[i])) i--;
+  if (/[\w$]/.test(masked[i] ?? '')) {
+    let start = i;
+    while (start > 0 && /[\w$]/.test(masked[start - 1])) start--;
+    const word = masked.slice(start, i + 1);
+    // `async (x) => ...` — look through the modifier
+    if (word === 'async') return previousSignificant(masked, start - 1);
+  }
+  return { index: i, ch: masked[i] ?? '' };
+}
+
+/**
+ * Bodies of functions defined inside `span` that merely being declared does
+ * not run: named functions, object methods, and arrows or function
+ * expressions stored or returned rather than passed straight into a call.
+ * A factory called at workflow level builds closures; their bodies only
+ * count once something calls them, and named ones are walked at that call.
+ * Callbacks passed directly as arguments (`items.map((item) => ...)`) are
+ * kept, since the callee runs them.
+ */
+function deferredFunctionSpans(masked, span) {
+  const spans = [];
+  const isCallback = (definitionStart) => {
+    const before = previousSignificant(masked, definitionStart - 1);
+    if (before.ch === ',') return true;
+    if (before.ch !== '(') return false;
+    // handlers registered for later (`createServer((req, res) => ...)`) do not run now
+    const callee = /([\w$]+)\s*$/.exec(masked.slice(Math.max(0, before.index - 64), before.index));
+    return !callee || !DEFERRED_CALLBACK_TAKERS.has(callee[1]);
+  };
+
+  for (let i = span.start + 1; i < span.end; i++) {
+    if (masked[i] === '=' && masked[i + 1] === '>') {
+      const paramsStart = arrowParamsStart(masked, i, span.start);
+      const body = bodySpan(masked, i, true);
+      if (body && !isCallback(paramsStart)) spans.push(body);
+      continue;
+    }
+    const word = /^[A-Za-z_$][\w$]*/.exec(masked.slice(i, i + 64));
+    if (!word || /[\w$.]/.test(masked[i - 1])) continue;
+    if (word[0] === 'function') {
+      const paren = masked.indexOf('(', i);
+      const body = bodySpan(masked, paren, false);
+      if (body && !isCallback(i)) spans.push(body);
+      i += word[0].length - 1;
+      continue;
+    }
+    // object method shorthand: `{ async insert(row) { ... } }`
+    if (!KEYWORDS_BEFORE_PAREN.has(word[0])) {
+      let k = i + word[0].length;
+      while (/\s/.test(masked[k] ?? '')) k++;
+      if (masked[k] === '<') {
+        const generics = /^<[^()]*>\s*/.exec(masked.slice(k));
+        if (generics) k += generics[0].length;
+      }
+      const before = previousSignificant(masked, i - 1);
+      if (masked[k] === '(' && (before.ch === '{' || before.ch === ',' || before.ch === '}')) {
+        const close = matchBracket(masked, k);
+        let n = close + 1;
+        while (/\s/.test(masked[n] ?? '')) n++;
+        if (masked[n] === '{' || masked[n] === ':') {
+          const body = bodySpan(masked, k, false);
+          if (body) spans.push(body);
+        }
+      }
+    }
+    i += word[0].length - 1;
+  }
+  return spans;
+}
+
+/** `masked` with the given spans blanked out. */
+function without(masked, span, holes) {
+  let text = masked.slice(span.start, span.end);
+  for (const hole of holes) {
+    const from = Math.max(hole.start, span.start) - span.start;
+    const to = Math.min(hole.end, span.end) - span.start;
+    if (to > from) text = text.slice(0, from) + ' '.repeat(to - from) + text.slice(to);
+  }
+  return text;
+}
+
+function nonDeterministicCalls(text) {
+  const found = [];
+  for (const { pattern, label, primitive } of NONDETERMINISTIC_CALLS) {
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      found.push({ offset: match.index, label, primitive });
+    }
+  }
+  return found.sort((a, b) => a.offset - b.offset);
+}
+
+/** Why a step name expression can differ between executions, or null. */
+function conditionalNameReason(expression) {
+  const calls = nonDeterministicCalls(expression);
+  if (calls.length > 0) return `is built from ${calls[0].label}`;
+  if (/\?\?|\|\||&&/.test(expression)) return 'depends on a `||`/`??`/`&&` fallback';
+  if (/\?(?!\.)/.test(expression)) return 'is chosen by a ternary';
+  return null;
+}
+
+/**
+ * Resolve a called identifier to a function in the same file or, through a
+ * relative import, in another indexed file.
+ */
+function resolveCall(index, name, indexes, resolveImport) {
+  if (index.functions.has(name)) return { index, span: index.functions.get(name), name };
+  const imported = index.imports.get(name);
+  if (!imported) return null;
+  const target = indexes.get(resolveImport(index.file, imported.specifier));
+  if (!target || !target.functions.has(imported.name)) return null;
+  return { index: target, span: target.functions.get(imported.name), name: imported.name };
+}
+
+/**
+ * Analyze a set of source files together so workflow-level calls into other
+ * files are followed.
+ *
+ * @param {Array<{ file: string, source: string }>} files
+ * @param {(from: string, specifier: string) => string} resolveImport maps an
+ *   import specifier (e.g. "./sync-core.js") to the `file` key it refers to
+ * @returns {Array<{ file: string, line: number, kind: string, workflow: string, message: string }>}
+ */
+export function analyzeDeterminism(files, resolveImport) {
+  const indexes = new Map(files.map(({ file, source }) => [file, indexSource(file, source)]));
+  const findings = [];
+  const reported = new Set();
+
+  const report = (index, offset, kind, workflow, message) => {
+    const line = lineAt(index.source, offset);
+    if (isSuppressed(index.source, line)) return;
+    const key = `${index.file}:${line}:${kind}:${message}`;
+    if (reported.has(key)) return;
+    reported.add(key);
+    findings.push({ file: index.file, line, kind, workflow, message });
+  };
+
+  for (const index of indexes.values()) {
+    for (const workflow of index.workflows) {
+      const visited = new Set();
+      const walk = (current, span, via) => {
+        const key = `${current.file}:${span.start}`;
+        if (visited.has(key)) return;
+        visited.add(key);
+
+        const steps = findSteps(current.masked, span);
+        for (const step of steps) {
+          if (!step.nameOption) continue;
+          const expression = current.masked.slice(step.nameOption.start, step.nameOption.end);
+          const reason = conditionalNameReason(expression);
+          if (reason) {
+            report(current, step.nameOption.start, 'conditional-step-name', workflow.name,
+              `step name \`${current.source.slice(step.nameOption.start, step.nameOption.end).trim()}\` ${reason}; the same position must ask for the same step name on replay`);
+          }
+        }
+
+        const text = without(current.masked, span, [...steps, ...deferredFunctionSpans(current.masked, span)]);
+        for (const call of nonDeterministicCalls(text)) {
+          report(current, span.start + call.offset, 'nondeterministic-call', workflow.name,
+            `${call.label} runs at workflow level${via.length > 0 ? ` (via ${via.join(' → ')})` : ''}; use \`await ${call.primitive}\` or move it into a runStep() so replay reuses the recorded value`);
+        }
+
+        CALL_RE.lastIndex = 0;
+        for (let match = CALL_RE.exec(text); match; match = CALL_RE.exec(text)) {
+          if (/\bfunction\s*\*?\s*$/.test(text.slice(Math.max(0, match.index - 12), match.index + match[1].length))) continue;
+          const target = resolveCall(current, match[2], indexes, resolveImport);
+          if (target) walk(target.index, target.span, [...via, `${target.name}()`]);
+        }
+      };
+      if (workflow.span) {
+        walk(index, workflow.span, []);
+      } else {
+        const target = resolveCall(index, workflow.reference, indexes, resolveImport);
+        if (target) walk(target.index, target.span, [`${target.name}()`]);
+      }
+    }
+  }
+
+  return findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
@@ -0,0 +1,147 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { analyzeDeterminism, maskSource } from '../../scripts/lib/determinism.mjs';
+
+/**
+ * The replay-determinism pass (scripts/check-determinism.mjs) is what keeps
+ * the example workflows safe to re-execute. These cases pin what it must
+ * flag, and — just as important — the step bodies, step helpers and factory
+ * closures it must leave alone, so the real tree stays at zero findings.
+ */
+
+const resolveImport = (from, specifier) => `src/${specifier.replace(/^\.\//, '').replace(/\.js$/, '.ts')}`;
+
+function analyze(sources) {
+  const files = Object.entries(sources).map(([file, source]) => ({ file, source }));
+  return analyzeDeterminism(files, resolveImport);
+}
+
+test('maskSource blanks comments and literals but keeps template expressions and offsets', () => {
+  const source = "const a = 'Date.now()'; // Math.random()\nconst b = `x ${Date.now()} y`;";
+  const masked = maskSource(source);
+
+  assert.equal(masked.length, source.length);
+  assert.equal(masked.includes('Math.random'), false);
+  assert.equal(masked.split('Date.now()').length - 1, 1);
+  assert.equal(masked.indexOf('\n'), source.indexOf('\n'));
+});
+
+test('flags clock and randomness calls in the run body but not inside runStep() or the SDK primitives', () => {
+  const findings = analyze({
+    'src/wf.ts': [
+      "export const wf = defineWorkflow({",
+      "  name: 'wf',",
+      "  run: async (ctx) => {",
+      "    const inside = await SolidActions.runStep(() => Date.now(), { name: 'now' });",
+      "    const recorded = await SolidActions.now();",
+      "    return { inside, recorded, at: new Date().toISOString(), roll: Math.random() };",
+      "  },",
+      "});",
+    ].join('\n'),
+  });
+
+  assert.deepEqual(
+    findings.map((finding) => [finding.line, finding.kind, finding.workflow]),
+    [
+      [6, 'nondeterministic-call', 'wf'],
+      [6, 'nondeterministic-call', 'wf'],
+    ],
+  );
+  assert.match(findings[0].message, /new Date\(\) runs at workflow level; use `await SolidActions\.now\(\)`/);
+  assert.match(findings[1].message, /Math\.random\(\) runs at workflow level; use `await SolidActions\.randomUUID\(\)`/);
+});
+
+test('follows workflow-level calls across files and skips helpers only called from steps', () => {
+  const findings = analyze({
+    'src/wf.ts': [
+      "import { prepare, stamp } from './helpers.js';",
+      "async function body(input) {",
+      "  const config = prepare(input);",
+      "  await SolidActions.runStep(() => stamp(config), { name: 'stamp' });",
+      "}",
+      "export const wf = defineWorkflow({ name: 'wf', run: (ctx) => body(ctx.input) });",
+    ].join('\n'),
+    'src/helpers.ts': [
+      "export function prepare(input) {",
+      "  return { ...input, id: crypto.randomUUID() };",
+      "}",
+      "export function stamp(config) {",
+      "  return { ...config, at: Date.now() };",
+      "}",
+    ].join('\n'),
+  });
+
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].file, 'src/helpers.ts');
+  assert.equal(findings[0].line, 2);
+  assert.match(findings[0].message, /randomUUID\(\) runs at workflow level \(via body\(\) → prepare\(\)\)/);
+});
+
+test('does not flag closures a factory only builds', () => {
+  const findings = analyze({
+    'src/wf.ts': [
+      "function createClient() {",
+      "  function jitter() { return Math.random(); }",
+      "  return {",
+      "    async fetch(url) { return { url, at: Date.now(), wait: jitter() }; },",
+      "    stamp: () => new Date(),",
+      "  };",
+      "}",
+      "export const wf = defineWorkflow({",
+      "  name: 'wf',",
+      "  run: async () => {",
+      "    const client = createClient();",
+      "    return SolidActions.runStep(() => client.fetch('/x'), { name: 'fetch' });",
+      "  },",
+      "});",
+    ].join('\n'),
+  });
+
+  assert.deepEqual(findings, []);
+});
+
+test('flags step names chosen by a ternary, a fallback or a clock', () => {
+  const findings = analyze({
+    'src/wf.ts': [
+      "export const wf = defineWorkflow({",
+      "  name: 'wf',",
+      "  async run(ctx) {",
+      "    await SolidActions.runStep(() => 1, { name: ctx.input.fast ? 'quick' : 'slow' });",
+      "    await SolidActions.runStep(() => 2, { name: ctx.input.label || 'default' });",
+      "    await SolidActions.runStep(() => 3, { name: `at-${Date.now()}` });",
+      "    for (let i = 0; i < 3; i++) {",
+      "      await SolidActions.runStep(() => i, { name: `item-${i}`, retriesAllowed: true });",
+      "    }",
+      "  },",
+      "});",
+    ].join('\n'),
+  });
+
+  assert.deepEqual(
+    findings.map((finding) => [finding.line, finding.kind]),
+    [
+      [4, 'conditional-step-name'],
+      [5, 'conditional-step-name'],
+      [6, 'conditional-step-name'],
+    ],
+  );
+  assert.match(findings[0].message, /ternary/);
+  assert.match(findings[2].message, /Date\.now\(\)/);
+});
+
+test('a replay-safe comment suppresses a finding with a stated reason', () => {
+  const findings = analyze({
+    'src/wf.ts': [
+      "export const wf = defineWorkflow({",
+      "  name: 'wf',",
+      "  run: async () => {",
+      "    // replay-safe: only used for a log line",
+      "    console.log(Date.now());",
+      "    return new Date();",
+      "  },",
+      "});",
+    ].join('\n'),
+  });
+
+  assert.deepEqual(findings.map((finding) => finding.line), [6]);
+});